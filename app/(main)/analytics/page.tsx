@@ -0,0 +1,11 @@
+"use client";
+
+import AnalyticsDashboard from "@/components/AnalyticsDashboard";
+
+export default function AnalyticsPage() {
+  return (
+    <main className="mt-6 flex w-full flex-1 flex-col items-center">
+      <AnalyticsDashboard />
+    </main>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, LogIn, UserPlus } from "lucide-react";
+import { login, register } from "@/services/api";
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (mode === "login") {
+        await login({ email, password });
+      } else {
+        await register({ email, password, name: name || undefined });
+      }
+
+      // Only same-site paths, so the redirect can't be pointed elsewhere
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.push(next?.startsWith("/") && !next.startsWith("//") ? next : "/");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const inputClassName =
+    "w-full rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-cyan-300";
+
+  return (
+    <main className="mt-12 flex w-full flex-1 flex-col items-center px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 rounded-lg border border-white/20 bg-white/10 p-6 backdrop-blur-lg"
+      >
+        <h2 className="text-center text-xl font-semibold text-white">
+          {mode === "login" ? "Sign in" : "Create an account"}
+        </h2>
+
+        {mode === "register" && (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            autoComplete="name"
+            className={inputClassName}
+          />
+        )}
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          autoComplete="email"
+          className={inputClassName}
+        />
+        <input
+          type="password"
+          required
+          minLength={mode === "register" ? 8 : undefined}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={mode === "register" ? "Password (8+ characters)" : "Password"}
+          autoComplete={mode === "register" ? "new-password" : "current-password"}
+          className={inputClassName}
+        />
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex w-full items-center justify-center gap-2 rounded-lg bg-blue-500 px-4 py-2 text-sm text-white transition-colors hover:bg-blue-600 disabled:opacity-50"
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : mode === "login" ? (
+            <LogIn className="h-4 w-4" />
+          ) : (
+            <UserPlus className="h-4 w-4" />
+          )}
+          {mode === "login" ? "Sign in" : "Create account"}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "login" ? "register" : "login");
+            setError(null);
+          }}
+          className="w-full text-center text-sm text-white/70 hover:text-white"
+        >
+          {mode === "login"
+            ? "No account yet? Create one"
+            : "Already have an account? Sign in"}
+        </button>
+      </form>
+    </main>
+  );
+}
@@ -10,6 +10,7 @@ import {
   Settings2,
   Loader2,
   Cpu,
+  Columns2,
 } from "lucide-react";
 import * as Select from "@radix-ui/react-select";
 import { motion } from "framer-motion";
@@ -17,7 +18,6 @@ import { FormEvent, useEffect, useState, useMemo, useCallback } from "react";
 import LoadingDots from "@/components/loading-dots";
 import {
   AI_PROVIDERS,
-  ENABLED_PROVIDERS,
   initializeOllamaModels,
   getModelFullName,
   refreshOllamaModels,
@@ -29,23 +29,32 @@ import SpinnerLoader from "@/components/SpinnerLoader";
 import AISettingsPanel from "@/components/AISettingsPanel";
 import ChatInterface from "@/components/ChatInterface";
 import SavedGenerations from "@/components/SavedGenerations";
+import RevisionTimeline from "@/components/RevisionTimeline";
+import ModelComparison, { ComparisonRun } from "@/components/ModelComparison";
+import PromptTemplatePicker from "@/components/PromptTemplatePicker";
 import { fetchOllamaModels, isOllamaAvailable } from "@/utils/ollama";
+import {
+  checkCodeDiagnostics,
+  createComparison,
+  createRevision,
+  fetchApiKeys,
+  pickComparisonWinner,
+  streamReader,
+} from "@/services/api";
+import { formatCodeIssue } from "@/utils/code-verification";
 import { 
   Status,
   TokenAnalytics,
+  TokenAnalyticsResponse,
   CumulativeTokenAnalytics,
   Analytics,
   SavedGeneration,
   AISettings,
+  ApiKeyStatus,
+  EnabledProviders,
   OllamaModel
 } from '@/types';
 
-function removeCodeFormatting(code: string): string {
-  return code
-    .replace(/```(?:typescript|javascript|tsx)?\n([\s\S]*?)```/g, "$1")
-    .trim();
-}
-
 const getDefaultSettings = (provider: string): AISettings => ({
   temperature: provider === "deepseek" ? 0.0 : 0.7,
   maxTokens:
@@ -76,19 +85,44 @@ export default function Home() {
   const [tokenAnalytics, setTokenAnalytics] = useState<CumulativeTokenAnalytics | null>(null);
   const [showAnalytics, setShowAnalytics] = useState(false);
   const [runtimeError, setRuntimeError] = useState<string | null>(null);
+  const [budgetError, setBudgetError] = useState<string | null>(null);
   const [model, setModel] = useState("");
   const [ref, scrollTo] = useScrollTo();
   const [messages, setMessages] = useState<{ role: string; content: string }[]>([]);
   const [currentGeneratedAppId, setCurrentGeneratedAppId] = useState<string | null>(null);
+  const [revisionsVersion, setRevisionsVersion] = useState(0);
   const [chatVisible, setChatVisible] = useState(false);
   const [refinementMessages, setRefinementMessages] = useState<{ role: string; content: string }[]>([]);
   const [showSettings, setShowSettings] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const [comparisonId, setComparisonId] = useState<string | null>(null);
+  const [comparisonRuns, setComparisonRuns] = useState<ComparisonRun[]>([]);
+  const [apiKeys, setApiKeys] = useState<ApiKeyStatus[]>([]);
+
+  // Providers are enabled per user, by their own keys or the server's;
+  // Ollama once local models are found
+  const enabledProviders = useMemo(() => {
+    const enabled: EnabledProviders = {
+      openai: false,
+      anthropic: false,
+      google: false,
+      deepseek: false,
+      grok: false,
+      ollama: ollamaModels.length > 0,
+    };
+    apiKeys.forEach(({ provider, source }) => {
+      enabled[provider] = source !== null;
+    });
+    return enabled;
+  }, [apiKeys, ollamaModels]);
+
   // Memoized grouped models
   const groupedModels = useMemo(() => {
     if (!isModelInitialized) return [];
 
     return Object.entries(AI_PROVIDERS)
-      .filter(([provider]) => ENABLED_PROVIDERS[provider as keyof typeof ENABLED_PROVIDERS])
+      .filter(([provider]) => enabledProviders[provider as keyof EnabledProviders])
       .map(([provider, models]) => ({
         provider,
         models: models.map((model) => ({
@@ -96,7 +130,7 @@ export default function Home() {
           value: model.id,
         })),
       }));
-  }, [isModelInitialized, ollamaModels]);
+  }, [isModelInitialized, enabledProviders]);
 
   const initialProvider = groupedModels[0]?.provider || "anthropic";
   const [aiSettings, setAISettings] = useState<AISettings>(() =>
@@ -118,9 +152,23 @@ export default function Home() {
     [model, groupedModels, initialProvider]
   );
 
+  // Pick a model once providers are known, and move off one that was disabled
+  useEffect(() => {
+    if (groupedModels.length === 0) return;
+    if (!groupedModels.some((g) => g.models.some((m) => m.value === model))) {
+      setModel(groupedModels[0].models[0]?.value ?? "");
+    }
+  }, [groupedModels, model]);
+
   // Initialize Ollama models
   useEffect(() => {
     async function initializeModels() {
+      try {
+        setApiKeys(await fetchApiKeys());
+      } catch (error) {
+        console.error("Failed to fetch API keys:", error);
+      }
+
       try {
         const isOllamaRunning = await isOllamaAvailable();
         if (isOllamaRunning) {
@@ -134,8 +182,7 @@ export default function Home() {
           setModel(groupedModels[0].models[0].value);
         }
       } catch {
-
-        ENABLED_PROVIDERS.ollama = false;
+        // Ollama stays disabled while no local models are found
       } finally {
         setIsModelInitialized(true);
       }
@@ -172,21 +219,12 @@ export default function Home() {
               }
             }
           }
-        } else {
-          ENABLED_PROVIDERS.ollama = false;
-          if (isSubscribed && model && AI_PROVIDERS.ollama.some(m => m.id === model)) {
-            // If current model is an Ollama model, switch to first available non-Ollama model
-            for (const [provider, models] of Object.entries(AI_PROVIDERS)) {
-              if (provider !== 'ollama' && ENABLED_PROVIDERS[provider as keyof typeof ENABLED_PROVIDERS] && models.length > 0) {
-                setModel(models[0].id);
-                break;
-              }
-            }
-          }
+        } else if (isSubscribed) {
+          // Disables Ollama; an Ollama model in use is then swapped out above
+          setOllamaModels([]);
         }
       } catch {
-        
-        ENABLED_PROVIDERS.ollama = false;
+        if (isSubscribed) setOllamaModels([]);
       }
     };
 
@@ -230,7 +268,9 @@ export default function Home() {
     }
   }, [loading, generatedCode]);
 
-  const updateTokenAnalytics = (newAnalytics: TokenAnalytics) => {
+  const updateTokenAnalytics = (
+    newAnalytics: TokenAnalytics | TokenAnalyticsResponse,
+  ) => {
     setTokenAnalytics((prevAnalytics) => {
       if (!prevAnalytics) {
         return {
@@ -238,6 +278,7 @@ export default function Home() {
           cumulativePromptTokens: newAnalytics.promptTokens,
           cumulativeResponseTokens: newAnalytics.responseTokens,
           cumulativeTotalTokens: newAnalytics.totalTokens,
+          cumulativeCost: newAnalytics.cost ?? 0,
           utilizationPercentage: (
             (newAnalytics.totalTokens / newAnalytics.maxTokens) *
             100
@@ -251,12 +292,17 @@ export default function Home() {
         prevAnalytics.cumulativeResponseTokens + newAnalytics.responseTokens;
       const cumulativeTotalTokens =
         cumulativePromptTokens + cumulativeResponseTokens;
+      const cumulativeCost =
+        prevAnalytics.cumulativeCost + (newAnalytics.cost ?? 0);
 
       return {
         ...newAnalytics,
         cumulativePromptTokens,
         cumulativeResponseTokens,
         cumulativeTotalTokens,
+        cumulativeCost,
+        // The running totals are only exact if every generation was
+        isEstimated: prevAnalytics.isEstimated || newAnalytics.isEstimated,
         utilizationPercentage: (
           (cumulativeTotalTokens / newAnalytics.maxTokens) *
           100
@@ -273,6 +319,20 @@ export default function Home() {
   };
 
 
+  // Compared models can come from different providers than the selected one
+  const toApiModelName = (value: string) => {
+    const provider = groupedModels.find((g) =>
+      g.models.some((m) => m.value === value)
+    )?.provider;
+    return provider === "ollama" ? getModelFullName(value) : value;
+  };
+
+  const toggleCompareModel = (value: string) => {
+    setCompareModels((prev) =>
+      prev.includes(value) ? prev.filter((m) => m !== value) : [...prev, value]
+    );
+  };
+
   async function handleChatMessage(message: string) {
     if (!generatedCode || status !== "created") return;
 
@@ -294,6 +354,7 @@ export default function Home() {
             ...updatedMessages,
           ],
           settings: aiSettings,
+          generatedAppId: currentGeneratedAppId ?? undefined,
         }),
       });
 
@@ -301,37 +362,20 @@ export default function Home() {
         throw new Error(res.statusText || "Failed to update code");
       }
 
-      const reader = res.body.getReader();
       let receivedData = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        receivedData += new TextDecoder().decode(value);
-        const cleanedData = removeCodeFormatting(receivedData);
-        setGeneratedCode(cleanedData);
-      }
+      const { analytics } = await streamReader(res.body, {
+        onDelta: (chunk) => {
+          receivedData += chunk;
+          setGeneratedCode(receivedData.trim());
+        },
+      });
 
       setRefinementMessages(updatedMessages);
       setStatus("created");
+      await commitRevision(receivedData.trim(), message);
 
-      if (currentGeneratedAppId) {
-        const analyticsRes = await fetch("/api/tokenAnalytics", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            model: currentModelName,
-            prompt: message,
-            generatedCode: receivedData,
-            generatedAppId: currentGeneratedAppId,
-          }),
-        });
-
-        if (analyticsRes.ok) {
-          const analytics = await analyticsRes.json();
-          updateTokenAnalytics(analytics);
-        }
+      if (analytics) {
+        updateTokenAnalytics(analytics);
       }
     } catch (error) {
       console.error("Error updating code:", error);
@@ -339,6 +383,23 @@ export default function Home() {
     }
   }
 
+  // Applies new code and records it as the app's next revision
+  async function commitRevision(code: string, revisionPrompt: string) {
+    setGeneratedCode(code);
+    if (!currentGeneratedAppId) return;
+
+    try {
+      await createRevision(currentGeneratedAppId, {
+        code,
+        prompt: revisionPrompt,
+        model: getApiModelName(model),
+      });
+      setRevisionsVersion((version) => version + 1);
+    } catch (error) {
+      console.error("Error saving revision:", error);
+    }
+  }
+
   async function generateAppIdea() {
     if (status !== "initial") return;
 
@@ -357,16 +418,7 @@ export default function Home() {
         throw new Error(res.statusText || "Failed to generate idea");
       }
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let newIdea = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        newIdea += decoder.decode(value);
-      }
-
+      const { text: newIdea } = await streamReader(res.body);
       setPrompt(newIdea.trim());
     } catch (error) {
       console.error("Error generating app idea:", error);
@@ -375,8 +427,8 @@ export default function Home() {
     }
   }
 
-  async function refinePrompt() {
-    if (!prompt || status !== "initial") return;
+  async function refinePrompt(text = prompt) {
+    if (!text || status !== "initial") return;
 
     setStatus("refining");
     try {
@@ -385,7 +437,7 @@ export default function Home() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           model: getApiModelName(model),
-          prompt,
+          prompt: text,
           settings: aiSettings,
         }),
       });
@@ -394,16 +446,7 @@ export default function Home() {
         throw new Error(res.statusText || "Failed to refine prompt");
       }
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let refinedPrompt = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        refinedPrompt += decoder.decode(value);
-      }
-
+      const { text: refinedPrompt } = await streamReader(res.body);
       setPrompt(refinedPrompt.trim());
     } catch (error) {
       console.error("Error refining prompt:", error);
@@ -416,8 +459,17 @@ export default function Home() {
     e.preventDefault();
     if (!prompt || status !== "initial") return;
 
+    if (compareMode) {
+      await compareApps();
+      return;
+    }
+
     setStatus("creating");
+    setComparisonId(null);
+    setComparisonRuns([]);
     setGeneratedCode("");
+    setRuntimeError(null);
+    setBudgetError(null);
     setShowAnalytics(false);
     setTokenAnalytics(null);
     setChatVisible(false);
@@ -433,75 +485,179 @@ export default function Home() {
           model: currentModelName,
           messages: [{ role: "user", content: prompt }],
           settings: aiSettings,
+          saveApp: true,
         }),
       });
 
+      // 402 means a spending budget is exhausted, 429 a rate limit was hit
+      if (res.status === 402 || res.status === 429) {
+        setBudgetError(await res.text());
+        setStatus("initial");
+        return;
+      }
+
       if (!res.ok || !res.body) {
         throw new Error(res.statusText || "Failed to generate code");
       }
 
-      const reader = res.body.getReader();
       let receivedData = "";
-      let ollamaResponseData = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
 
-        const chunk = new TextDecoder().decode(value);
-        receivedData += chunk;
-        
-        if (currentProvider === "ollama") {
-          ollamaResponseData += chunk;
-        }
-
-        const cleanedData = removeCodeFormatting(receivedData);
-        setGeneratedCode(cleanedData);
-      }
-
-      const generatedAppResponse = await fetch("/api/generated-apps", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          model: currentModelName,
-          prompt,
-          code: receivedData,
-        }),
+      const { appId, analytics } = await streamReader(res.body, {
+        onDelta: (chunk) => {
+          receivedData += chunk;
+          setGeneratedCode(receivedData.trim());
+        },
+        onWarning: (message) => console.warn("Generation warning:", message),
       });
 
-      if (!generatedAppResponse.ok) {
+      if (!appId) {
         throw new Error("Failed to save generated app");
       }
 
-      const generatedApp = await generatedAppResponse.json();
-      setCurrentGeneratedAppId(generatedApp.id);
-
-      const analyticsRes = await fetch("/api/tokenAnalytics", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          model: currentModelName,
-          prompt,
-          generatedCode: receivedData,
-          generatedAppId: generatedApp.id,
-          ...(currentProvider === "ollama" && { ollamaResponse: ollamaResponseData }),
-        }),
-      });
-
-      if (analyticsRes.ok) {
-        const analytics = await analyticsRes.json();
+      setCurrentGeneratedAppId(appId);
+      if (analytics) {
         updateTokenAnalytics(analytics);
       }
 
       setStatus("created");
       setChatVisible(true);
       scrollTo({ delay: 0.5 });
+      reportTypeErrors(receivedData.trim());
     } catch (error) {
       console.error("Error generating code:", error);
       setStatus("initial");
     }
   }
 
+  // Streams the prompt from every selected model at once into its own panel
+  async function compareApps() {
+    if (compareModels.length < 2) return;
+
+    setStatus("comparing");
+    setGeneratedCode("");
+    setRuntimeError(null);
+    setBudgetError(null);
+    setShowAnalytics(false);
+    setTokenAnalytics(null);
+    setChatVisible(false);
+    setRefinementMessages([]);
+    setMessages([{ role: "user", content: prompt }]);
+
+    const labels = Object.fromEntries(
+      groupedModels.flatMap(({ models }) => models.map((m) => [m.value, m.label]))
+    );
+    setComparisonRuns(
+      compareModels.map((value) => ({
+        model: value,
+        label: labels[value] ?? value,
+        code: "",
+        status: "streaming",
+      }))
+    );
+
+    const updateRun = (value: string, update: (run: ComparisonRun) => Partial<ComparisonRun>) =>
+      setComparisonRuns((prev) =>
+        prev.map((run) => (run.model === value ? { ...run, ...update(run) } : run))
+      );
+
+    try {
+      const comparison = await createComparison({ prompt });
+      setComparisonId(comparison.id);
+
+      await Promise.all(
+        compareModels.map(async (value) => {
+          try {
+            const res = await fetch("/api/generateCode", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                model: toApiModelName(value),
+                messages: [{ role: "user", content: prompt }],
+                settings: aiSettings,
+                saveApp: true,
+                comparisonId: comparison.id,
+              }),
+            });
+
+            // 402 means a spending budget is exhausted, 429 a rate limit was hit
+            if (res.status === 402 || res.status === 429) {
+              const message = await res.text();
+              updateRun(value, () => ({ status: "failed", error: message }));
+              setBudgetError(message);
+              return;
+            }
+
+            if (!res.ok || !res.body) {
+              throw new Error(res.statusText || "Failed to generate code");
+            }
+
+            const { text, appId, analytics } = await streamReader(res.body, {
+              onDelta: (chunk) => updateRun(value, (run) => ({ code: run.code + chunk })),
+              onWarning: (message) => console.warn(`Generation warning (${value}):`, message),
+            });
+
+            updateRun(value, () => ({
+              code: text.trim(),
+              status: appId ? "done" : "failed",
+              error: appId ? undefined : "Failed to save generated app",
+              appId: appId ?? undefined,
+              analytics: analytics ?? undefined,
+            }));
+          } catch (error) {
+            console.error(`Error generating code with ${value}:`, error);
+            updateRun(value, () => ({
+              status: "failed",
+              error: error instanceof Error ? error.message : "Generation failed",
+            }));
+          }
+        })
+      );
+    } catch (error) {
+      console.error("Error starting comparison:", error);
+      setComparisonRuns([]);
+    } finally {
+      setStatus("initial");
+    }
+  }
+
+  // Continues with the picked result as if it had been generated on its own
+  async function handlePickWinner(run: ComparisonRun) {
+    if (!comparisonId || !run.appId) return;
+
+    try {
+      await pickComparisonWinner(comparisonId, run.appId);
+    } catch (error) {
+      console.error("Error saving comparison winner:", error);
+    }
+
+    setModel(run.model);
+    setGeneratedCode(run.code);
+    setCurrentGeneratedAppId(run.appId);
+    setRevisionsVersion((version) => version + 1);
+    setComparisonRuns([]);
+    setTokenAnalytics(null);
+    if (run.analytics) {
+      updateTokenAnalytics(run.analytics);
+    }
+
+    setStatus("created");
+    setChatVisible(true);
+    scrollTo({ delay: 0.5 });
+    reportTypeErrors(run.code);
+  }
+
+  // Hands type errors to the ErrorFixer before the preview trips over them
+  async function reportTypeErrors(code: string) {
+    try {
+      const { valid, diagnostics } = await checkCodeDiagnostics(code);
+      if (!valid) {
+        setRuntimeError(diagnostics.map(formatCodeIssue).join("\n"));
+      }
+    } catch (error) {
+      console.error("Error checking generated code:", error);
+    }
+  }
+
   const handleLoadGeneration = (generation: SavedGeneration) => {
     setGeneratedCode(generation.generatedApp.code);
     setPrompt(generation.generatedApp.prompt);
@@ -574,20 +730,30 @@ export default function Home() {
                 </button>
                 <button
                   type="button"
-                  onClick={refinePrompt}
+                  onClick={() => refinePrompt()}
                   disabled={loading || !prompt}
                   className="group rounded-lg p-2 transition-all duration-200 hover:bg-white/30 disabled:opacity-50"
                   title="Refine Prompt"
                 >
                   <Wand2 className="h-5 w-5 text-emerald-300 group-hover:text-emerald-200" />
                 </button>
+                <PromptTemplatePicker
+                  currentPrompt={prompt}
+                  disabled={loading}
+                  onUse={setPrompt}
+                  onRefine={(filled) => {
+                    // Keep the filled template if refining fails
+                    setPrompt(filled);
+                    refinePrompt(filled);
+                  }}
+                />
                 <button
                   type="submit"
-                  disabled={loading || !prompt}
+                  disabled={loading || !prompt || (compareMode && compareModels.length < 2)}
                   className="group rounded-lg p-2 transition-all duration-200 hover:bg-white/30 disabled:opacity-50"
-                  title="Generate Code"
+                  title={compareMode ? "Compare Models" : "Generate Code"}
                 >
-                  {status === "creating" ? (
+                  {status === "creating" || status === "comparing" ? (
                     <LoadingDots color="#6EE7B7" style="large" />
                   ) : (
                     <ChevronRight className="h-5 w-5 text-blue-500 group-hover:text-cyan-200" />
@@ -597,6 +763,12 @@ export default function Home() {
             </div>
           </div>
 
+          {budgetError && (
+            <p className="mt-3 text-center text-sm font-medium text-red-200">
+              {budgetError}
+            </p>
+          )}
+
           <div className="mt-6 flex flex-col justify-center gap-4 sm:flex-row sm:items-center sm:gap-8">
             <div className="flex items-center justify-between gap-3 sm:justify-center">
               <div className="flex items-center gap-2">
@@ -665,9 +837,45 @@ export default function Home() {
                 >
                   <Settings2 className="h-5 w-5 text-white" />
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setCompareMode(!compareMode)}
+                  className={`group rounded-lg p-2 transition-all duration-200 hover:bg-white/30 disabled:opacity-50 ${
+                    compareMode ? "bg-white/30" : ""
+                  }`}
+                  title="Compare Models"
+                >
+                  <Columns2 className="h-5 w-5 text-white" />
+                </button>
               </div>
             </div>
           </div>
+
+          {compareMode && (
+            <div className="mt-4 rounded-2xl border border-white/50 bg-white/40 p-4 text-left shadow-lg backdrop-blur-[2px]">
+              <p className="mb-2 text-sm font-medium text-gray-800">
+                Compare models (select at least two):
+              </p>
+              <div className="grid gap-x-4 gap-y-1 sm:grid-cols-2">
+                {groupedModels.flatMap(({ provider, models }) =>
+                  models.map((m) => (
+                    <label
+                      key={m.value}
+                      className="flex cursor-pointer items-center gap-2 text-sm text-gray-800"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={compareModels.includes(m.value)}
+                        onChange={() => toggleCompareModel(m.value)}
+                      />
+                      <span className="truncate">{m.label}</span>
+                      <span className="text-xs text-gray-500">{provider}</span>
+                    </label>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
         </fieldset>
       </form>
 
@@ -682,6 +890,17 @@ export default function Home() {
         </motion.div>
       )}
 
+      {comparisonRuns.length > 0 && status !== "created" && (
+        <div className="mt-8 w-full pb-[25vh]">
+          <ModelComparison
+            prompt={prompt}
+            runs={comparisonRuns}
+            settings={aiSettings}
+            onPick={handlePickWinner}
+          />
+        </div>
+      )}
+
       {status === "created" && (
         <>
           <hr className="border-1 mb-20 mt-8 h-px bg-gray-700 dark:bg-gray-700/30" />
@@ -699,13 +918,24 @@ export default function Home() {
             <div className="relative mt-8 w-full overflow-hidden">
               <div className="isolate flex flex-col gap-4">
                 <div className="mx-auto w-full">
-                  {runtimeError && (
+                  {currentGeneratedAppId && (
+                    <RevisionTimeline
+                      appId={currentGeneratedAppId}
+                      refreshKey={revisionsVersion}
+                      onRestore={(code) => {
+                        setGeneratedCode(code);
+                        setRuntimeError(null);
+                      }}
+                    />
+                  )}
+                  {runtimeError && currentGeneratedAppId && (
                     <ErrorFixer
                       error={runtimeError}
                       model={model}
+                      appId={currentGeneratedAppId}
                       code={generatedCode}
                       onFixComplete={(fixedCode) => {
-                        setGeneratedCode(fixedCode);
+                        commitRevision(fixedCode, `Fix: ${runtimeError}`);
                         setRuntimeError(null);
                       }}
                     />
@@ -716,6 +946,7 @@ export default function Home() {
                     model={model}
                     prompt={prompt}
                     settings={aiSettings}
+                    appId={currentGeneratedAppId}
                     onError={(error) => {
                       console.log("Runtime error detected:", error);
                       setRuntimeError(error);
@@ -736,7 +967,8 @@ export default function Home() {
         settings={aiSettings}
         prompt={prompt}
         generatedAppId={currentGeneratedAppId}
-        onUpdateCode={(newCode) => setGeneratedCode(newCode)}
+        enabledProviders={enabledProviders}
+        onUpdateCode={commitRevision}
         onAnalyticsUpdate={(analytics) => updateTokenAnalytics(analytics)}
       />
 
@@ -752,6 +984,8 @@ export default function Home() {
         provider={currentProvider}
         settings={aiSettings}
         onSettingsChange={setAISettings}
+        apiKeys={apiKeys}
+        onApiKeysChange={setApiKeys}
       />
     </main>
   );
@@ -0,0 +1,11 @@
+"use client";
+
+import ShareDashboard from "@/components/ShareDashboard";
+
+export default function SharesPage() {
+  return (
+    <main className="mt-6 flex w-full flex-1 flex-col items-center">
+      <ShareDashboard />
+    </main>
+  );
+}
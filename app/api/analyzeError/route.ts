@@ -0,0 +1,21 @@
+import { ErrorFixingChain } from "../../../utils/error-fix-chain";
+import { parseErrorFixRequest } from "@/lib/error-fix";
+
+// Returns the structured CodeError analysis without attempting a fix
+export async function POST(req: Request) {
+  try {
+    const request = await parseErrorFixRequest(req);
+    if (request instanceof Response) return request;
+
+    const chain = new ErrorFixingChain(request.options);
+    const analysis = await chain.analyzeError();
+    await request.recordUsage(chain.getUsage());
+    return Response.json(analysis);
+  } catch (error) {
+    console.error("Error analyzing code error:", error);
+    return new Response(
+      `Error analyzing code error: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import {
+  KEYED_PROVIDERS,
+  deleteApiKey,
+  listApiKeyStatus,
+  saveApiKey
+} from '@/lib/api-keys';
+
+const saveKeySchema = z.object({
+  provider: z.enum(KEYED_PROVIDERS),
+  apiKey: z.string().trim().min(8).max(512)
+});
+
+// Which providers the user can use and where their keys come from
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  try {
+    return NextResponse.json(await listApiKeyStatus(user.id));
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const result = saveKeySchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid API key', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveApiKey(user.id, result.data.provider, result.data.apiKey);
+    return NextResponse.json(await listApiKeyStatus(user.id));
+  } catch (error) {
+    console.error('Error saving API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to save API key' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const provider = z
+    .enum(KEYED_PROVIDERS)
+    .safeParse(new URL(req.url).searchParams.get('provider'));
+  if (!provider.success) {
+    return NextResponse.json(
+      { error: 'Missing or unknown provider' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await deleteApiKey(user.id, provider.data);
+    return NextResponse.json(await listApiKeyStatus(user.id));
+  } catch (error) {
+    console.error('Error deleting API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete API key' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
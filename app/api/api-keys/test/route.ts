@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { KEYED_PROVIDERS, resolveApiKey, testApiKey } from '@/lib/api-keys';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+
+const testKeySchema = z.object({
+  provider: z.enum(KEYED_PROVIDERS),
+  apiKey: z.string().trim().min(1).max(512).optional()
+});
+
+// Tests a key before saving it, or the key the user currently gets
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const retryAfter = await checkRateLimit(req, 'apiKeyTest', user.id);
+  if (retryAfter) return tooManyRequests(retryAfter);
+
+  const result = testKeySchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid API key', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  const { provider, apiKey } = result.data;
+
+  try {
+    const key = apiKey ?? (await resolveApiKey(provider, user.id))?.apiKey;
+    if (!key) {
+      return NextResponse.json({ valid: false, error: 'No API key configured' });
+    }
+
+    const error = await testApiKey(provider, key);
+    return NextResponse.json(error ? { valid: false, error } : { valid: true });
+  } catch (error) {
+    console.error('Error testing API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to test API key' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
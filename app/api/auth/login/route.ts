@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createSession, getAuthAdapter } from '@/lib/auth';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+
+const loginSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(1)
+});
+
+export async function POST(req: Request) {
+  const result = loginSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid credentials', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  // Per IP and per email, so guessing one account's password from many IPs
+  // is slowed down too
+  const retryAfter = await checkRateLimit(
+    req,
+    'auth',
+    `email:${result.data.email.toLowerCase()}`
+  );
+  if (retryAfter) return tooManyRequests(retryAfter);
+
+  try {
+    const user = await getAuthAdapter().authenticate(result.data);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Incorrect email or password' },
+        { status: 401 }
+      );
+    }
+
+    await createSession(user.id);
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { destroySession } from '@/lib/auth';
+
+export async function POST() {
+  try {
+    await destroySession();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
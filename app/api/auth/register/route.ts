@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createSession, findUserByEmail, getAuthAdapter } from '@/lib/auth';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+
+const registerSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(8).max(200),
+  name: z.string().trim().max(100).optional()
+});
+
+export async function POST(req: Request) {
+  const result = registerSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid registration', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  // Per IP and per email, to slow down sign-up spam
+  const retryAfter = await checkRateLimit(
+    req,
+    'auth',
+    `email:${result.data.email.toLowerCase()}`
+  );
+  if (retryAfter) return tooManyRequests(retryAfter);
+
+  const adapter = getAuthAdapter();
+  if (!adapter.register) {
+    return NextResponse.json(
+      { error: 'Accounts are managed outside this app' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    if (await findUserByEmail(result.data.email)) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const user = await adapter.register(result.data);
+    await createSession(user.id);
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Error registering user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create account' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+// The signed-in account, for the header and client-side redirects
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  return NextResponse.json(user);
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getBudgetStatus } from '@/lib/budget';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+export async function GET() {
+  if (!(await getCurrentUser())) return unauthorized();
+
+  try {
+    const status = await getBudgetStatus();
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Error fetching budget status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch budget status' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
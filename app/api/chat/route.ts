@@ -0,0 +1,138 @@
+import { z } from "zod";
+import {
+  getProviderForModel,
+  initializeOllamaModels,
+} from "../../../config/ai-providers";
+import {
+  createEventStream,
+  eventStreamHeaders,
+  getProviderAdapter,
+  primeEvents,
+  toGenerationOptions,
+} from "@/lib/providers";
+import { fitHistory, historyBudget, toProviderTurns } from "@/lib/providers/history";
+import { getCurrentUser } from "@/lib/auth";
+import { checkRateLimit, rateLimitMessage, retryAfterHeaders } from "@/lib/rate-limit";
+import { missingApiKeyMessage, resolveApiKey } from "@/lib/api-keys";
+
+const systemPrompt = `You are the NexaForge assistant, helping users refine React apps generated from their prompts.
+- Answer questions about the app, React, TypeScript and Tailwind clearly and concisely
+- When the user asks for a change, describe what you would change and why
+- Only include code snippets when they make the answer clearer
+- Keep a friendly, conversational tone`;
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Sign in required", { status: 401 });
+  }
+
+  const retryAfter = await checkRateLimit(req, "chat", user.id);
+  if (retryAfter) {
+    return new Response(rateLimitMessage(retryAfter), {
+      status: 429,
+      headers: retryAfterHeaders(retryAfter),
+    });
+  }
+
+  let json = await req.json().catch(() => null);
+  if (json === null) {
+    return new Response("Request body must be JSON", { status: 400 });
+  }
+  let result = z
+    .object({
+      model: z.string(),
+      messages: z
+        .array(
+          z.object({
+            role: z.enum(["user", "assistant"]),
+            content: z.string(),
+            thinking: z.boolean().optional(),
+            error: z.boolean().optional(),
+          }),
+        )
+        .min(1),
+      settings: z
+        .object({
+          temperature: z.number(),
+          maxTokens: z.number(),
+          topP: z.number(),
+          streamOutput: z.boolean(),
+          frequencyPenalty: z.number(),
+          presencePenalty: z.number(),
+        })
+        .optional(),
+    })
+    .safeParse(json);
+
+  if (result.error) {
+    return new Response(result.error.message, { status: 422 });
+  }
+
+  let { model, messages, settings } = result.data;
+
+  await initializeOllamaModels();
+
+  const modelEntry = getProviderForModel(model);
+  if (!modelEntry) {
+    return new Response("Invalid model selected", { status: 400 });
+  }
+
+  const key = await resolveApiKey(modelEntry.provider, user.id);
+  if (!key) {
+    return new Response(missingApiKeyMessage(modelEntry.provider), {
+      status: 400,
+    });
+  }
+
+  const adapter = getProviderAdapter(modelEntry.provider, key.apiKey);
+  if (!adapter) {
+    return new Response("Unsupported provider", { status: 400 });
+  }
+
+  const options = settings
+    ? toGenerationOptions(settings, modelEntry.provider, modelEntry.model)
+    : { temperature: 0.7 };
+
+  // Placeholder and failed messages from the chat UI are not conversation
+  const { system, turns } = toProviderTurns(
+    systemPrompt,
+    messages.filter((message) => !message.thinking && !message.error),
+  );
+  if (turns.length === 0) {
+    return new Response("At least one user message is required", {
+      status: 422,
+    });
+  }
+
+  const history = fitHistory(system, turns, {
+    budget: historyBudget(modelEntry.model.maxTokens, options.maxTokens ?? 4096),
+    countTokens: adapter.countTokens,
+  });
+
+  try {
+    const events = await primeEvents(
+      adapter.streamText({
+        model,
+        system,
+        messages: history.turns,
+        options,
+      }),
+    );
+
+    return new Response(
+      createEventStream(events, {
+        warnings: history.truncated
+          ? ["Earlier messages were condensed to fit the model's context window."]
+          : [],
+      }),
+      { headers: eventStreamHeaders },
+    );
+  } catch (error) {
+    console.error("Error processing chat message:", error);
+    return new Response(
+      `Error processing chat message: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { status: 500 },
+    );
+  }
+}
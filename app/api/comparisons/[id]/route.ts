@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getComparison, setComparisonWinner } from '@/lib/comparisons';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const winnerSchema = z.object({
+  winnerAppId: z.string()
+});
+
+export async function GET(req: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const comparison = await getComparison(id, user.id);
+    if (!comparison) {
+      return NextResponse.json({ error: 'Comparison not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error('Error fetching comparison:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch comparison' },
+      { status: 500 }
+    );
+  }
+}
+
+// Records which result was picked to continue refining
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+  const result = winnerSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid winner', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const updated = await setComparisonWinner(
+      id,
+      result.data.winnerAppId,
+      user.id
+    );
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'App is not part of this comparison' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id, winnerAppId: result.data.winnerAppId });
+  } catch (error) {
+    console.error('Error setting comparison winner:', error);
+    return NextResponse.json(
+      { error: 'Failed to set comparison winner' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
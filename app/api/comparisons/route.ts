@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createComparison } from '@/lib/comparisons';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+const comparisonSchema = z.object({
+  prompt: z.string().min(1)
+});
+
+// Starts a comparison run; the generations join it through generateCode
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const result = comparisonSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid comparison', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const comparison = await createComparison(result.data.prompt, user.id);
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error('Error creating comparison:', error);
+    return NextResponse.json(
+      { error: 'Failed to create comparison' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,21 @@
+import { ErrorFixingChain } from "../../../utils/error-fix-chain";
+import { parseErrorFixRequest } from "@/lib/error-fix";
+
+// Runs the verified fix loop and returns the final attempt with its history
+export async function POST(req: Request) {
+  try {
+    const request = await parseErrorFixRequest(req);
+    if (request instanceof Response) return request;
+
+    const chain = new ErrorFixingChain(request.options);
+    const result = await chain.fixWithVerification();
+    await request.recordUsage(chain.getUsage());
+    return Response.json(result);
+  } catch (error) {
+    console.error("Error completing error fix:", error);
+    return new Response(
+      `Error completing error fix: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { status: 500 }
+    );
+  }
+}
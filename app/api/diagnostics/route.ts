@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { getTypeDiagnostics } from '@/lib/diagnostics';
+import { verifyCode } from '@/utils/code-verification';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+import type { CodeDiagnosticsResponse } from '@/types';
+
+// Far beyond any generated project, but bounds the compiler's work
+const MAX_CODE_LENGTH = 200_000;
+
+const diagnosticsSchema = z.object({
+  code: z.string().min(1).max(MAX_CODE_LENGTH)
+});
+
+// Type-checks a generated project before it is handed to the preview
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const retryAfter = await checkRateLimit(req, 'diagnostics', user.id);
+  if (retryAfter) return tooManyRequests(retryAfter);
+
+  const result = diagnosticsSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return new Response(JSON.stringify({
+      error: 'Invalid request',
+      message: result.error.message
+    }), { status: 400 });
+  }
+
+  try {
+    const { code } = result.data;
+
+    // Syntax errors make the type errors noise, so report them on their own
+    const syntax = verifyCode(code);
+    const diagnostics = syntax.valid ? getTypeDiagnostics(code) : syntax.issues;
+
+    const response: CodeDiagnosticsResponse = {
+      valid: diagnostics.length === 0,
+      diagnostics
+    };
+    return Response.json(response);
+  } catch (error) {
+    console.error('Diagnostics error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), { status: 500 });
+  }
+}
+
+// The TypeScript compiler reads lib and React typings from disk
+export const runtime = 'nodejs';
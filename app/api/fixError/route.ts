@@ -0,0 +1,45 @@
+import { ErrorFixingChain } from "../../../utils/error-fix-chain";
+import {
+  createCodeFenceFilter,
+  createEventStream,
+  eventStreamHeaders,
+  fromTextChunks,
+} from "@/lib/providers";
+import { parseErrorFixRequest } from "@/lib/error-fix";
+
+// Streams a single fix as events, or runs the verified fix loop and returns
+// the resulting code as plain text when the client sends
+// "X-Stream-Response: false"
+export async function POST(req: Request) {
+  try {
+    const request = await parseErrorFixRequest(req);
+    if (request instanceof Response) return request;
+
+    const chain = new ErrorFixingChain(request.options);
+
+    if (req.headers.get("X-Stream-Response") === "false") {
+      const fixedCode = await chain.getFix();
+      await request.recordUsage(chain.getUsage());
+      return new Response(fixedCode, {
+        headers: { "Content-Type": "text/plain; charset=utf-8" },
+      });
+    }
+
+    return new Response(
+      createEventStream(fromTextChunks(chain.streamFix(request.options.analysis)), {
+        filter: createCodeFenceFilter(),
+        onFinish: async () => {
+          const analytics = await request.recordUsage(chain.getUsage());
+          return analytics ? [{ type: "analytics", analytics }] : [];
+        },
+      }),
+      { headers: eventStreamHeaders }
+    );
+  } catch (error) {
+    console.error("Error fixing code:", error);
+    return new Response(
+      `Error fixing code: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { status: 500 }
+    );
+  }
+}
@@ -1,56 +1,67 @@
 import dedent from "dedent";
 import { z } from "zod";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
 import {
-  AI_PROVIDERS,
+  getProviderForModel,
   initializeOllamaModels,
 } from "../../../config/ai-providers";
-import { createOllamaRequest, handleOllamaStream } from "../../../utils/ollama";
-
-// Initialize API clients
-const googleApiKey = process.env.GOOGLE_API_KEY || "";
-const genAI = new GoogleGenerativeAI(googleApiKey);
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "" });
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || "",
-});
-const deepseek = new OpenAI({
-  baseURL: "https://api.deepseek.com/",
-  apiKey: process.env.DEEPSEEK_API_KEY || "",
-});
-
-const grok = new OpenAI({
-  baseURL: "https://api.x.ai/v1",
-  apiKey: process.env.XAI_API_KEY || "",
-});
-
-// Helper function to clean code text
-function cleanCodeText(text: string): string {
-  // Remove code block markers if present
-  text = text.replace(/```[\w]*\n?/g, "");
-  // Ensure proper export syntax
-  if (!text.includes("export default")) {
-    text = text.replace(
-      /^(const|function|class)\s+(\w+)/,
-      "export default $1 $2",
-    );
-  }
-  return text.trim();
-}
+import {
+  createCodeFenceFilter,
+  createEventStream,
+  eventStreamHeaders,
+  getProviderAdapter,
+  primeEvents,
+  toGenerationOptions,
+  toUsage,
+} from "@/lib/providers";
+import { fitHistory, historyBudget, toProviderTurns } from "@/lib/providers/history";
+import { recordTokenUsage } from "@/lib/analytics";
+import { checkBudget } from "@/lib/budget";
+import { getCurrentUser } from "@/lib/auth";
+import { checkRateLimit, rateLimitMessage, retryAfterHeaders } from "@/lib/rate-limit";
+import { missingApiKeyMessage, resolveApiKey } from "@/lib/api-keys";
+import { getAppRole, getScope, hasRole } from "@/lib/workspaces";
+import prisma from "@/lib/prisma";
+import { ENTRY_FILE, parseProjectFiles } from "@/utils/project-files";
+import type { ProviderCompletion, StreamEvent } from "@/types";
 
 export async function POST(req: Request) {
-  let json = await req.json();
+  const startedAt = Date.now();
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Sign in required", { status: 401 });
+  }
+
+  const retryAfter = await checkRateLimit(req, "generateCode", user.id);
+  if (retryAfter) {
+    return new Response(rateLimitMessage(retryAfter), {
+      status: 429,
+      headers: retryAfterHeaders(retryAfter),
+    });
+  }
+
+  // Generating spends the workspace's budget, which viewers can't do
+  const scope = await getScope(user);
+  if (!hasRole(scope.role, "editor")) {
+    return new Response("Viewers can't generate in this workspace", {
+      status: 403,
+    });
+  }
+
+  let json = await req.json().catch(() => null);
+  if (json === null) {
+    return new Response("Request body must be JSON", { status: 400 });
+  }
   let result = z
     .object({
       model: z.string(),
-      messages: z.array(
-        z.object({
-          role: z.enum(["user", "assistant"]),
-          content: z.string(),
-        }),
-      ),
+      messages: z
+        .array(
+          z.object({
+            role: z.enum(["system", "user", "assistant"]),
+            content: z.string(),
+          }),
+        )
+        .min(1),
       settings: z
         .object({
           temperature: z.number(),
@@ -61,6 +72,9 @@ export async function POST(req: Request) {
           presencePenalty: z.number(),
         })
         .optional(),
+      generatedAppId: z.string().optional(),
+      saveApp: z.boolean().optional(),
+      comparisonId: z.string().optional(),
     })
     .safeParse(json);
 
@@ -68,235 +82,156 @@ export async function POST(req: Request) {
     return new Response(result.error.message, { status: 422 });
   }
 
-  let { model, messages, settings } = result.data;
-  let systemPrompt = getSystemPrompt();
-  const prompt = messages[0].content;
+  let { model, messages, settings, generatedAppId, saveApp, comparisonId } =
+    result.data;
 
   await initializeOllamaModels();
 
-  // Find the provider and model details
-  const providerEntry = Object.entries(AI_PROVIDERS).find(([_, models]) =>
-    models.some((m) => m.id === model),
-  );
-
-  if (!providerEntry) {
+  const modelEntry = getProviderForModel(model);
+  if (!modelEntry) {
     return new Response("Invalid model selected", { status: 400 });
   }
 
-  const [provider] = providerEntry;
+  // Access first, so budgets of apps the user can't edit stay private
+  if (
+    comparisonId &&
+    !(await prisma.comparison.findFirst({
+      where: { id: comparisonId, userId: user.id },
+    }))
+  ) {
+    return new Response("Comparison not found", { status: 404 });
+  }
 
-  try {
-    let stream: ReadableStream;
-    const encoder = new TextEncoder();
-    const decoder = new TextDecoder();
-
-    switch (provider) {
-      case "google":
-        const geminiModel = genAI.getGenerativeModel({ model });
-        const geminiStream = await geminiModel.generateContentStream(
-          prompt +
-            systemPrompt +
-            "\nPlease ONLY return code, NO backticks or language names. Don't start with ```typescript or ```javascript or ```tsx or ```.",
-        );
-        stream = new ReadableStream({
-          async start(controller) {
-            let buffer = "";
-            for await (const chunk of geminiStream.stream) {
-              buffer += chunk.text();
-              controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-              buffer = "";
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "openai":
-        const openaiStream = await openai.chat.completions.create({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: prompt },
-          ],
-          stream: true,
-          temperature: 0.7,
-        });
-        stream = new ReadableStream({
-          async start(controller) {
-            let buffer = "";
-            for await (const chunk of openaiStream) {
-              if (chunk.choices[0]?.delta?.content) {
-                buffer += chunk.choices[0].delta.content;
-                if (buffer.length > 100) {
-                  controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-                  buffer = "";
-                }
-              }
-            }
-            if (buffer) {
-              controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "anthropic":
-        const anthropicStream = await anthropic.messages.create({
-          model,
-          max_tokens: 4000,
-          messages: [{ role: "user", content: prompt + systemPrompt }],
-          stream: true,
-        });
-        stream = new ReadableStream({
-          async start(controller) {
-            let buffer = "";
-            for await (const chunk of anthropicStream) {
-              if (chunk.type === "content_block_delta" && chunk.delta?.text) {
-                buffer += chunk.delta.text;
-                if (buffer.length > 100) {
-                  controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-                  buffer = "";
-                }
-              }
-            }
-            if (buffer) {
-              controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "deepseek":
-        const response = await deepseek.chat.completions.create({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: prompt },
-          ],
-          stream: true,
-          temperature: 0.0,
-        });
-
-        stream = new ReadableStream({
-          async start(controller) {
-            let buffer = "";
-            let lastEnqueueTime = Date.now();
-
-            try {
-              for await (const chunk of response) {
-                if (chunk.choices[0]?.delta?.content) {
-                  buffer += chunk.choices[0].delta.content;
-
-                  const now = Date.now();
-                  if (now - lastEnqueueTime >= 100 && buffer.length > 0) {
-                    controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-                    buffer = "";
-                    lastEnqueueTime = now;
-                  }
-                }
-              }
-
-              if (buffer) {
-                controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-              }
-
-              controller.close();
-            } catch (error) {
-              console.error("DeepSeek streaming error:", error);
-              controller.error(error);
-            }
-          },
-        });
-        break;
-
-      case "grok":
-        const grokResponse = await grok.chat.completions.create({
+  if (generatedAppId) {
+    const appRole = await getAppRole(generatedAppId, user.id);
+    if (!appRole) {
+      return new Response("App not found", { status: 404 });
+    }
+    if (!hasRole(appRole, "editor")) {
+      return new Response("Viewers can't change this app", { status: 403 });
+    }
+  }
+
+  const key = await resolveApiKey(modelEntry.provider, user.id);
+  if (!key) {
+    return new Response(missingApiKeyMessage(modelEntry.provider), {
+      status: 400,
+    });
+  }
+
+  const adapter = getProviderAdapter(modelEntry.provider, key.apiKey);
+  if (!adapter) {
+    return new Response("Unsupported provider", { status: 400 });
+  }
+
+  // Budgets cap the server's keys; users' own keys are billed to them
+  const budgetError =
+    key.source === "server"
+      ? await checkBudget(modelEntry.model, generatedAppId)
+      : null;
+  if (budgetError) {
+    return new Response(budgetError, { status: 402 });
+  }
+
+  const options = settings
+    ? toGenerationOptions(settings, modelEntry.provider, modelEntry.model)
+    : { temperature: 0.7 };
+
+  const { system, turns } = toProviderTurns(getSystemPrompt(), messages);
+  if (turns.length === 0) {
+    return new Response("At least one user message is required", {
+      status: 422,
+    });
+  }
+
+  // Leave room for the completion when fitting the history into the context
+  const history = fitHistory(system, turns, {
+    budget: historyBudget(modelEntry.model.maxTokens, options.maxTokens ?? 4096),
+    countTokens: adapter.countTokens,
+  });
+  const warnings = history.truncated
+    ? ["Earlier messages were condensed to fit the model's context window."]
+    : [];
+
+  // Saves the app when asked and records the provider's usage against it,
+  // falling back to a tokenizer estimate when the provider reported none
+  const persistResult = async ({
+    text,
+    usage,
+  }: ProviderCompletion): Promise<StreamEvent[]> => {
+    if (!generatedAppId && !saveApp) return [];
+
+    const events: StreamEvent[] = [];
+    let appId = generatedAppId;
+
+    if (!appId) {
+      const prompt = messages.filter((m) => m.role === "user").pop()!.content;
+      const app = await prisma.generatedApp.create({
+        data: {
+          userId: user.id,
           model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: prompt },
-          ],
-          stream: true,
-          temperature: 0.7,
-        });
-
-        stream = new ReadableStream({
-          async start(controller) {
-            let buffer = "";
-            let lastEnqueueTime = Date.now();
-
-            try {
-              for await (const chunk of grokResponse) {
-                if (chunk.choices[0]?.delta?.content) {
-                  buffer += chunk.choices[0].delta.content;
-
-                  const now = Date.now();
-                  if (now - lastEnqueueTime >= 100 && buffer.length > 0) {
-                    controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-                    buffer = "";
-                    lastEnqueueTime = now;
-                  }
-                }
-              }
-
-              if (buffer) {
-                controller.enqueue(encoder.encode(cleanCodeText(buffer)));
-              }
-
-              controller.close();
-            } catch (error) {
-              console.error("DeepSeek streaming error:", error);
-              controller.error(error);
-            }
-          },
-        });
-        break;
-
-      case "ollama":
-        const ollamaResponse = await fetch(
-          "http://localhost:11434/api/generate",
-          createOllamaRequest(
-            model,
-            prompt +
-              systemPrompt +
-              "\nPlease ONLY return code, NO backticks or language names.",
-            settings,
+          prompt,
+          code: text,
+          comparisonId,
+          revisions: { create: { model, prompt, code: text } },
+        },
+      });
+      appId = app.id;
+      events.push({ type: "saved", appId });
+    }
+
+    try {
+      const promptText = [system, ...history.turns.map((t) => t.content)];
+      const analytics = await recordTokenUsage({
+        appId,
+        userId: user.id,
+        workspaceId: scope.workspaceId,
+        provider: modelEntry.provider,
+        model: modelEntry.model,
+        usage:
+          usage ??
+          toUsage(
+            adapter.countTokens(promptText.join("\n")),
+            adapter.countTokens(text),
           ),
-        );
-
-        if (!ollamaResponse.ok) {
-          const errorData = await ollamaResponse.text();
-          console.error("Ollama error:", errorData);
-          throw new Error(`Ollama API request failed: ${errorData}`);
-        }
-
-        stream = new ReadableStream({
-          async start(controller) {
-            await handleOllamaStream(
-              ollamaResponse,
-              controller,
-              encoder,
-              cleanCodeText,
-            );
-            controller.close();
-          },
-        });
-        break;
-
-      default:
-        return new Response("Unsupported provider", { status: 400 });
+        isEstimated: !usage,
+        keySource: key.source,
+        latencyMs: Date.now() - startedAt,
+      });
+      events.push({ type: "analytics", analytics });
+    } catch (error) {
+      console.error("Error recording token usage:", error);
+      events.push({
+        type: "warning",
+        message: "Token usage could not be recorded.",
+      });
     }
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-        "Transfer-Encoding": "chunked",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    });
+    return events;
+  };
+
+  try {
+    const events = await primeEvents(
+      adapter.streamText({
+        model,
+        system,
+        messages: history.turns,
+        options,
+      }),
+    );
+
+    return new Response(
+      createEventStream(events, {
+        filter: createCodeFenceFilter(),
+        warnings,
+        finalWarnings: (code) =>
+          parseProjectFiles(code)[ENTRY_FILE]?.includes("export default")
+            ? []
+            : [`The generated ${ENTRY_FILE} has no default export.`],
+        onFinish: persistResult,
+      }),
+      { headers: eventStreamHeaders },
+    );
   } catch (error) {
     console.error("Error generating code:", error);
     return new Response(
@@ -310,7 +245,8 @@ function getSystemPrompt() {
   let systemPrompt = `You are an expert frontend React engineer who is also a great UI/UX designer. Follow the instructions carefully, I will tip you $1 million if you do a good job:
 
 - Think carefully step by step about building the most user-friendly and beautiful version of what was requested
-- Create a React component with zero required props that runs completely standalone
+- Create a React app whose root component takes zero required props and runs completely standalone
+- Split larger apps into focused files: components, hooks, utils and styles
 - Make the component fully interactive with proper state management and event handlers
 - Add engaging animations and transitions where appropriate
 - Include proper loading states and error handling
@@ -323,14 +259,22 @@ Technical Requirements:
 - Use only standard Tailwind classes for styling - NO ARBITRARY VALUES like h-[600px]
 - Use proper margin/padding classes for consistent spacing
 - Use a beautiful and consistent color palette
-- Always include export default for the main component
+- Always include export default for the root component in /App.tsx
+- Import project files with relative paths, e.g. import { TodoList } from "./components/TodoList"
 - Handle all edge cases and loading states
 
 Formatting Requirements:
-- Start directly with imports, no explanations or comments
+- Start every file with a line of the form // FILE: /path, for example:
+  // FILE: /App.tsx
+  // FILE: /components/TodoList.tsx
+  // FILE: /hooks/useTodos.ts
+  // FILE: /styles/todos.css
+- Start directly with the first // FILE: line, no explanations or comments
+- When changing an existing app, return every file of the project, including unchanged ones
 - No markdown code blocks or backticks
 - No typescript/javascript/tsx tags
 - Just clean, working React code
+- Please ONLY return code, NO backticks or language names
 
 Available Libraries:
 - React core library only
@@ -347,4 +291,5 @@ ENSURE THE COMPONENT IS BEAUTIFUL AND FULLY FUNCTIONAL`;
   return dedent(systemPrompt);
 }
 
-export const runtime = "edge";
+// Prisma needs the Node.js runtime to record analytics
+export const dynamic = "force-dynamic";
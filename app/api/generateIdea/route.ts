@@ -1,29 +1,18 @@
 import { z } from "zod";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
 import {
   AI_PROVIDERS,
+  getProviderForModel,
   initializeOllamaModels,
 } from "../../../config/ai-providers";
-import { createOllamaRequest, handleOllamaStream } from "../../../utils/ollama";
-
-// Initialize API clients
-const googleApiKey = process.env.GOOGLE_API_KEY || "";
-const genAI = new GoogleGenerativeAI(googleApiKey);
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "" });
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || "",
-});
-const deepseek = new OpenAI({
-  baseURL: "https://api.deepseek.com/v1",
-  apiKey: process.env.DEEPSEEK_API_KEY || "",
-});
-
-const grok = new OpenAI({
-  baseURL: "https://api.x.ai/v1",
-  apiKey: process.env.XAI_API_KEY || "",
-});
+import {
+  createEventStream,
+  eventStreamHeaders,
+  getProviderAdapter,
+  primeEvents,
+} from "@/lib/providers";
+import { getCurrentUser } from "@/lib/auth";
+import { checkRateLimit, rateLimitMessage, retryAfterHeaders } from "@/lib/rate-limit";
+import { missingApiKeyMessage, resolveApiKey } from "@/lib/api-keys";
 
 const systemPrompt = `Generate a creative app idea in the following format EXACTLY:
 "Build me a [type] app that [brief description of main functionality]"
@@ -41,7 +30,23 @@ The app idea should be:
 Return ONLY the formatted prompt, nothing else. Always start with "Build me a" and follow the format above.`;
 
 export async function POST(req: Request) {
-  let json = await req.json();
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Sign in required", { status: 401 });
+  }
+
+  const retryAfter = await checkRateLimit(req, "generateIdea", user.id);
+  if (retryAfter) {
+    return new Response(rateLimitMessage(retryAfter), {
+      status: 429,
+      headers: retryAfterHeaders(retryAfter),
+    });
+  }
+
+  let json = await req.json().catch(() => null);
+  if (json === null) {
+    return new Response("Request body must be JSON", { status: 400 });
+  }
   console.log("=== Route Debug ===");
   console.log("Received model:", json.model);
   console.log("AI_PROVIDERS state:", {
@@ -85,168 +90,35 @@ export async function POST(req: Request) {
     AI_PROVIDERS.ollama.some((m) => m.id === model),
   );
 
-  const providerEntry = Object.entries(AI_PROVIDERS).find(([_, models]) =>
-    models.some((m) => m.id === model),
-  );
-
-  if (!providerEntry) {
+  const modelEntry = getProviderForModel(model);
+  if (!modelEntry) {
     return new Response("Invalid model selected", { status: 400 });
   }
 
-  const [provider] = providerEntry;
-
-  try {
-    let stream: ReadableStream;
-    const encoder = new TextEncoder();
-
-    switch (provider) {
-      case "google":
-        const geminiModel = genAI.getGenerativeModel({ model });
-        const geminiStream = await geminiModel.generateContentStream([
-          { text: systemPrompt },
-          { text: ideaPrompt },
-        ]);
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of geminiStream.stream) {
-              controller.enqueue(encoder.encode(chunk.text()));
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "openai":
-        const openaiStream = await openai.chat.completions.create({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: ideaPrompt },
-          ],
-          stream: true,
-          temperature: settings?.temperature ?? 0.9,
-        });
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of openaiStream) {
-              if (chunk.choices[0]?.delta?.content) {
-                controller.enqueue(
-                  encoder.encode(chunk.choices[0].delta.content),
-                );
-              }
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "anthropic":
-        const anthropicStream = await anthropic.messages.create({
-          model,
-          max_tokens: 1000,
-          messages: [
-            { role: "user", content: systemPrompt + "\n\n" + ideaPrompt },
-          ],
-          stream: true,
-        });
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of anthropicStream) {
-              if (chunk.type === "content_block_delta" && 'text' in chunk.delta) {
-                if ('text' in chunk.delta) {
-                  controller.enqueue(encoder.encode(chunk.delta.text));
-                }
-              }
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "deepseek":
-        const deepseekStream = await deepseek.chat.completions.create({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: ideaPrompt },
-          ],
-          stream: true,
-          temperature: 0.9,
-        });
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of deepseekStream) {
-              if (chunk.choices[0]?.delta?.content) {
-                controller.enqueue(
-                  encoder.encode(chunk.choices[0].delta.content),
-                );
-              }
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "grok":
-        const grokStream = await grok.chat.completions.create({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: ideaPrompt },
-          ],
-          stream: true,
-          temperature: 0.9,
-        });
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of grokStream) {
-              if (chunk.choices[0]?.delta?.content) {
-                controller.enqueue(
-                  encoder.encode(chunk.choices[0].delta.content),
-                );
-              }
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "ollama":
-        console.log("Creating Ollama request with model:", model);
-        const ollamaResponse = await fetch(
-          "http://localhost:11434/api/generate",
-          createOllamaRequest(
-            model,
-            systemPrompt + "\n\n" + ideaPrompt,
-            settings,
-          ),
-        );
-
-        if (!ollamaResponse.ok) {
-          const errorData = await ollamaResponse.text();
-          console.error("Ollama error response:", errorData);
-          throw new Error(`Ollama API request failed: ${errorData}`);
-        }
+  const key = await resolveApiKey(modelEntry.provider, user.id);
+  if (!key) {
+    return new Response(missingApiKeyMessage(modelEntry.provider), {
+      status: 400,
+    });
+  }
 
-        stream = new ReadableStream({
-          async start(controller) {
-            await handleOllamaStream(ollamaResponse, controller, encoder);
-            controller.close();
-          },
-        });
-        break;
+  const adapter = getProviderAdapter(modelEntry.provider, key.apiKey);
+  if (!adapter) {
+    return new Response("Unsupported provider", { status: 400 });
+  }
 
-      default:
-        return new Response("Unsupported provider", { status: 400 });
-    }
+  try {
+    const events = await primeEvents(
+      adapter.streamText({
+        model,
+        system: systemPrompt,
+        messages: [{ role: "user", content: ideaPrompt }],
+        options: { temperature: settings?.temperature ?? 0.9, maxTokens: 1000 },
+      }),
+    );
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-        "Transfer-Encoding": "chunked",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
+    return new Response(createEventStream(events), {
+      headers: eventStreamHeaders,
     });
   } catch (error) {
     console.error("Error generating idea:", error);
@@ -256,5 +128,3 @@ export async function POST(req: Request) {
     );
   }
 }
-
-export const runtime = "edge";
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createRevision, listRevisions, restoreRevision } from '@/lib/revisions';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getAppRole, hasRole } from '@/lib/workspaces';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Either a new version of the code or an earlier revision to restore
+const revisionSchema = z.union([
+  z.object({
+    code: z.string().min(1),
+    prompt: z.string(),
+    model: z.string()
+  }),
+  z.object({
+    restoreId: z.string()
+  })
+]);
+
+export async function GET(req: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  try {
+    const { id } = await params;
+    // Apps the user can't see are reported as missing rather than forbidden
+    if (!(await getAppRole(id, user.id))) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const revisions = await listRevisions(id);
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch revisions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+  const result = revisionSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid revision', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const appRole = await getAppRole(id, user.id);
+    if (!appRole) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+    if (!hasRole(appRole, 'editor')) return forbidden('editor');
+
+    const body = result.data;
+    const revision = 'restoreId' in body
+      ? await restoreRevision(id, body.restoreId)
+      : await createRevision(id, body);
+
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(revision);
+  } catch (error) {
+    console.error('Error saving revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to save revision' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
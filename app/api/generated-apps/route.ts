@@ -1,15 +1,23 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
 
 export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
   try {
     const { model, prompt, code } = await req.json();
 
     const generatedApp = await prisma.generatedApp.create({
       data: {
+        userId: user.id,
         model,
         prompt,
         code,
+        revisions: {
+          create: { model, prompt, code },
+        },
       },
     });
 
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { getSharePreview } from '@/lib/shares';
+import {
+  EMBED_WIDTH,
+  clampEmbedHeight,
+  embedHtml,
+  embedUrl,
+  parseEmbedOptions
+} from '@/lib/embed';
+
+// Share and embed links both resolve to the share's embed
+const SHARE_PATH = /^\/(?:share|embed)\/([^/]+)\/?$/;
+
+const dimension = (value: string | null) => {
+  const number = Number(value);
+  return value && number > 0 ? number : undefined;
+};
+
+/**
+ * oEmbed (https://oembed.com) for share links, so docs and chat tools that
+ * support it show the running app when a link is pasted. Only JSON is served.
+ */
+export async function GET(req: Request) {
+  const { searchParams, origin } = new URL(req.url);
+
+  if ((searchParams.get('format') ?? 'json') !== 'json') {
+    return NextResponse.json({ error: 'Only JSON is supported' }, { status: 501 });
+  }
+
+  let link: URL;
+  try {
+    link = new URL(searchParams.get('url') ?? '');
+  } catch {
+    return NextResponse.json({ error: 'Missing or invalid url' }, { status: 400 });
+  }
+
+  const id = link.pathname.match(SHARE_PATH)?.[1];
+  if (!id) {
+    return NextResponse.json({ error: 'Not a share link' }, { status: 404 });
+  }
+
+  try {
+    const preview = await getSharePreview(id);
+    if (!preview) {
+      return NextResponse.json({ error: 'Share not found or no longer available' }, { status: 404 });
+    }
+
+    // Embed links keep their options; consumers' limits shrink the frame
+    const options = parseEmbedOptions(Object.fromEntries(link.searchParams));
+    const maxWidth = dimension(searchParams.get('maxwidth'));
+    const maxHeight = dimension(searchParams.get('maxheight'));
+    const width = Math.min(EMBED_WIDTH, maxWidth ?? EMBED_WIDTH);
+    const height = maxHeight
+      ? clampEmbedHeight(Math.min(options.height, maxHeight))
+      : options.height;
+
+    const src = embedUrl(id, origin, { ...options, height });
+
+    return NextResponse.json({
+      version: '1.0',
+      type: 'rich',
+      provider_name: 'NexaForge',
+      provider_url: process.env.NEXT_PUBLIC_BASE_URL || origin,
+      title: preview.prompt ?? 'A protected app shared from NexaForge',
+      html: embedHtml(src, width, height),
+      width,
+      height,
+      cache_age: 3600
+    });
+  } catch (error) {
+    console.error('oEmbed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to build embed' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,34 +1,152 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
 import { ImageResponse } from "next/og";
+import { getShareCard, type ShareCard } from "@/lib/shares";
 import { domain } from "@/utils/domain";
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const TITLE_LENGTH = 90;
+
+const KEYWORD =
+  /^(import|export|default|from|const|let|function|return|if|else|interface|type|async|await|new)$/;
+// Strings, JSX tags, words and everything in between, in order
+const TOKEN = /("[^"]*"|'[^']*'|`[^`]*`|<\/?[A-Za-z][\w.]*|\w+|[^\w"'`<]+|.)/g;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 3)}...` : text;
+
+function tokenColor(token: string): string {
+  if (KEYWORD.test(token)) return "#ff79c6";
+  if (/^["'`]/.test(token)) return "#f1fa8c";
+  if (token.startsWith("<")) return "#8be9fd";
+  return "#f8f8f2";
+}
+
+const loadFont = (file: string) =>
+  readFile(join(process.cwd(), "public/Aeonik", file));
+
+function Badge({ children }: { children: string }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        padding: "6px 16px",
+        borderRadius: 999,
+        background: "rgba(59, 130, 246, 0.2)",
+        border: "1px solid rgba(96, 165, 250, 0.6)",
+        color: "#bfdbfe",
+        fontSize: 24,
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+function CodeExcerpt({ lines }: { lines: string[] }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        flexGrow: 1,
+        marginTop: 32,
+        padding: "20px 28px",
+        borderRadius: 16,
+        background: "#282a36",
+        fontFamily: "AeonikMono",
+        fontSize: 22,
+        lineHeight: 1.4,
+        overflow: "hidden",
+      }}
+    >
+      {lines.map((line, index) => (
+        <div key={index} style={{ display: "flex", whiteSpace: "pre" }}>
+          <span style={{ color: "#6272a4", width: 44 }}>{index + 1}</span>
+          {(line.match(TOKEN) ?? [" "]).map((token, i) => (
+            <span key={i} style={{ color: tokenColor(token) }}>
+              {token}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Card({ card }: { card: Pick<ShareCard, "title"> & Partial<ShareCard> }) {
+  const stats = [
+    card.model,
+    card.generations ? `${card.generations} generation${card.generations === 1 ? "" : "s"}` : null,
+    card.totalTokens ? `${new Intl.NumberFormat("en-US").format(card.totalTokens)} tokens` : null,
+  ].filter((stat): stat is string => !!stat);
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        width: "100%",
+        height: "100%",
+        padding: "48px 56px",
+        background: "linear-gradient(135deg, #0f172a 0%, #1e293b 60%, #0c4a6e 100%)",
+        color: "white",
+        fontFamily: "Aeonik",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 26 }}>
+        <div style={{ display: "flex" }}>
+          <span style={{ color: "#3b82f6" }}>Nexa</span>Forge
+        </div>
+        <span style={{ color: "#94a3b8" }}>{new URL(domain).host}</span>
+      </div>
+      <div style={{ display: "flex", marginTop: 24, fontSize: 52, lineHeight: 1.15 }}>
+        {truncate(card.title, TITLE_LENGTH)}
+      </div>
+      {stats.length > 0 && (
+        <div style={{ display: "flex", gap: 12, marginTop: 24 }}>
+          {stats.map((stat) => (
+            <Badge key={stat}>{stat}</Badge>
+          ))}
+        </div>
+      )}
+      {card.codeExcerpt && card.codeExcerpt.length > 0 && (
+        <CodeExcerpt lines={card.codeExcerpt} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Open Graph card for a share (`?share=<id>`): the app's title, model and
+ * token usage over the top of its code. `?prompt=` renders a card with just
+ * that text.
+ */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
+  const shareId = searchParams.get("share");
   const prompt = searchParams.get("prompt");
 
-  return new ImageResponse(
-    (
-      <div
-        style={{
-          backgroundImage: `url(${domain}/dynamic-og.png)`,
-          backgroundSize: "1200px 630px",
-          backgroundRepeat: "no-repeat",
-          backgroundPosition: "center center",
-          fontSize: 50,
-          color: "black",
-          background: "white",
-          width: "100%",
-          height: "100%",
-          padding: "50px 200px",
-          textAlign: "center",
-          justifyContent: "center",
-          alignItems: "center",
-        }}
-      >
-        {prompt && prompt.length > 100 ? prompt.slice(0, 97) + "..." : prompt}
-      </div>
-    ),
-    {
-      width: 1200,
-      height: 630,
-    },
-  );
+  const card = shareId ? await getShareCard(shareId) : null;
+  if (shareId && !card) {
+    return new Response("Share not found or no longer available", { status: 404 });
+  }
+
+  const [regular, mono] = await Promise.all([
+    loadFont("Aeonik-Regular.ttf"),
+    loadFont("AeonikMono-Regular.otf"),
+  ]);
+
+  return new ImageResponse(<Card card={card ?? { title: prompt || "An app generated on NexaForge" }} />, {
+    width: WIDTH,
+    height: HEIGHT,
+    fonts: [
+      { name: "Aeonik", data: regular, style: "normal", weight: 400 },
+      { name: "AeonikMono", data: mono, style: "normal", weight: 400 },
+    ],
+  });
 }
+
+// Prisma and the font files need the Node.js runtime
+export const dynamic = "force-dynamic";
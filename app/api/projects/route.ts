@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { createProject, deleteProject, listProjects } from '@/lib/saved-generations';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getScope, hasRole, scopeWhere } from '@/lib/workspaces';
+
+const projectSchema = z.object({
+  name: z.string().trim().min(1).max(64)
+});
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  try {
+    const projects = await listProjects(await getScope(user));
+    return NextResponse.json(projects);
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch projects' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const result = projectSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid project', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    const existing = await prisma.project.findFirst({
+      where: { name: result.data.name, ...scopeWhere(scope) },
+      select: { id: true }
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A project with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const project = await createProject(result.data.name, scope);
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return NextResponse.json(
+      { error: 'Failed to create project' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Missing project ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    if (!(await deleteProject(id, scope))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
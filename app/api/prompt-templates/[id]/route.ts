@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  deletePromptTemplate,
+  promptTemplateNameTaken,
+  updatePromptTemplate
+} from '@/lib/prompt-templates';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getScope, hasRole } from '@/lib/workspaces';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const updateTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(64).optional(),
+  description: z.string().trim().max(200).optional(),
+  body: z.string().trim().min(1).max(4000).optional()
+});
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const result = updateTemplateSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid prompt template', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    if (result.data.name && (await promptTemplateNameTaken(result.data.name, scope, id))) {
+      return NextResponse.json(
+        { error: 'A template with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const template = await updatePromptTemplate(id, result.data, scope);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Error updating prompt template:', error);
+    return NextResponse.json(
+      { error: 'Failed to update prompt template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    if (!(await deletePromptTemplate(id, scope))) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting prompt template:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete prompt template' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
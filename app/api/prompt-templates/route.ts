@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  createPromptTemplate,
+  listPromptTemplates,
+  promptTemplateNameTaken
+} from '@/lib/prompt-templates';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getScope, hasRole } from '@/lib/workspaces';
+
+const promptTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  description: z.string().trim().max(200).optional(),
+  body: z.string().trim().min(1).max(4000)
+});
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  try {
+    const templates = await listPromptTemplates(await getScope(user));
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error('Error fetching prompt templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const result = promptTemplateSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid prompt template', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    if (await promptTemplateNameTaken(result.data.name, scope)) {
+      return NextResponse.json(
+        { error: 'A template with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const template = await createPromptTemplate(result.data, scope);
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Error creating prompt template:', error);
+    return NextResponse.json(
+      { error: 'Failed to create prompt template' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,29 +1,18 @@
 import { z } from "zod";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
 import {
   AI_PROVIDERS,
+  getProviderForModel,
   initializeOllamaModels,
 } from "../../../config/ai-providers";
-import { createOllamaRequest, handleOllamaStream } from "../../../utils/ollama";
-
-// Initialize API clients
-const googleApiKey = process.env.GOOGLE_API_KEY || "";
-const genAI = new GoogleGenerativeAI(googleApiKey);
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "" });
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || "",
-});
-const deepseek = new OpenAI({
-  baseURL: "https://api.deepseek.com/v1",
-  apiKey: process.env.DEEPSEEK_API_KEY || "",
-});
-
-const grok = new OpenAI({
-  baseURL: "https://api.x.ai/v1",
-  apiKey: process.env.XAI_API_KEY || "",
-});
+import {
+  createEventStream,
+  eventStreamHeaders,
+  getProviderAdapter,
+  primeEvents,
+} from "@/lib/providers";
+import { getCurrentUser } from "@/lib/auth";
+import { checkRateLimit, rateLimitMessage, retryAfterHeaders } from "@/lib/rate-limit";
+import { missingApiKeyMessage, resolveApiKey } from "@/lib/api-keys";
 
 const systemPrompt = `Refine app development prompts by:
 - Defining a clear, focused app purpose
@@ -46,7 +35,23 @@ Return only the prompt without Refined all other texts and "". Clear prompt only
 DO NOT generate any code. Focus only on improving the prompt text to better describe the desired functionality and requirements`;
 
 export async function POST(req: Request) {
-  let json = await req.json();
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Sign in required", { status: 401 });
+  }
+
+  const retryAfter = await checkRateLimit(req, "refinePrompt", user.id);
+  if (retryAfter) {
+    return new Response(rateLimitMessage(retryAfter), {
+      status: 429,
+      headers: retryAfterHeaders(retryAfter),
+    });
+  }
+
+  let json = await req.json().catch(() => null);
+  if (json === null) {
+    return new Response("Request body must be JSON", { status: 400 });
+  }
   let result = z
     .object({
       model: z.string(),
@@ -75,167 +80,35 @@ export async function POST(req: Request) {
   );
 
   // Find provider based on model ID
-  const providerEntry = Object.entries(AI_PROVIDERS).find(([_, models]) =>
-    models.some((m) => m.id === model),
-  );
-
-  if (!providerEntry) {
+  const modelEntry = getProviderForModel(model);
+  if (!modelEntry) {
     return new Response("Invalid model selected", { status: 400 });
   }
 
-  const [provider] = providerEntry;
+  const key = await resolveApiKey(modelEntry.provider, user.id);
+  if (!key) {
+    return new Response(missingApiKeyMessage(modelEntry.provider), {
+      status: 400,
+    });
+  }
+
+  const adapter = getProviderAdapter(modelEntry.provider, key.apiKey);
+  if (!adapter) {
+    return new Response("Unsupported provider", { status: 400 });
+  }
 
   try {
-    let stream: ReadableStream;
-    const encoder = new TextEncoder();
-
-    switch (provider) {
-      case "google":
-        const geminiModel = genAI.getGenerativeModel({ model });
-        const geminiStream = await geminiModel.generateContentStream([
-          { text: systemPrompt },
-          { text: refinementPrompt },
-        ]);
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of geminiStream.stream) {
-              controller.enqueue(encoder.encode(chunk.text()));
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "openai":
-        const openaiStream = await openai.chat.completions.create({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: refinementPrompt },
-          ],
-          stream: true,
-          temperature: 0.7,
-        });
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of openaiStream) {
-              if (chunk.choices[0]?.delta?.content) {
-                controller.enqueue(
-                  encoder.encode(chunk.choices[0].delta.content),
-                );
-              }
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "anthropic":
-        const anthropicStream = await anthropic.messages.create({
-          model,
-          max_tokens: 1000,
-          messages: [
-            { role: "user", content: systemPrompt + "\n\n" + refinementPrompt },
-          ],
-          stream: true,
-        });
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of anthropicStream) {
-              if (chunk.type === "content_block_delta" && chunk.delta?.text) {
-                controller.enqueue(encoder.encode(chunk.delta.text));
-              }
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "deepseek":
-        const deepseekStream = await deepseek.chat.completions.create({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: refinementPrompt },
-          ],
-          stream: true,
-          temperature: 0.7,
-        });
-
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of deepseekStream) {
-              if (chunk.choices[0]?.delta?.content) {
-                controller.enqueue(
-                  encoder.encode(chunk.choices[0].delta.content),
-                );
-              }
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "grok":
-        const grokStream = await grok.chat.completions.create({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: refinementPrompt },
-          ],
-          stream: true,
-          temperature: 0.7,
-        });
-
-        stream = new ReadableStream({
-          async start(controller) {
-            for await (const chunk of grokStream) {
-              if (chunk.choices[0]?.delta?.content) {
-                controller.enqueue(
-                  encoder.encode(chunk.choices[0].delta.content),
-                );
-              }
-            }
-            controller.close();
-          },
-        });
-        break;
-
-      case "ollama":
-        const ollamaResponse = await fetch(
-          "http://localhost:11434/api/generate",
-          createOllamaRequest(model, systemPrompt + "\n\n" + refinementPrompt, {
-            temperature: 0.7,
-            topP: 1,
-            maxTokens: 1000,
-          }),
-        );
-
-        if (!ollamaResponse.ok) {
-          const errorData = await ollamaResponse.text();
-          console.error("Ollama error:", errorData);
-          throw new Error(`Ollama API request failed: ${errorData}`);
-        }
-
-        stream = new ReadableStream({
-          async start(controller) {
-            await handleOllamaStream(ollamaResponse, controller, encoder);
-            controller.close();
-          },
-        });
-        break;
-
-      default:
-        return new Response("Unsupported provider", { status: 400 });
-    }
-
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-        "Transfer-Encoding": "chunked",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
+    const events = await primeEvents(
+      adapter.streamText({
+        model,
+        system: systemPrompt,
+        messages: [{ role: "user", content: refinementPrompt }],
+        options: { temperature: 0.7, maxTokens: 1000 },
+      }),
+    );
+
+    return new Response(createEventStream(events), {
+      headers: eventStreamHeaders,
     });
   } catch (error) {
     console.error("Error refining prompt:", error);
@@ -245,5 +118,3 @@ export async function POST(req: Request) {
     );
   }
 }
-
-export const runtime = "edge";
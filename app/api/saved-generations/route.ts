@@ -1,25 +1,101 @@
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import prisma from '@/lib/prisma';
+import {
+  listSavedGenerations,
+  saveGeneration,
+  updateSavedGeneration
+} from '@/lib/saved-generations';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import {
+  forbidden,
+  getAppRole,
+  getScope,
+  hasRole,
+  scopeWhere,
+  type Scope
+} from '@/lib/workspaces';
+
+const tagsSchema = z.array(z.string().max(32)).max(20);
+
+const saveSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(''),
+  generatedAppId: z.string(),
+  projectId: z.string().nullish(),
+  tags: tagsSchema.optional()
+});
+
+const updateSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  projectId: z.string().nullable().optional(),
+  tags: tagsSchema.optional()
+});
+
+const querySchema = z.object({
+  search: z.string().trim().optional(),
+  projectId: z.string().optional(),
+  tag: z.string().optional(),
+  sort: z.enum(['createdAt', 'title', 'cost']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional()
+});
+
+async function projectExists(projectId: string | null | undefined, scope: Scope) {
+  if (!projectId) return true;
+
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, ...scopeWhere(scope) },
+    select: { id: true }
+  });
+  return project !== null;
+}
+
+function findSavedAppInScope(id: string, scope: Scope) {
+  return prisma.savedApp.findFirst({
+    where: { id, ...scopeWhere(scope) },
+    select: { id: true }
+  });
+}
 
 export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const result = saveSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid generation', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
   try {
-    const { title, description, generatedAppId } = await req.json();
-
-    const savedApp = await prisma.savedApp.create({
-      data: {
-        title,
-        description,
-        appId: generatedAppId,
-      },
-      include: {
-        generatedApp: {
-          include: {
-            analytics: true
-          }
-        }
-      }
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    if (!(await getAppRole(result.data.generatedAppId, user.id))) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+    if (!(await projectExists(result.data.projectId, scope))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // An app is saved at most once; later changes update that save
+    const existing = await prisma.savedApp.findUnique({
+      where: { appId: result.data.generatedAppId },
+      select: { id: true }
     });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'This app is already saved', id: existing.id },
+        { status: 409 }
+      );
+    }
 
+    const savedApp = await saveGeneration(result.data, scope);
     return NextResponse.json(savedApp);
   } catch (error) {
     console.error('Error saving generation:', error);
@@ -30,52 +106,27 @@ export async function POST(req: Request) {
   }
 }
 
+// Filtered, sorted and paginated, e.g.
+// GET /api/saved-generations?search=todo&tag=dashboard&sort=title&page=2
 export async function GET(req: Request) {
-  try {
-    const savedApps = await prisma.savedApp.findMany({
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        createdAt: true,
-        generatedApp: {
-          select: {
-            id: true,
-            code: true,
-            model: true,
-            prompt: true,
-            analytics: {
-              select: {
-                modelName: true,
-                provider: true,
-                promptTokens: true,
-                responseTokens: true,
-                totalTokens: true,
-                maxTokens: true,
-                utilizationPercentage: true
-              }
-            }
-          }
-        }
-      },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    });
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { searchParams } = new URL(req.url);
+  const result = querySchema.safeParse(
+    Object.fromEntries(searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid query', message: result.error.message },
+      { status: 400 }
+    );
+  }
 
-    // Transform the data to match the expected format
-    const transformedApps = savedApps.map(app => ({
-      id: app.generatedApp.id,
-      title: app.title,
-      description: app.description,
-      code: app.generatedApp.code,
-      model: app.generatedApp.model,
-      prompt: app.generatedApp.prompt,
-      createdAt: app.createdAt,
-      analytics: app.generatedApp.analytics
-    }));
-
-    return NextResponse.json(transformedApps);
+  try {
+    const savedApps = await listSavedGenerations(result.data, await getScope(user));
+    return NextResponse.json(savedApps);
   } catch (error) {
     console.error('Error fetching saved generations:', error);
     return NextResponse.json(
@@ -85,7 +136,53 @@ export async function GET(req: Request) {
   }
 }
 
+// Renames, moves between projects or retags a saved generation
+export async function PATCH(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Missing generation ID' },
+      { status: 400 }
+    );
+  }
+
+  const result = updateSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid update', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    if (!(await findSavedAppInScope(id, scope))) {
+      return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+    }
+    if (!(await projectExists(result.data.projectId, scope))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const updated = await updateSavedGeneration(id, result.data);
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating generation:', error);
+    return NextResponse.json(
+      { error: 'Failed to update generation' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
   try {
     const { searchParams } = new URL(req.url);
     const id = searchParams.get('id');
@@ -97,38 +194,17 @@ export async function DELETE(req: Request) {
       );
     }
 
-    await prisma.$transaction(async (tx) => {
-      const savedApp = await tx.savedApp.findUnique({
-        where: { id },
-        include: {
-          generatedApp: {
-            include: {
-              analytics: true
-            }
-          }
-        }
-      });
-
-      if (!savedApp) {
-        throw new Error('Saved app not found');
-      }
-
-      // Delete analytics first if it exists
-      if (savedApp.generatedApp.analytics) {
-        await tx.analytics.delete({
-          where: { appId: savedApp.generatedApp.id }
-        });
-      }
-
-      // Delete SavedApp
-      await tx.savedApp.delete({
-        where: { id }
-      });
-
-      // Delete GeneratedApp last
-      await tx.generatedApp.delete({
-        where: { id: savedApp.generatedApp.id }
-      });
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    if (!(await findSavedAppInScope(id, scope))) {
+      return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+    }
+
+    // The generated app and its analytics stay behind: they record spend
+    // that the daily and monthly budgets still have to count
+    await prisma.savedApp.delete({
+      where: { id }
     });
 
     return NextResponse.json({ success: true });
@@ -141,4 +217,4 @@ export async function DELETE(req: Request) {
   }
 }
 
-export const dynamic = 'force-dynamic';
\ No newline at end of file
+export const dynamic = 'force-dynamic';
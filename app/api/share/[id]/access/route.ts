@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { listShareAccess } from '@/lib/shares';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { getScope } from '@/lib/workspaces';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The share's access log, for whoever can see the share
+export async function GET(req: Request, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const accesses = await listShareAccess(id, await getScope(user));
+    if (!accesses) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(accesses);
+  } catch (error) {
+    console.error('Error fetching share access log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch access log' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
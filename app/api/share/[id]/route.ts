@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { describeClient, openShare, type OpenShareResult } from '@/lib/shares';
+import { checkRateLimit, retryAfterHeaders, tooManyRequests } from '@/lib/rate-limit';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const openShareSchema = z.object({
+  password: z.string().optional()
+});
+
+const failures: Record<
+  Exclude<OpenShareResult['status'], 'ok' | 'locked'>,
+  { error: string; status: number; requiresPassword?: boolean }
+> = {
+  not_found: { error: 'Share not found', status: 404 },
+  revoked: { error: 'Share link was revoked', status: 410 },
+  expired: { error: 'Share link has expired', status: 410 },
+  exhausted: { error: 'Maximum views reached', status: 410 },
+  password_required: { error: 'Password required', status: 401, requiresPassword: true },
+  invalid_password: { error: 'Invalid password', status: 401, requiresPassword: true }
+};
+
+// Anyone with the link can open a share, signed in or not. The password
+// travels in the body so it stays out of URLs and logs.
+export async function POST(req: Request, { params }: RouteContext) {
+  // Also slows down guessing share passwords
+  const retryAfter = await checkRateLimit(req, 'shareView');
+  if (retryAfter) return tooManyRequests(retryAfter);
+
+  const result = openShareSchema.safeParse(await req.json().catch(() => ({})));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid request', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const opened = await openShare(id, result.data.password, describeClient(req.headers));
+    if (opened.status === 'locked') {
+      return NextResponse.json(
+        {
+          error: `Too many wrong passwords, try again in ${opened.retryAfter} seconds`,
+          requiresPassword: true
+        },
+        { status: 429, headers: retryAfterHeaders(opened.retryAfter) }
+      );
+    }
+    if (opened.status !== 'ok') {
+      const { status, ...body } = failures[opened.status];
+      return NextResponse.json(body, { status });
+    }
+
+    return NextResponse.json(opened.share);
+  } catch (error) {
+    console.error('Share retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve share' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
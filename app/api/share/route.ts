@@ -1,152 +1,164 @@
-import { NextRequest, NextResponse } from 'next/server';
-import prisma from '@/lib/prisma';
-import { nanoid } from 'nanoid';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { encrypt, decrypt } from '../../../lib/encryption';
+import { createShare, listShares, revokeShare, updateShare } from '@/lib/shares';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getAppRole, getScope, hasRole } from '@/lib/workspaces';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
 
 const shareRequestSchema = z.object({
-  code: z.string(),
-  prompt: z.string(),
-  model: z.string(),
-  settings: z.record(z.any()),
-  password: z.string().optional(),
-  expiresIn: z.number().optional(),
-  allowedViews: z.number().optional(),
+  appId: z.string().min(1),
+  settings: z
+    .object({
+      temperature: z.number(),
+      maxTokens: z.number(),
+      topP: z.number(),
+      streamOutput: z.boolean(),
+      frequencyPenalty: z.number(),
+      presencePenalty: z.number()
+    })
+    .optional(),
+  password: z.string().min(1).optional(),
+  expiresIn: z.number().positive().optional(),
+  allowedViews: z.number().int().positive().optional(),
+  generateQR: z.boolean().optional()
 });
 
-export async function POST(req: NextRequest) {
+const updateShareSchema = z.object({
+  expiresIn: z.number().positive().nullable().optional(),
+  addViews: z.number().int().positive().optional()
+});
+
+// The shares of the current scope, optionally only those of one app
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
   try {
-    const data = await req.json();
-    const validated = shareRequestSchema.parse(data);
-    
-    const shareId = nanoid(10);
-    const expiresAt = validated.expiresIn 
-      ? new Date(Date.now() + validated.expiresIn * 3600000)
-      : null;
-
-    const shareData = {
-      code: validated.code,
-      prompt: validated.prompt,
-      model: validated.model,
-      settings: validated.settings,
-    };
-
-    // Encrypt data if password protected
-    const encryptedData = validated.password 
-      ? await encrypt(JSON.stringify(shareData), validated.password)
-      : null;
-
-    await prisma.sharedCode.create({
-      data: {
-        id: shareId,
-        content: encryptedData || JSON.stringify(shareData),
-        isEncrypted: !!validated.password,
-        expiresAt,
-        allowedViews: validated.allowedViews || null,
-        remainingViews: validated.allowedViews || null,
-        createdAt: new Date(),
-      },
-    });
-
-    // Generate QR Code if requested
-    const qrCode = data.generateQR 
-      ? await generateQRCode(`${process.env.NEXT_PUBLIC_BASE_URL}/share/${shareId}`)
-      : null;
-
-    return NextResponse.json({
-      id: shareId,
-      expiresAt,
-      qrCode,
-      isProtected: !!validated.password
-    });
+    const appId = new URL(req.url).searchParams.get('appId') ?? undefined;
+    const shares = await listShares(await getScope(user), appId);
+    return NextResponse.json(shares);
   } catch (error) {
-    console.error('Share error:', error);
+    console.error('Error fetching shares:', error);
     return NextResponse.json(
-      { error: 'Failed to create share link' },
+      { error: 'Failed to fetch shares' },
       { status: 500 }
     );
   }
 }
 
-export async function GET(req: NextRequest) {
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const retryAfter = await checkRateLimit(req, 'share', user.id);
+  if (retryAfter) return tooManyRequests(retryAfter);
+
+  const result = shareRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid share', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
   try {
-    const id = req.nextUrl.searchParams.get('id');
-    const password = req.nextUrl.searchParams.get('password');
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
 
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Share ID required' },
-        { status: 400 }
-      );
+    const appRole = await getAppRole(result.data.appId, user.id);
+    if (!appRole) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+    if (!hasRole(appRole, 'editor')) return forbidden('editor');
+
+    const share = await createShare(result.data, scope, new URL(req.url).origin);
+    if (!share) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
     }
 
-    const share = await prisma.sharedCode.findUnique({
-      where: { id }
-    });
+    return NextResponse.json(share);
+  } catch (error) {
+    console.error('Share error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
+
+// Extends or removes the expiry and tops up the views of a share
+export async function PATCH(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
 
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Missing share ID' },
+      { status: 400 }
+    );
+  }
+
+  const result = updateShareSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid share update', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
+
+    const share = await updateShare(id, result.data, scope);
     if (!share) {
       return NextResponse.json(
-        { error: 'Share not found' },
+        { error: 'Share not found or revoked' },
         { status: 404 }
       );
     }
 
-    // Check expiration
-    if (share.expiresAt && share.expiresAt < new Date()) {
-      return NextResponse.json(
-        { error: 'Share link has expired' },
-        { status: 410 }
-      );
-    }
+    return NextResponse.json(share);
+  } catch (error) {
+    console.error('Error updating share:', error);
+    return NextResponse.json(
+      { error: 'Failed to update share' },
+      { status: 500 }
+    );
+  }
+}
 
-    // Check remaining views
-    if (share.remainingViews !== null && share.remainingViews <= 0) {
-      return NextResponse.json(
-        { error: 'Maximum views reached' },
-        { status: 410 }
-      );
-    }
+// Revokes a share; the link stops working but the share stays listed
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
 
-    // Handle password protection
-    if (share.isEncrypted && !password) {
-      return NextResponse.json(
-        { error: 'Password required', requiresPassword: true },
-        { status: 401 }
-      );
-    }
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Missing share ID' },
+      { status: 400 }
+    );
+  }
 
-    let content = share.content;
-    if (share.isEncrypted && password) {
-      try {
-        content = await decrypt(share.content, password);
-      } catch (error) {
-        return NextResponse.json(
-          { error: 'Invalid password' },
-          { status: 401 }
-        );
-      }
-    }
+  try {
+    const scope = await getScope(user);
+    if (!hasRole(scope.role, 'editor')) return forbidden('editor');
 
-    // Update view count if needed
-    if (share.remainingViews !== null) {
-      await prisma.sharedCode.update({
-        where: { id },
-        data: { remainingViews: share.remainingViews - 1 }
-      });
+    if (!(await revokeShare(id, scope))) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
     }
 
-    return NextResponse.json({
-      content: JSON.parse(content),
-      expiresAt: share.expiresAt,
-      remainingViews: share.remainingViews,
-    });
+    return NextResponse.json({ success: true });
   } catch (error) {
-    console.error('Share retrieval error:', error);
+    console.error('Error revoking share:', error);
     return NextResponse.json(
-      { error: 'Failed to retrieve share' },
+      { error: 'Failed to revoke share' },
       { status: 500 }
     );
   }
 }
 
-export const runtime = 'edge';
\ No newline at end of file
+// Prisma and the session lookup need the Node.js runtime
+export const dynamic = 'force-dynamic';
@@ -1,182 +1,51 @@
-import { AI_PROVIDERS } from "../../../config/ai-providers";
-import { encode } from 'gpt-tokenizer';
-import prisma from '@/lib/prisma';
-
-function parseOllamaResponse(responseText: string) {
-  try {
-    // Split response into individual JSON objects
-    const jsonStrings = responseText.trim().split('\n');
-    const jsonObjects = jsonStrings
-      .filter(str => str.trim())
-      .map(str => JSON.parse(str));
-
-    // Get the last object with completion statistics
-    const statsObject = jsonObjects[jsonObjects.length - 1];
-    
-    if (statsObject && 'total_duration' in statsObject) {
-      return {
-        promptTokens: statsObject.prompt_eval_count || 0,
-        responseTokens: statsObject.eval_count || 0,
-        totalTokens: (statsObject.prompt_eval_count || 0) + (statsObject.eval_count || 0),
-        context: statsObject.context?.length || 0
-      };
-    }
-    return null;
-  } catch (error) {
-    console.error('Error parsing Ollama response:', error);
-    return null;
-  }
-}
-
-function getProviderFromModel(model: string): [string, any[]] | null {
-  // Special handling for Ollama models
-  if (model.includes(':') || model.startsWith('ollama/')) {
-    return ['ollama', AI_PROVIDERS.ollama];
+import { z } from 'zod';
+import { queryAnalytics } from '@/lib/analytics';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { getScope } from '@/lib/workspaces';
+
+// Usage is recorded by the routes that call the providers; this one only
+// reads it back
+const analyticsQuerySchema = z.object({
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  groupBy: z.enum(['model', 'provider', 'day']).optional(),
+  provider: z.string().optional(),
+  modelName: z.string().optional()
+});
+
+// History of recorded generations, e.g.
+// GET /api/tokenAnalytics?from=2025-01-01&to=2025-01-31&groupBy=model
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { searchParams } = new URL(req.url);
+  const result = analyticsQuerySchema.safeParse(
+    Object.fromEntries(searchParams.entries())
+  );
+
+  if (!result.success) {
+    return new Response(JSON.stringify({
+      error: 'Invalid query',
+      message: result.error.message
+    }), { status: 400 });
   }
 
-  // Check other providers
-  return Object.entries(AI_PROVIDERS).find(([_, models]) => 
-    models.some(m => m.id === model)
-  ) || null;
-}
-
-function estimateTokens(text: string, provider: string, ollamaResponse?: string) {
-  if (!text) return 0;
-  
-  switch (provider) {
-    case 'openai':
-    case 'deepseek':
-    case 'grok':
-      return encode(text).length;
-    case 'anthropic':
-      return Math.ceil(encode(text).length * 1.1);
-    case 'google':
-      return Math.ceil(text.length / 4);
-    case 'ollama': {
-      if (ollamaResponse) {
-        const stats = parseOllamaResponse(ollamaResponse);
-        if (stats) return stats.totalTokens;
-      }
-      // Fallback to rough estimation
-      return Math.ceil(text.length / 4);
-    }
-    default:
-      return 0;
+  const { from, to } = result.data;
+  if (from && to && from > to) {
+    return new Response(JSON.stringify({
+      error: 'Invalid query',
+      message: '"from" must not be after "to"'
+    }), { status: 400 });
   }
-}
 
-export async function POST(req: Request) {
   try {
-    const json = await req.json();
-    
-    if (!json?.model || !json?.generatedCode || !json?.prompt || !json?.generatedAppId) {
-      return new Response(JSON.stringify({
-        error: 'Missing required fields',
-        details: {
-          hasModel: !!json?.model,
-          hasCode: !!json?.generatedCode,
-          hasPrompt: !!json?.prompt,
-          hasAppId: !!json?.generatedAppId
-        }
-      }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-
-    const { model, generatedCode, prompt, generatedAppId, ollamaResponse } = json;
-
-    // Find provider using the new helper function
-    const providerInfo = getProviderFromModel(model);
-    
-    if (!providerInfo) {
-      return new Response(JSON.stringify({
-        error: 'Invalid model selected',
-        model: model
-      }), { status: 400 });
-    }
-
-    const [provider, models] = providerInfo;
-
-    // For Ollama, create a basic model info if not found
-    let modelInfo = models.find(m => m.id === model);
-    if (provider === 'ollama' && !modelInfo) {
-      modelInfo = {
-        id: model,
-        name: model.split('/').pop()?.split(':')[0] || model,
-        maxTokens: 4096 // Default max tokens for Ollama models
-      };
-    }
-
-    if (!modelInfo) {
-      return new Response(JSON.stringify({
-        error: 'Model not found',
-        model: model
-      }), { status: 404 });
-    }
-
-    // Calculate tokens based on provider
-    let promptTokens, responseTokens, totalTokens;
-
-    if (provider === 'ollama' && ollamaResponse) {
-      const stats = parseOllamaResponse(ollamaResponse);
-      if (stats) {
-        promptTokens = stats.promptTokens;
-        responseTokens = stats.responseTokens;
-        totalTokens = stats.totalTokens;
-      } else {
-        promptTokens = estimateTokens(prompt, provider);
-        responseTokens = estimateTokens(generatedCode, provider);
-        totalTokens = promptTokens + responseTokens;
-      }
-    } else {
-      promptTokens = estimateTokens(prompt, provider);
-      responseTokens = estimateTokens(generatedCode, provider);
-      totalTokens = promptTokens + responseTokens;
-    }
-
-    const utilizationPercentage = parseFloat(((totalTokens / modelInfo.maxTokens) * 100).toFixed(2));
-
-    // Create or update analytics
-    const analytics = await prisma.analytics.upsert({
-      where: {
-        appId: generatedAppId,
-      },
-      update: {
-        modelName: modelInfo.name,
-        provider,
-        promptTokens,
-        responseTokens,
-        totalTokens,
-        maxTokens: modelInfo.maxTokens,
-        utilizationPercentage
-      },
-      create: {
-        appId: generatedAppId,
-        modelName: modelInfo.name,
-        provider,
-        promptTokens,
-        responseTokens,
-        totalTokens,
-        maxTokens: modelInfo.maxTokens,
-        utilizationPercentage
-      }
-    });
-
-    return new Response(JSON.stringify({
-      modelName: modelInfo.name,
-      provider,
-      promptTokens,
-      responseTokens,
-      totalTokens,
-      maxTokens: modelInfo.maxTokens,
-      utilizationPercentage
-    }), {
+    const analytics = await queryAnalytics(result.data, await getScope(user));
+    return new Response(JSON.stringify(analytics), {
       headers: { 'Content-Type': 'application/json' },
     });
-
   } catch (error) {
-    console.error('Analytics error:', error);
+    console.error('Analytics query error:', error);
     return new Response(JSON.stringify({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Unknown error'
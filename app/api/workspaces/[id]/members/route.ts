@@ -0,0 +1,184 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { findUserByEmail, getCurrentUser, unauthorized } from '@/lib/auth';
+import {
+  WORKSPACE_ROLES,
+  forbidden,
+  getMembershipRole,
+  isLastOwner,
+  listMembers
+} from '@/lib/workspaces';
+
+const addMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(WORKSPACE_ROLES)
+});
+
+const updateMemberSchema = z.object({
+  userId: z.string().min(1),
+  role: z.enum(WORKSPACE_ROLES)
+});
+
+const notFound = () =>
+  NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+
+const lastOwner = () =>
+  NextResponse.json(
+    { error: 'A workspace needs at least one owner' },
+    { status: 409 }
+  );
+
+// Every member can see who else is in the workspace
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+
+  try {
+    if (!(await getMembershipRole(id, user.id))) return notFound();
+
+    return NextResponse.json(await listMembers(id));
+  } catch (error) {
+    console.error('Error fetching workspace members:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch members' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+  const result = addMemberSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid member', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const role = await getMembershipRole(id, user.id);
+    if (!role) return notFound();
+    if (role !== 'owner') return forbidden('owner');
+
+    const member = await findUserByEmail(result.data.email);
+    if (!member) {
+      return NextResponse.json(
+        { error: 'No account uses this email' },
+        { status: 404 }
+      );
+    }
+    if (await getMembershipRole(id, member.id)) {
+      return NextResponse.json(
+        { error: 'This account is already a member' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.workspaceMember.create({
+      data: { workspaceId: id, userId: member.id, role: result.data.role }
+    });
+    return NextResponse.json(await listMembers(id));
+  } catch (error) {
+    console.error('Error adding workspace member:', error);
+    return NextResponse.json(
+      { error: 'Failed to add member' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+  const result = updateMemberSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid member', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const role = await getMembershipRole(id, user.id);
+    if (!role) return notFound();
+    if (role !== 'owner') return forbidden('owner');
+
+    const { userId, role: newRole } = result.data;
+    if (!(await getMembershipRole(id, userId))) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (newRole !== 'owner' && (await isLastOwner(id, userId))) return lastOwner();
+
+    await prisma.workspaceMember.update({
+      where: { workspaceId_userId: { workspaceId: id, userId } },
+      data: { role: newRole }
+    });
+    return NextResponse.json(await listMembers(id));
+  } catch (error) {
+    console.error('Error updating workspace member:', error);
+    return NextResponse.json(
+      { error: 'Failed to update member' },
+      { status: 500 }
+    );
+  }
+}
+
+// Owners remove members; anyone can remove themselves to leave
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+  const userId = new URL(req.url).searchParams.get('userId');
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Missing user ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const role = await getMembershipRole(id, user.id);
+    if (!role) return notFound();
+    if (userId !== user.id && role !== 'owner') return forbidden('owner');
+
+    if (!(await getMembershipRole(id, userId))) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (await isLastOwner(id, userId)) return lastOwner();
+
+    await prisma.workspaceMember.delete({
+      where: { workspaceId_userId: { workspaceId: id, userId } }
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing workspace member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getMembershipRole } from '@/lib/workspaces';
+
+const renameSchema = z.object({
+  name: z.string().trim().min(1).max(64)
+});
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+  const result = renameSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid workspace', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const role = await getMembershipRole(id, user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+    if (role !== 'owner') return forbidden('owner');
+
+    const workspace = await prisma.workspace.update({
+      where: { id },
+      data: { name: result.data.name },
+      select: { id: true, name: true }
+    });
+    return NextResponse.json(workspace);
+  } catch (error) {
+    console.error('Error renaming workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes the workspace's saved apps, projects and shares with it; its
+// analytics stay with the members who recorded them
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+
+  try {
+    const role = await getMembershipRole(id, user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+    if (role !== 'owner') return forbidden('owner');
+
+    await prisma.workspace.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
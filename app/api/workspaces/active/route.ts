@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { getMembershipRole, setActiveWorkspace } from '@/lib/workspaces';
+
+const activeSchema = z.object({
+  workspaceId: z.string().min(1).nullable()
+});
+
+// Switches the space that saved apps, projects, shares and analytics use
+export async function PUT(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const result = activeSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid workspace', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  const { workspaceId } = result.data;
+
+  try {
+    if (workspaceId && !(await getMembershipRole(workspaceId, user.id))) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    await setActiveWorkspace(workspaceId);
+    return NextResponse.json({ activeWorkspaceId: workspaceId });
+  } catch (error) {
+    console.error('Error switching workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
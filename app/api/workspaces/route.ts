@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { createWorkspace, getScope, listWorkspaces } from '@/lib/workspaces';
+
+const workspaceSchema = z.object({
+  name: z.string().trim().min(1).max(64)
+});
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  try {
+    const [workspaces, scope] = await Promise.all([
+      listWorkspaces(user.id),
+      getScope(user)
+    ]);
+    return NextResponse.json({ workspaces, activeWorkspaceId: scope.workspaceId });
+  } catch (error) {
+    console.error('Error fetching workspaces:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspaces' },
+      { status: 500 }
+    );
+  }
+}
+
+// Any signed-in user can start a workspace and becomes its owner
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorized();
+
+  const result = workspaceSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid workspace', message: result.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const workspace = await createWorkspace(result.data.name, user.id);
+    return NextResponse.json(workspace);
+  } catch (error) {
+    console.error('Error creating workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,4 @@
+// No header or footer; the page is meant to live in someone else's iframe
+export default function Layout({ children }: { children: React.ReactNode }) {
+  return <body className="m-0 overflow-hidden">{children}</body>;
+}
@@ -0,0 +1,83 @@
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import EmbedViewer from "@/components/EmbedViewer";
+import { parseEmbedOptions } from "@/lib/embed";
+import {
+  describeClient,
+  isBot,
+  openShare,
+  requestOrigin,
+  shareUrl,
+} from "@/lib/shares";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+const unavailableMessages = {
+  revoked: "This share link was revoked",
+  expired: "This share link expired",
+  exhausted: "This share link has no views left",
+};
+
+function EmbedMessage({ height, children }: { height: number; children: React.ReactNode }) {
+  return (
+    <div
+      className="flex items-center justify-center bg-gray-900 p-4 text-center text-sm text-white/70"
+      style={{ height }}
+    >
+      <p>{children}</p>
+    </div>
+  );
+}
+
+// Embeds count as views, like opening the share page, except for crawlers
+export default async function EmbedPage({ params, searchParams }: PageProps) {
+  const { id } = await params;
+  const options = parseEmbedOptions(await searchParams);
+  const requestHeaders = await headers();
+  const client = describeClient(requestHeaders);
+  if (isBot(client)) {
+    return (
+      <EmbedMessage height={options.height}>
+        Open this embed in a browser to view the app
+      </EmbedMessage>
+    );
+  }
+
+  const result = await openShare(id, undefined, client);
+
+  switch (result.status) {
+    case "ok":
+      return <EmbedViewer code={result.share.content.code} options={options} />;
+    case "not_found":
+      return notFound();
+    // Passwords can't be typed into an embed, so visitors are sent to the share
+    case "password_required":
+    case "invalid_password":
+    case "locked":
+      return (
+        <EmbedMessage height={options.height}>
+          This app is password protected.{" "}
+          <a
+            href={shareUrl(id, requestOrigin(requestHeaders))}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-400 underline"
+          >
+            Open it on NexaForge
+          </a>
+        </EmbedMessage>
+      );
+    default:
+      return (
+        <EmbedMessage height={options.height}>
+          {unavailableMessages[result.status]}
+        </EmbedMessage>
+      );
+  }
+}
@@ -1,10 +1,11 @@
 import type { Metadata } from "next";
 import "./globals.css";
 import { ThemeProvider } from "@/components/ThemeProvider";
+import { domain } from "@/utils/domain";
 
 let title = "NexaForge – Multi AI Code Generator";
 let description = "Generate your next app with AI models";
-let url = "https://l.io/";
+let url = domain;
 let ogimage = "https://www.gstatic.com/lamda/images/gemini_sparkle_v002_d4735304ff6292a690345.svg";
 let sitename = "";
 
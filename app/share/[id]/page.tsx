@@ -1,174 +1,121 @@
 import { notFound, redirect } from "next/navigation";
-import CodeViewer from "@/components/code-viewer";
-import client from "@/lib/prisma";
+import SharedCodeViewer from "@/components/SharedCodeViewer";
 import type { Metadata } from "next";
-import { cache } from "react";
-import { decrypt } from "@/lib/encryption";
-import QRCode from "qrcode";
+import {
+  describeClient,
+  getSharePreview,
+  isBot,
+  openShare,
+  requestOrigin,
+  shareUrl,
+  type OpenShareResult,
+} from "@/lib/shares";
+import { generateQRCode } from "@/lib/qr-generator";
 import Image from 'next/image';
+import { headers } from "next/headers";
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-// Define SharedCode type
-interface SharedCode {
-  appId: string;
-  content: string;
-  isEncrypted: boolean;
-  expiresAt: Date | null;
-  remainingViews: number | null;
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
 }
 
-// Cache the database query
-const getGeneratedAppByID = cache(async (id: string) => {
-  const generatedApp = await client.generatedApp.findUnique({
-    where: { id },
-  });
-  return generatedApp;
-});
-
-// Generate QR code with proper options
-async function generateQRCode(url: string): Promise<string | null> {
-  try {
-    return await QRCode.toDataURL(url, {
-      width: 400,
-      margin: 2,
-      color: {
-        dark: '#000',
-        light: '#fff'
-      }
-    });
-  } catch (err) {
-    console.error('QR Code generation failed:', err);
-    return null;
-  }
-}
-
-type GenerateMetadataProps = {
-  params: { id: string };
-  searchParams: { [key: string]: string | undefined };
-}
+const unavailableMessages: Partial<Record<OpenShareResult["status"], string>> = {
+  not_found: "Share not found",
+  revoked: "This share link was revoked",
+  expired: "Share link expired",
+  exhausted: "Maximum views reached",
+};
 
 // Metadata generation
-export async function generateMetadata(
-  { params }: GenerateMetadataProps
-): Promise<Metadata> {
-  const generatedApp = await getGeneratedAppByID(params.id);
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { id } = await params;
+  const preview = await getSharePreview(id);
 
-  if (!generatedApp?.prompt || typeof generatedApp.prompt !== "string") {
-    notFound();
+  // The page itself explains why an unavailable share can't be opened
+  if (!preview) {
+    return {};
   }
 
-  const searchParams = new URLSearchParams();
-  searchParams.set("prompt", generatedApp.prompt);
+  const origin = process.env.NEXT_PUBLIC_BASE_URL || requestOrigin(await headers());
+  // Lets oEmbed consumers find the embed for this link
+  const link = encodeURIComponent(shareUrl(id, origin));
+  const alternates = {
+    types: { "application/json+oembed": `${origin}/api/oembed?url=${link}` },
+  };
+  // A card of the app itself; protected shares only show the model
+  const images = [`${origin}/api/og?share=${id}`];
+
+  // Protected shares don't reveal their prompt to link previews
+  const title = preview.prompt
+    ? "An app generated on NexaForge"
+    : "A protected app shared from NexaForge";
+  const description = preview.prompt
+    ? `Prompt: ${preview.prompt}`
+    : "Enter the password to view this app";
 
   return {
-    title: "An app generated on NexaForge",
-    description: `Prompt: ${generatedApp.prompt}`,
-    openGraph: {
-      images: [`/api/og?${searchParams}`],
-    },
+    title,
+    description,
+    openGraph: { title, description, images },
+    twitter: { card: "summary_large_image", title, description, images },
+    alternates,
   };
 }
 
-interface PageContent {
-  code: string;
-  qrCodeDataUrl?: string | null;
-}
-
-async function getPageContent(
-  id: string,
-  key?: string,
-  qr?: string
-): Promise<PageContent | JSX.Element> {
-  const generatedApp = await getGeneratedAppByID(id);
-
-  if (!generatedApp) {
-    return <div>App not found</div>;
-  }
-
-  let qrCodeDataUrl: string | null = null;
-  if (qr === 'true') {
-    qrCodeDataUrl = await generateQRCode(
-      `${process.env.NEXT_PUBLIC_BASE_URL}/share/${id}`
+export default async function Page({ params, searchParams }: PageProps) {
+  const { id } = await params;
+  const { qr } = await searchParams;
+
+  // Opening counts a view, so crawlers fetching the link preview above get a
+  // placeholder instead of the app
+  const requestHeaders = await headers();
+  const client = describeClient(requestHeaders);
+  if (isBot(client)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-900 text-white/70">
+        Open this link in a browser to view the app
+      </div>
     );
   }
 
-  const sharedCode = await client.$queryRaw<SharedCode[]>`
-    SELECT * FROM "SharedCode" WHERE "appId" = ${id}
-  `;
+  const result = await openShare(id, undefined, client);
 
-  if (sharedCode && Array.isArray(sharedCode) && sharedCode.length > 0) {
-    const shareData = sharedCode[0];
-    
-    if (shareData.isEncrypted && !key) {
-      redirect(`/share/${id}/protected`);
-    }
-
-    if (shareData.isEncrypted && key) {
-      try {
-        const decrypted = await decrypt(shareData.content, key);
-        generatedApp.code = JSON.parse(decrypted).code;
-      } catch (error) {
-        console.error('Decryption failed:', error);
-        redirect(`/share/${id}/protected?error=invalid`);
-      }
-    }
-
-    if (shareData.expiresAt && new Date(shareData.expiresAt) < new Date()) {
-      return <div>Share link expired</div>;
-    }
-
-    if (shareData.remainingViews !== null && shareData.remainingViews <= 0) {
-      return <div>Maximum views reached</div>;
-    }
-
-    if (shareData.remainingViews !== null) {
-      await client.$executeRaw`
-        UPDATE "SharedCode" 
-        SET "remainingViews" = "remainingViews" - 1 
-        WHERE "appId" = ${id}
-      `;
-    }
+  if (result.status === "password_required") {
+    redirect(`/share/${id}/protected`);
   }
 
-  return {
-    code: generatedApp.code,
-    qrCodeDataUrl
-  };
-}
-
-export default async function Page({
-  params,
-  searchParams,
-}: {
-  params: { id: string };
-  searchParams: { [key: string]: string | string[] | undefined };
-}) {
-  const content = await getPageContent(
-    params.id,
-    searchParams.key as string | undefined,
-    searchParams.qr as string | undefined
-  );
+  if (result.status !== "ok") {
+    if (result.status === "not_found") notFound();
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-900 text-white/70">
+        {unavailableMessages[result.status]}
+      </div>
+    );
+  }
 
-  if ('type' in content) {
-    return content;
+  let qrCodeDataUrl: string | null = null;
+  if (qr === 'true') {
+    qrCodeDataUrl =
+      (await generateQRCode(shareUrl(id, requestOrigin(requestHeaders)))) || null;
   }
 
   return (
     <div>
-      {content.qrCodeDataUrl && (
+      {qrCodeDataUrl && (
         <div className="mb-4">
-          <Image 
-            src={content.qrCodeDataUrl} 
-            alt="QR Code" 
-            width={400} 
+          <Image
+            src={qrCodeDataUrl}
+            alt="QR Code"
+            width={400}
             height={400}
             className="mx-auto"
           />
         </div>
       )}
-      <CodeViewer code={content.code} model={""} prompt={""} />
+      <SharedCodeViewer shareData={result.share} />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,14 +1,19 @@
 "use client";
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useParams } from 'next/navigation';
 import { Lock } from 'lucide-react';
+import SharedCodeViewer from '@/components/SharedCodeViewer';
+import { openShare } from '@/services/api';
+import { OpenShareResponse } from '@/types';
 
-export default function ProtectedSharePage({ params }: { params: { id: string } }) {
+export default function ProtectedSharePage() {
+  const { id } = useParams<{ id: string }>();
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const router = useRouter();
+  // Decrypted in memory only, so the password never ends up in a URL
+  const [share, setShare] = useState<OpenShareResponse | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -16,21 +21,18 @@ export default function ProtectedSharePage({ params }: { params: { id: string }
     setError('');
 
     try {
-      const response = await fetch(`/api/share?id=${params.id}&password=${encodeURIComponent(password)}`);
-      const data = await response.json();
-
-      if (response.ok) {
-        router.push(`/share/${params.id}?key=${password}`);
-      } else {
-        setError(data.error || 'Invalid password');
-      }
+      setShare(await openShare(id, { password }));
     } catch (error) {
-      setError('Failed to verify password');
+      setError(error instanceof Error ? error.message : 'Failed to verify password');
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (share) {
+    return <SharedCodeViewer shareData={share} />;
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-900 px-4">
       <div className="w-full max-w-md rounded-lg border border-white/20 bg-white/10 p-6 backdrop-blur-lg">
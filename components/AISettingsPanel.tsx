@@ -2,7 +2,8 @@ import React, { useState, useEffect } from "react";
 import { Settings2, X, Undo2, HelpCircle } from "lucide-react";
 import { AI_PROVIDERS } from "@/config/ai-providers";
 import * as Tooltip from "@radix-ui/react-tooltip";
-import { AISettings } from '@/types/models/ai';
+import { AISettings, ApiKeyStatus } from '@/types/models/ai';
+import ApiKeySettings from "./ApiKeySettings";
 
 interface AISettingsPanelProps {
   visible: boolean;
@@ -12,6 +13,8 @@ interface AISettingsPanelProps {
   settings: AISettings;
   onSettingsChange: (settings: AISettings) => void;
   onApply?: () => void;
+  apiKeys: ApiKeyStatus[];
+  onApiKeysChange: (apiKeys: ApiKeyStatus[]) => void;
 }
 
 const settingTooltips = {
@@ -42,7 +45,7 @@ const getDefaultSettingsForModel = (modelId: string): AISettings => {
     case "deepseek":
       return {
         temperature: 0.0,
-        maxTokens: model.maxTokens,
+        maxTokens: model.maxOutputTokens ?? model.maxTokens,
         topP: 1,
         streamOutput: true,
         frequencyPenalty: 0,
@@ -53,7 +56,7 @@ const getDefaultSettingsForModel = (modelId: string): AISettings => {
     case "openai":
       return {
         temperature: 0.7,
-        maxTokens: model.maxTokens,
+        maxTokens: model.maxOutputTokens ?? model.maxTokens,
         topP: 1,
         streamOutput: true,
         frequencyPenalty: 0,
@@ -62,7 +65,7 @@ const getDefaultSettingsForModel = (modelId: string): AISettings => {
       case "ollama": 
         return {
           temperature: 0.7,
-          maxTokens: model.maxTokens,
+          maxTokens: model.maxOutputTokens ?? model.maxTokens,
           topP: 1,
           streamOutput: true,
           frequencyPenalty: 0,
@@ -124,7 +127,8 @@ const AISettingsPanel: React.FC<AISettingsPanelProps> = ({
   provider,
   settings,
   onSettingsChange,
-
+  apiKeys,
+  onApiKeysChange,
 }) => {
   const [localSettings, setLocalSettings] = useState<AISettings>(settings);
   const [currentModel, setCurrentModel] = useState(model);
@@ -149,6 +153,7 @@ const AISettingsPanel: React.FC<AISettingsPanelProps> = ({
   const modelConfig = Object.values(AI_PROVIDERS)
     .flat()
     .find((m) => m.id === model);
+  const outputLimit = modelConfig?.maxOutputTokens ?? modelConfig?.maxTokens;
 
   const renderSettingLabel = (
     label: string,
@@ -183,7 +188,7 @@ const AISettingsPanel: React.FC<AISettingsPanelProps> = ({
   if (!visible) return null;
 
   return (
-    <div className="fixed right-4 top-24 z-50 w-80 rounded-lg border border-white/20 bg-white/10 p-4 backdrop-blur-lg">
+    <div className="fixed right-4 top-24 z-50 max-h-[calc(100vh-7rem)] w-80 overflow-y-auto rounded-lg border border-white/20 bg-white/10 p-4 backdrop-blur-lg">
       <div className="flex items-center justify-between pb-4">
         <div className="flex items-center gap-2">
           <Settings2 className="h-4 w-4 text-white" />
@@ -229,11 +234,11 @@ const AISettingsPanel: React.FC<AISettingsPanelProps> = ({
                 handleSettingChange("maxTokens", parseInt(e.target.value))
               }
               className="w-24 rounded border border-white/20 bg-white/10 px-2 py-1 text-xs text-white"
-              max={modelConfig?.maxTokens}
+              max={outputLimit}
             />
           </div>
           <div className="text-xs text-white/50">
-            Max available: {modelConfig?.maxTokens.toLocaleString()}
+            Max available: {outputLimit?.toLocaleString()}
           </div>
         </div>
 
@@ -347,6 +352,10 @@ const AISettingsPanel: React.FC<AISettingsPanelProps> = ({
             Apply
           </button>
         </div>
+
+        <div className="border-t border-white/20 pt-4">
+          <ApiKeySettings apiKeys={apiKeys} onApiKeysChange={onApiKeysChange} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,56 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { LogOut, User } from 'lucide-react';
+import { fetchSession, logout } from '@/services/api';
+import { AuthUser } from '@/types';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+
+export default function AccountMenu() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [user, setUser] = useState<AuthUser | null>(null);
+
+  useEffect(() => {
+    if (pathname === '/login') return;
+
+    fetchSession()
+      .then((session) => {
+        // The cookie outlived its session, so sign in again
+        if (!session) router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+        setUser(session);
+      })
+      .catch((error) => console.error('Failed to fetch session:', error));
+  }, [pathname, router]);
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      setUser(null);
+      router.push('/login');
+      router.refresh();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
+  };
+
+  if (!user || pathname === '/login') return null;
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-white/80">
+      <WorkspaceSwitcher userId={user.id} />
+      <span className="hidden items-center gap-1 sm:flex" title={user.email}>
+        <User className="h-4 w-4" />
+        {user.name || user.email}
+      </span>
+      <button
+        onClick={handleLogout}
+        className="flex items-center gap-1 transition hover:text-cyan-300"
+        title="Sign out"
+      >
+        <LogOut className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart2, Loader2 } from 'lucide-react';
+import { fetchAnalyticsHistory } from '@/services/api';
+import {
+  AnalyticsGroup,
+  AnalyticsGroupBy,
+  AnalyticsQueryResponse
+} from '@/types';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const toDateInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const formatNumber = (num: number) => new Intl.NumberFormat().format(num);
+const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+
+const GROUP_LABELS: Record<AnalyticsGroupBy, string> = {
+  day: 'Day',
+  model: 'Model',
+  provider: 'Provider'
+};
+
+// Stacked prompt/response bars, one per day
+function TokenChart({ days }: { days: AnalyticsGroup[] }) {
+  const max = Math.max(...days.map((day) => day.totalTokens), 1);
+
+  return (
+    <div className="flex h-48 items-end gap-1">
+      {days.map((day) => (
+        <div
+          key={day.key}
+          className="flex h-full flex-1 flex-col justify-end"
+          title={`${day.key}: ${formatNumber(day.promptTokens)} prompt, ${formatNumber(day.responseTokens)} response tokens`}
+        >
+          <div
+            className="w-full rounded-t bg-blue-500"
+            style={{ height: `${(day.responseTokens / max) * 100}%` }}
+          />
+          <div
+            className="w-full bg-cyan-400"
+            style={{ height: `${(day.promptTokens / max) * 100}%` }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CostChart({ days }: { days: AnalyticsGroup[] }) {
+  const max = Math.max(...days.map((day) => day.cost), 0.0001);
+
+  return (
+    <div className="flex h-32 items-end gap-1">
+      {days.map((day) => (
+        <div
+          key={day.key}
+          className="flex h-full flex-1 flex-col justify-end"
+          title={`${day.key}: ${formatCost(day.cost)}`}
+        >
+          <div
+            className="w-full rounded-t bg-emerald-400"
+            style={{ height: `${(day.cost / max) * 100}%` }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function AnalyticsDashboard() {
+  const [from, setFrom] = useState(() => {
+    const start = new Date();
+    start.setDate(start.getDate() - DEFAULT_RANGE_DAYS + 1);
+    return toDateInput(start);
+  });
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [groupBy, setGroupBy] = useState<AnalyticsGroupBy>('model');
+  const [data, setData] = useState<AnalyticsQueryResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchAnalyticsHistory({ from, to, groupBy })
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        console.error('Error fetching analytics history:', err);
+        if (!cancelled) setError('Failed to load analytics history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, groupBy]);
+
+  const totals = data?.totals;
+  const maxGroupTokens = Math.max(...(data?.groups.map((g) => g.totalTokens) ?? []), 1);
+
+  const summaryCards = totals
+    ? [
+        { label: 'Generations', value: formatNumber(totals.generations) },
+        { label: 'Total Tokens', value: formatNumber(totals.totalTokens) },
+        {
+          label: 'Avg Prompt / Response',
+          value: `${formatNumber(totals.avgPromptTokens)} / ${formatNumber(totals.avgResponseTokens)}`
+        },
+        { label: 'Cost', value: formatCost(totals.cost) }
+      ]
+    : [];
+
+  return (
+    <div className="w-full max-w-5xl space-y-6 px-4">
+      <div className="flex flex-col gap-4 rounded-lg border border-white/60 bg-white/70 p-4 shadow-lg backdrop-blur-[2px] sm:flex-row sm:items-end sm:justify-between">
+        <div className="flex items-center gap-2">
+          <BarChart2 className="h-5 w-5 text-cyan-500" strokeWidth={2.5} />
+          <h2 className="text-lg font-semibold text-gray-800">Analytics History</h2>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 text-sm text-gray-700">
+          <label className="flex flex-col gap-1">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              className="rounded-md border border-gray-300 bg-white/80 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="rounded-md border border-gray-300 bg-white/80 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Group by
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as AnalyticsGroupBy)}
+              className="rounded-md border border-gray-300 bg-white/80 px-2 py-1"
+            >
+              {Object.entries(GROUP_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <p className="rounded-lg bg-red-100/80 p-3 text-sm text-red-700">{error}</p>
+      )}
+
+      {totals && (
+        <>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {summaryCards.map((card) => (
+              <div key={card.label} className="rounded-lg bg-white/70 p-3 shadow">
+                <p className="text-sm font-medium text-gray-600">{card.label}</p>
+                <p className="text-lg font-semibold text-gray-800">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {totals.estimatedGenerations > 0 && (
+            <p className="text-xs text-white/80">
+              {formatNumber(totals.estimatedGenerations)} of {formatNumber(totals.generations)} generations
+              use estimated token counts.
+            </p>
+          )}
+
+          {data.daily.length > 0 ? (
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div className="rounded-lg bg-white/70 p-4 shadow">
+                <div className="mb-3 flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-600">Tokens per day</p>
+                  <div className="flex gap-3 text-xs text-gray-600">
+                    <span className="flex items-center gap-1">
+                      <span className="h-2 w-2 rounded-full bg-cyan-400" /> Prompt
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <span className="h-2 w-2 rounded-full bg-blue-500" /> Response
+                    </span>
+                  </div>
+                </div>
+                <TokenChart days={data.daily} />
+                <div className="mt-1 flex justify-between text-xs text-gray-500">
+                  <span>{data.daily[0].key}</span>
+                  <span>{data.daily[data.daily.length - 1].key}</span>
+                </div>
+              </div>
+
+              <div className="rounded-lg bg-white/70 p-4 shadow">
+                <p className="mb-3 text-sm font-medium text-gray-600">Cost per day</p>
+                <CostChart days={data.daily} />
+                <div className="mt-1 flex justify-between text-xs text-gray-500">
+                  <span>{data.daily[0].key}</span>
+                  <span>{data.daily[data.daily.length - 1].key}</span>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="rounded-lg bg-white/70 p-4 text-center text-sm text-gray-600">
+              No generations in this date range.
+            </p>
+          )}
+
+          {data.groups.length > 0 && (
+            <div className="overflow-x-auto rounded-lg bg-white/70 p-4 shadow">
+              <table className="w-full text-left text-sm text-gray-700">
+                <thead className="text-xs uppercase text-gray-500">
+                  <tr>
+                    <th className="py-2 pr-4">{GROUP_LABELS[data.groupBy]}</th>
+                    <th className="py-2 pr-4 text-right">Generations</th>
+                    <th className="py-2 pr-4 text-right">Avg Prompt</th>
+                    <th className="py-2 pr-4 text-right">Avg Response</th>
+                    <th className="py-2 pr-4 text-right">Total Tokens</th>
+                    <th className="py-2 pr-4 text-right">Cost</th>
+                    <th className="w-32 py-2">Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.groups.map((group) => (
+                    <tr key={group.key} className="border-t border-gray-200">
+                      <td className="py-2 pr-4 font-medium text-gray-800">{group.key}</td>
+                      <td className="py-2 pr-4 text-right">{formatNumber(group.generations)}</td>
+                      <td className="py-2 pr-4 text-right">{formatNumber(group.avgPromptTokens)}</td>
+                      <td className="py-2 pr-4 text-right">{formatNumber(group.avgResponseTokens)}</td>
+                      <td className="py-2 pr-4 text-right">{formatNumber(group.totalTokens)}</td>
+                      <td className="py-2 pr-4 text-right">{formatCost(group.cost)}</td>
+                      <td className="py-2">
+                        <div
+                          className="flex h-2 overflow-hidden rounded-full bg-gray-200"
+                          style={{ width: `${(group.totalTokens / maxGroupTokens) * 100}%` }}
+                          title={`${formatNumber(group.promptTokens)} prompt / ${formatNumber(group.responseTokens)} response`}
+                        >
+                          <div
+                            className="bg-cyan-400"
+                            style={{ width: `${(group.promptTokens / Math.max(group.totalTokens, 1)) * 100}%` }}
+                          />
+                          <div className="flex-1 bg-blue-500" />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { BarChart2, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
-import { CumulativeTokenAnalytics } from '@/types/models/analytics';
+import { BudgetStatus, BudgetUsage, CumulativeTokenAnalytics } from '@/types/models/analytics';
+import { fetchBudgetStatus } from '@/services/api';
 
 interface AnalyticsWindowProps {
   analytics: CumulativeTokenAnalytics | null;
@@ -11,20 +13,16 @@ export default function AnalyticsWindow({ analytics, visible }: AnalyticsWindowP
   const [isExpanded, setIsExpanded] = useState(false);
   const [showTooltip, setShowTooltip] = useState<string | null>(null);
 
-  const costEstimate = useMemo(() => {
-    if (!analytics) return "0.0000";
-    
-    const rates: Record<string, number> = {
-      'openai': 0.002,
-      'anthropic': 0.0015,
-      'google': 0.001,
-      'deepseek': 0.0008,
-      'grok': 0.002
-    };
-    
-    const rate = rates[analytics.provider.toLowerCase()] || 0;
-    return ((analytics.cumulativeTotalTokens / 1000) * rate).toFixed(4);
-  }, [analytics]);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+
+  // Every new generation adds to today's and this month's spend
+  useEffect(() => {
+    if (!visible || !analytics) return;
+
+    fetchBudgetStatus()
+      .then(setBudget)
+      .catch((error) => console.error('Failed to fetch budget status:', error));
+  }, [visible, analytics]);
 
   if (!visible || !analytics) return null;
 
@@ -32,13 +30,26 @@ export default function AnalyticsWindow({ analytics, visible }: AnalyticsWindowP
     return new Intl.NumberFormat().format(num);
   };
 
+  const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+
   const tooltips = {
     promptTokens: "Number of tokens used in your input prompts, including system prompts and context (cumulative across all interactions).",
     responseTokens: "Number of tokens generated in AI responses, including code and explanations (cumulative across all interactions).",
     totalTokens: "Total tokens used across all interactions (cumulative prompt + response tokens).",
-    capacity: "Current utilization of the model's maximum token capacity based on cumulative usage."
+    capacity: "Current utilization of the model's maximum token capacity based on cumulative usage.",
+    cost: "Cost of this session's generations from each model's input and output token prices, and total spend against the configured budgets."
   };
 
+  const renderBudget = (label: string, usage: BudgetUsage) => (
+    <div className="flex items-center justify-between text-xs text-gray-600">
+      <span>{label}</span>
+      <span className={usage.limit !== null && usage.spent >= usage.limit ? 'font-semibold text-red-600' : ''}>
+        {formatCost(usage.spent)}
+        {usage.limit !== null && ` / $${usage.limit.toFixed(2)}`}
+      </span>
+    </div>
+  );
+
   const renderTooltip = (text: string) => (
     <div className="absolute left-full top-0 z-50 ml-2 w-48 rounded-md bg-gray-900 p-2 text-xs text-white shadow-lg">
       {text}
@@ -79,6 +90,12 @@ export default function AnalyticsWindow({ analytics, visible }: AnalyticsWindowP
           <div className="flex items-center gap-2">
             <BarChart2 className="h-5 w-5 text-cyan-500" strokeWidth={2.5} />
             <h3 className="text-lg font-semibold text-gray-800">Token Analytics</h3>
+            <Link
+              href="/analytics"
+              className="text-xs font-medium text-cyan-600 hover:text-cyan-500 hover:underline"
+            >
+              History
+            </Link>
           </div>
           <button
             onClick={() => setIsExpanded(false)}
@@ -97,6 +114,22 @@ export default function AnalyticsWindow({ analytics, visible }: AnalyticsWindowP
               <span className="ml-2 rounded-full bg-cyan-100 px-2 py-0.5 text-xs font-medium text-cyan-800">
                 {analytics.provider}
               </span>
+              {analytics.isEstimated !== undefined && (
+                <span
+                  className={`ml-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+                    analytics.isEstimated
+                      ? 'bg-yellow-100 text-yellow-800'
+                      : 'bg-green-100 text-green-800'
+                  }`}
+                  title={
+                    analytics.isEstimated
+                      ? 'Token counts are estimated with a tokenizer'
+                      : 'Token counts were reported by the provider'
+                  }
+                >
+                  {analytics.isEstimated ? 'estimated' : 'exact'}
+                </span>
+              )}
             </p>
           </div>
 
@@ -169,10 +202,38 @@ export default function AnalyticsWindow({ analytics, visible }: AnalyticsWindowP
                 </div>
               </div>
               {showTooltip === 'totalTokens' && renderTooltip(tooltips.totalTokens)}
-              <p className="mt-1 text-xs text-gray-500">Estimated total cost: ${costEstimate}</p>
             </div>
           </div>
 
+          {/* Cost */}
+          <div 
+            className="relative rounded-lg bg-white/50 p-3"
+            onMouseEnter={() => setShowTooltip('cost')}
+            onMouseLeave={() => setShowTooltip(null)}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium text-gray-600">Cost</p>
+                <AlertCircle className="h-4 w-4 text-gray-400" />
+              </div>
+              <div className="text-right">
+                <p className="text-base font-medium text-gray-800">
+                  {formatCost(analytics.cumulativeCost)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  (+{formatCost(analytics.cost ?? 0)} last)
+                </p>
+              </div>
+            </div>
+            {budget && (
+              <div className="mt-2 space-y-1 border-t border-gray-200 pt-2">
+                {renderBudget('Today', budget.daily)}
+                {renderBudget('This month', budget.monthly)}
+              </div>
+            )}
+            {showTooltip === 'cost' && renderTooltip(tooltips.cost)}
+          </div>
+
           {/* Capacity Visualization */}
           <div 
             className="relative rounded-lg bg-white/50 p-3"
@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { CheckCircle2, KeyRound, Loader2, Trash2, XCircle } from "lucide-react";
+import { deleteApiKey, saveApiKey, testApiKey } from "@/services/api";
+import { ApiKeyStatus, KeyedProvider } from "@/types/models/ai";
+
+interface ApiKeySettingsProps {
+  apiKeys: ApiKeyStatus[];
+  onApiKeysChange: (apiKeys: ApiKeyStatus[]) => void;
+}
+
+const providerLabels: Record<KeyedProvider, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  google: "Google",
+  deepseek: "DeepSeek",
+  grok: "xAI",
+};
+
+type TestResult = { valid: boolean; error?: string };
+
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({
+  apiKeys,
+  onApiKeysChange,
+}) => {
+  // Typed keys stay in the browser until saved; saved keys never come back
+  const [drafts, setDrafts] = useState<Partial<Record<KeyedProvider, string>>>({});
+  const [results, setResults] = useState<Partial<Record<KeyedProvider, TestResult>>>({});
+  const [busy, setBusy] = useState<KeyedProvider | null>(null);
+
+  const run = async (provider: KeyedProvider, action: () => Promise<void>) => {
+    setBusy(provider);
+    try {
+      await action();
+    } catch (error) {
+      setResults((prev) => ({
+        ...prev,
+        [provider]: {
+          valid: false,
+          error: error instanceof Error ? error.message : "Request failed",
+        },
+      }));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Tests the typed key, or the key in use when nothing is typed
+  const handleTest = (provider: KeyedProvider) =>
+    run(provider, async () => {
+      const result = await testApiKey({
+        provider,
+        apiKey: drafts[provider]?.trim() || undefined,
+      });
+      setResults((prev) => ({ ...prev, [provider]: result }));
+    });
+
+  const handleSave = (provider: KeyedProvider) =>
+    run(provider, async () => {
+      onApiKeysChange(
+        await saveApiKey({ provider, apiKey: drafts[provider]!.trim() }),
+      );
+      setDrafts((prev) => ({ ...prev, [provider]: "" }));
+    });
+
+  const handleRemove = (provider: KeyedProvider) =>
+    run(provider, async () => {
+      onApiKeysChange(await deleteApiKey(provider));
+      setResults((prev) => ({ ...prev, [provider]: undefined }));
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <KeyRound className="h-4 w-4 text-white" />
+        <span className="text-sm font-medium text-white">API Keys</span>
+      </div>
+
+      {apiKeys.map(({ provider, source, hint }) => {
+        const draft = drafts[provider] ?? "";
+        const result = results[provider];
+
+        return (
+          <div key={provider} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-white">{providerLabels[provider]}</span>
+              <span className="text-white/50">
+                {source === "user"
+                  ? `Your key ····${hint}`
+                  : source === "server"
+                    ? "Server key"
+                    : "Not configured"}
+              </span>
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                type="password"
+                value={draft}
+                onChange={(e) =>
+                  setDrafts((prev) => ({ ...prev, [provider]: e.target.value }))
+                }
+                placeholder={source === "user" ? "Replace key..." : "Paste key..."}
+                autoComplete="off"
+                className="min-w-0 flex-1 rounded border border-white/20 bg-white/10 px-2 py-1 text-xs text-white placeholder:text-white/40"
+              />
+              <button
+                onClick={() => handleTest(provider)}
+                disabled={busy !== null || (!draft.trim() && !source)}
+                className="rounded px-2 py-1 text-xs text-white hover:bg-white/20 disabled:opacity-50"
+              >
+                {busy === provider ? <Loader2 className="h-3 w-3 animate-spin" /> : "Test"}
+              </button>
+              <button
+                onClick={() => handleSave(provider)}
+                disabled={busy !== null || draft.trim().length < 8}
+                className="rounded bg-blue-500 px-2 py-1 text-xs text-white hover:bg-blue-600 disabled:opacity-50"
+              >
+                Save
+              </button>
+              {source === "user" && (
+                <button
+                  onClick={() => handleRemove(provider)}
+                  disabled={busy !== null}
+                  className="rounded p-1 text-white/60 hover:text-red-300 disabled:opacity-50"
+                  title="Remove your key"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+            {result && (
+              <p
+                className={`flex items-center gap-1 text-xs ${
+                  result.valid ? "text-green-300" : "text-red-300"
+                }`}
+              >
+                {result.valid ? (
+                  <CheckCircle2 className="h-3 w-3 shrink-0" />
+                ) : (
+                  <XCircle className="h-3 w-3 shrink-0" />
+                )}
+                <span className="truncate" title={result.error}>
+                  {result.valid ? "Key works" : result.error}
+                </span>
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -8,13 +8,26 @@ import {
   Wand2,
   Brain,
 } from "lucide-react";
-import { createErrorFixer } from "@/utils/error-fix-chain";
 import {
   formatErrorContext,
   parseErrorDetails,
 } from "@/utils/error-fix-schema";
-import { AI_PROVIDERS, ENABLED_PROVIDERS } from "@/config/ai-providers";
-import { ChatMessage, TokenAnalytics, AISettings, AIModel } from "@/types";
+import { AI_PROVIDERS } from "@/config/ai-providers";
+import {
+  checkCodeDiagnostics,
+  generateErrorFix,
+  processChatMessage,
+  streamReader,
+} from "@/services/api";
+import { formatCodeIssue } from "@/utils/code-verification";
+import {
+  ChatMessage,
+  TokenAnalyticsResponse,
+  AISettings,
+  AIModel,
+  EnabledProviders,
+  ProviderMessage,
+} from "@/types";
 
 interface ChatInterfaceProps {
   visible: boolean;
@@ -24,8 +37,11 @@ interface ChatInterfaceProps {
   settings: AISettings;
   prompt: string;
   generatedAppId: string | null;
-  onUpdateCode: (newCode: string) => void;
-  onAnalyticsUpdate?: (analytics: TokenAnalytics) => void;
+  // The user's providers, as the page derived them from their keys
+  enabledProviders: EnabledProviders;
+  // prompt describes the change and is recorded with the new revision
+  onUpdateCode: (newCode: string, prompt: string) => void;
+  onAnalyticsUpdate?: (analytics: TokenAnalyticsResponse) => void;
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -36,6 +52,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   settings,
   prompt,
   generatedAppId,
+  enabledProviders,
   onUpdateCode,
   onAnalyticsUpdate,
 }) => {
@@ -55,6 +72,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [isErrorFixing, setIsErrorFixing] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [isThinking, setIsThinking] = useState(false);
+  const [conversation, setConversation] = useState<ProviderMessage[]>([]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -64,11 +82,32 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [messages]);
 
+  // A new generation starts a new conversation
+  useEffect(() => {
+    setConversation([]);
+  }, [generatedAppId]);
+
+  // Role-tagged history sent to the model; the latest assistant turn always
+  // reflects the code currently in the editor
+  const buildConversation = useCallback((): ProviderMessage[] => {
+    if (conversation.length === 0) {
+      return [
+        { role: "user", content: prompt },
+        { role: "assistant", content: currentCode },
+      ];
+    }
+
+    return [
+      ...conversation.slice(0, -1),
+      { role: "assistant", content: currentCode },
+    ];
+  }, [conversation, prompt, currentCode]);
+
   const getFirstEnabledProvider = useCallback((): {
     provider: string;
     modelId: string;
   } | null => {
-    for (const [provider, enabled] of Object.entries(ENABLED_PROVIDERS)) {
+    for (const [provider, enabled] of Object.entries(enabledProviders)) {
       if (enabled && AI_PROVIDERS[provider]?.length > 0) {
         return {
           provider,
@@ -77,13 +116,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       }
     }
     return null;
-  }, []);
+  }, [enabledProviders]);
 
   const getProviderFromModel = useCallback(
     (modelId: string): string | null => {
       for (const [provider, models] of Object.entries(AI_PROVIDERS)) {
         if (models.some((m) => m.id === modelId)) {
-          if (ENABLED_PROVIDERS[provider as keyof typeof ENABLED_PROVIDERS]) {
+          if (enabledProviders[provider as keyof EnabledProviders]) {
             return provider;
           }
         }
@@ -91,42 +130,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       const fallback = getFirstEnabledProvider();
       return fallback?.provider || null;
     },
-    [getFirstEnabledProvider],
+    [enabledProviders, getFirstEnabledProvider],
   );
 
-  const updateAnalytics = async (generatedCode: string) => {
-    if (!generatedAppId) {
-      console.error("Missing generatedAppId");
-      return;
-    }
-
-    try {
-      const analyticsData = {
-        model,
-        generatedCode,
-        prompt,
-        generatedAppId,
-      };
-
-      const response = await fetch("/api/tokenAnalytics", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(analyticsData),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Analytics error: ${response.status}`);
-      }
-
-      const analytics = await response.json();
-      if (onAnalyticsUpdate) {
-        onAnalyticsUpdate(analytics);
-      }
-    } catch (error) {
-      console.error("Failed to update analytics:", error);
-    }
-  };
-
   const validateCode = useCallback(
     (code: string): { isValid: boolean; error?: string } => {
       try {
@@ -176,6 +182,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     [],
   );
 
+  // Type-checks code that passed validateCode; an unavailable check never
+  // blocks the update
+  const checkTypes = async (
+    code: string,
+  ): Promise<{ isValid: boolean; error?: string }> => {
+    try {
+      const { valid, diagnostics } = await checkCodeDiagnostics(code);
+      return valid
+        ? { isValid: true }
+        : { isValid: false, error: diagnostics.map(formatCodeIssue).join("; ") };
+    } catch (error) {
+      console.error("Error checking code types:", error);
+      return { isValid: true };
+    }
+  };
+
   const generateMessageId = () => {
     return `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   };
@@ -199,26 +221,32 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       if (!provider) {
         throw new Error("No enabled AI provider available");
       }
+      // Fixes are billed to the app being fixed
+      if (!generatedAppId) {
+        throw new Error("Missing generatedAppId");
+      }
 
       const errorDetails = parseErrorDetails(error);
-      const fixStream = await createErrorFixer({
+      const fixStream = await generateErrorFix({
         provider,
         model,
-        apiKey: "",
+        generatedAppId,
         code: currentCode,
         error,
         errorDetails,
       });
-
-      let fixedCode = "";
-      for await (const chunk of fixStream) {
-        fixedCode += chunk;
+      const { text: fixedCode, analytics } = await streamReader(fixStream);
+      if (analytics) {
+        onAnalyticsUpdate?.(analytics);
       }
 
       if (fixedCode.trim()) {
-        const validation = validateCode(fixedCode);
+        const syntaxValidation = validateCode(fixedCode);
+        const validation = syntaxValidation.isValid
+          ? await checkTypes(fixedCode)
+          : syntaxValidation;
         if (validation.isValid) {
-          onUpdateCode(fixedCode);
+          onUpdateCode(fixedCode, `Fix: ${error}`);
           setLastError(null);
           setMessages((prev) => [
             ...prev.filter((msg) => !msg.thinking),
@@ -231,7 +259,6 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               isErrorFix: true,
             },
           ]);
-          await updateAnalytics(fixedCode);
         }
       }
     } catch (error) {
@@ -259,12 +286,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   };
 
   const createContextualPrompt = useCallback(
-    (
-      userRequest: string,
-      code: string,
-      originalPrompt: string,
-      lastError: string | null,
-    ): string => {
+    (userRequest: string, code: string, lastError: string | null): string => {
       // Extract UI-specific keywords from request
       const uiTerms = {
         colors: /colou?r/i.test(userRequest),
@@ -310,21 +332,15 @@ Focus on Logic Modification:
         errorContext = `\nError Context:\n${context}`;
       }
 
-      return `As a React and TypeScript expert, please help improve this code with precise, targeted changes.
+      return `As a React and TypeScript expert, please help improve the code from your previous response with precise, targeted changes.
   
 ${errorContext}
-  
-Original Requirements:
-${originalPrompt}
 
 Current Request:
 ${userRequest}
 
 ${targetedContext}
 
-Current Complete Code:
-${code}
-
 Change Requirements:
 1. Make only the specific changes requested
 2. Preserve all other functionality and appearance
@@ -401,177 +417,187 @@ Technical Guidelines:
       const contextMessage = createContextualPrompt(
         inputMessage,
         currentCode,
-        prompt,
         lastError,
       );
+      const history = buildConversation();
 
       const response = await fetch("/api/generateCode", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           model,
-          messages: [
-            {
-              role: "user",
-              content: contextMessage,
-            },
-          ],
+          messages: [...history, { role: "user", content: contextMessage }],
           settings: {
             ...settings,
             temperature: Math.max(0.1, 0.7 - retryCount * 0.1),
           },
+          generatedAppId: generatedAppId ?? undefined,
         }),
       });
 
+      // 402 means a spending budget is exhausted
+      if (response.status === 402) {
+        const reason = await response.text();
+        setMessages((prev) => [
+          ...prev.filter((msg) => !msg.thinking),
+          {
+            id: generateMessageId(),
+            role: "assistant",
+            content: reason,
+            timestamp: Date.now(),
+            error: true,
+          },
+        ]);
+        setIsThinking(false);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullResponse = "";
-      let originalCode = currentCode;
-
-      if (reader) {
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            const chunk = decoder.decode(value);
-            fullResponse += chunk;
-          }
-
-          setMessages((prev) => prev.filter((msg) => !msg.thinking));
-          setIsThinking(false);
-
-          const cleanCode = fullResponse
-            .replace(/```[\w]*\n?/g, "")
-            .replace(/^import{/gm, "import {")
-            .replace(/(\s)\s+/g, "$1")
-            .trim();
-
-          const finalCode =
-            cleanCode.includes("import React") || !cleanCode.includes("React")
-              ? cleanCode
-              : `import React from 'react';\n${cleanCode}`;
+      if (!response.body) {
+        throw new Error("No response body received");
+      }
 
-          const validation = validateCode(finalCode);
+      const { text: fullResponse, analytics } = await streamReader(
+        response.body,
+      );
+      // Tokens were spent even if the code fails validation below
+      if (analytics) {
+        onAnalyticsUpdate?.(analytics);
+      }
 
-          if (validation.isValid) {
-            onUpdateCode(finalCode);
-            setLastError(null);
-            setRetryCount(0);
+      let originalCode = currentCode;
 
-            await updateAnalytics(finalCode);
+      setMessages((prev) => prev.filter((msg) => !msg.thinking));
+      setIsThinking(false);
 
-            // Generate change description using the AI
-            const descriptionPrompt = `
+      const cleanCode = fullResponse
+        .replace(/```[\w]*\n?/g, "")
+        .replace(/^import{/gm, "import {")
+        .replace(/(\s)\s+/g, "$1")
+        .trim();
+
+      const finalCode =
+        cleanCode.includes("import React") || !cleanCode.includes("React")
+          ? cleanCode
+          : `import React from 'react';\n${cleanCode}`;
+
+      const syntaxValidation = validateCode(finalCode);
+      const validation = syntaxValidation.isValid
+        ? await checkTypes(finalCode)
+        : syntaxValidation;
+
+      if (validation.isValid) {
+        onUpdateCode(finalCode, inputMessage);
+        setConversation([
+          ...history,
+          { role: "user", content: inputMessage },
+          { role: "assistant", content: finalCode },
+        ]);
+        setLastError(null);
+        setRetryCount(0);
+
+        // Generate change description using the AI
+        const descriptionPrompt = `
   You are explaining changes made to a React component. The user requested: "${inputMessage}"
   
   Original code and updated code are provided. Analyze what specific changes were made and respond naturally about what was done.
   Be specific but conversational. Focus on what changed visually or functionally. Don't mention technical details unless relevant.
   
   Format response to end with a question about if they want any adjustments or what else they need.
+
+  Original code:
+  ${originalCode}
+
+  Updated code:
+  ${finalCode}
   `;
 
-            const descriptionResponse = await fetch("/api/generateCode", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                model,
-                messages: [
-                  {
-                    role: "user",
-                    content: descriptionPrompt,
-                  },
-                ],
-                settings: {
-                  ...settings,
-                  temperature: 0.7,
-                },
-              }),
-            });
-
-            if (descriptionResponse.ok) {
-              const descriptionReader = descriptionResponse.body?.getReader();
-              let changeDescription = "";
-
-              if (descriptionReader) {
-                while (true) {
-                  const { done, value } = await descriptionReader.read();
-                  if (done) break;
-                  changeDescription += decoder.decode(value);
-                }
-                descriptionReader.releaseLock();
-
-                setMessages((prev) => [
-                  ...prev.filter((msg) => !msg.thinking),
-                  {
-                    id: generateMessageId(),
-                    role: "assistant",
-                    content: changeDescription.trim(),
-                    timestamp: Date.now(),
-                  },
-                ]);
-              }
-            } else {
-              setMessages((prev) => [
-                ...prev.filter((msg) => !msg.thinking),
-                {
-                  id: generateMessageId(),
-                  role: "assistant",
-                  content:
-                    "I've updated the code according to your request. Would you like me to make any adjustments?",
-                  timestamp: Date.now(),
-                },
-              ]);
-            }
-          } else {
-            if (retryCount < 2) {
-              setRetryCount((prev) => prev + 1);
-              setLastError(validation.error || "Code validation failed");
-
-              setMessages((prev) => [
-                ...prev,
-                {
-                  id: generateMessageId(),
-                  role: "assistant",
-                  content: `I'm refining the code to fix: ${validation.error}. One moment please...`,
-                  timestamp: Date.now(),
-                },
-              ]);
-
-              setTimeout(() => {
-                const retryMessage: ChatMessage = {
-                  id: generateMessageId(),
-                  role: "user",
-                  content: `Please fix the following issue: ${validation.error}. Ensure the code is complete and properly formatted.`,
-                  timestamp: Date.now(),
-                };
-                setMessages((prev) => [...prev, retryMessage]);
-                
-                handleSubmit({ preventDefault: () => {} } as React.FormEvent);
-              }, 1000);
-            } else {
-              setRetryCount(0);
-              setLastError(null);
-              setMessages((prev) => [
-                ...prev,
-                {
-                  id: generateMessageId(),
-                  role: "assistant",
-                  content: `I'm having trouble generating valid code. Could you please try:
+        try {
+          const descriptionStream = await processChatMessage({
+            model,
+            messages: [
+              {
+                id: generateMessageId(),
+                role: "user",
+                content: descriptionPrompt,
+                timestamp: Date.now(),
+              },
+            ],
+            settings: {
+              ...settings,
+              temperature: 0.7,
+            },
+          });
+          const { text: changeDescription } =
+            await streamReader(descriptionStream);
+
+          setMessages((prev) => [
+            ...prev.filter((msg) => !msg.thinking),
+            {
+              id: generateMessageId(),
+              role: "assistant",
+              content: changeDescription.trim(),
+              timestamp: Date.now(),
+            },
+          ]);
+        } catch (error) {
+          console.error("Error describing changes:", error);
+          setMessages((prev) => [
+            ...prev.filter((msg) => !msg.thinking),
+            {
+              id: generateMessageId(),
+              role: "assistant",
+              content:
+                "I've updated the code according to your request. Would you like me to make any adjustments?",
+              timestamp: Date.now(),
+            },
+          ]);
+        }
+      } else {
+        if (retryCount < 2) {
+          setRetryCount((prev) => prev + 1);
+          setLastError(validation.error || "Code validation failed");
+
+          setMessages((prev) => [
+            ...prev,
+            {
+              id: generateMessageId(),
+              role: "assistant",
+              content: `I'm refining the code to fix: ${validation.error}. One moment please...`,
+              timestamp: Date.now(),
+            },
+          ]);
+
+          setTimeout(() => {
+            const retryMessage: ChatMessage = {
+              id: generateMessageId(),
+              role: "user",
+              content: `Please fix the following issue: ${validation.error}. Ensure the code is complete and properly formatted.`,
+              timestamp: Date.now(),
+            };
+            setMessages((prev) => [...prev, retryMessage]);
+            
+            handleSubmit({ preventDefault: () => {} } as React.FormEvent);
+          }, 1000);
+        } else {
+          setRetryCount(0);
+          setLastError(null);
+          setMessages((prev) => [
+            ...prev,
+            {
+              id: generateMessageId(),
+              role: "assistant",
+              content: `I'm having trouble generating valid code. Could you please try:
   1. Describing the specific changes needed
   2. Breaking down the request into smaller steps
   3. Providing any error messages you're seeing`,
-                  timestamp: Date.now(),
-                  error: true,
-                },
-              ]);
-            }
-          }
-        } finally {
-          reader.releaseLock();
+              timestamp: Date.now(),
+              error: true,
+            },
+          ]);
         }
       }
     } catch (error) {
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Boxes, Loader2 } from 'lucide-react';
 import * as Popover from '@radix-ui/react-popover';
+import { parseProjectFiles } from '@/utils/project-files';
 
 interface CodeSandboxExportProps {
   code: string;
@@ -53,9 +54,12 @@ const CodeSandboxExport: React.FC<CodeSandboxExportProps> = ({
         "tsconfig.json": {
           content: JSON.stringify(tsConfig, null, 2)
         },
-        "src/App.tsx": {
-          content: code
-        },
+        ...Object.fromEntries(
+          Object.entries(parseProjectFiles(code)).map(([path, content]) => [
+            `src${path}`,
+            { content }
+          ])
+        ),
         "src/index.tsx": {
           content: `import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
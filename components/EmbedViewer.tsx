@@ -0,0 +1,49 @@
+"use client";
+
+import {
+  SandpackCodeEditor,
+  SandpackLayout,
+  SandpackPreview,
+  SandpackProvider,
+} from "@codesandbox/sandpack-react";
+import { dracula as draculaTheme } from "@codesandbox/sandpack-themes";
+import { sandpackDependencies, sharedFiles } from "@/utils/sandpack-files";
+import { ENTRY_FILE, parseProjectFiles } from "@/utils/project-files";
+import { EmbedOptions } from "@/types";
+
+interface EmbedViewerProps {
+  code: string;
+  options: EmbedOptions;
+}
+
+// Just the running app, sized to fill an iframe
+export default function EmbedViewer({ code, options }: EmbedViewerProps) {
+  const { height, theme, showCode } = options;
+  const projectFiles = parseProjectFiles(code);
+
+  return (
+    <SandpackProvider
+      template="react-ts"
+      theme={theme === "dark" ? draculaTheme : "light"}
+      files={{ ...sharedFiles, ...projectFiles }}
+      customSetup={{ dependencies: sandpackDependencies }}
+      options={{
+        externalResources: [
+          "https://unpkg.com/@tailwindcss/ui/dist/tailwind-ui.min.css",
+        ],
+        visibleFiles: Object.keys(projectFiles),
+        activeFile: ENTRY_FILE,
+      }}
+    >
+      <SandpackLayout style={{ height, borderRadius: 0, border: 0 }}>
+        {showCode && (
+          <SandpackCodeEditor showTabs readOnly style={{ height, flexGrow: 1 }} />
+        )}
+        <SandpackPreview
+          showOpenInCodeSandbox={false}
+          style={{ height, flexGrow: 1 }}
+        />
+      </SandpackLayout>
+    </SandpackProvider>
+  );
+}
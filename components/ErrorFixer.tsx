@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Wand2, Brain, AlertCircle } from 'lucide-react';
-import { createErrorFixer } from '@/utils/error-fix-chain';
+import { streamFixWithAnalysis } from '@/services/api';
 import { AI_PROVIDERS } from '@/config/ai-providers';
 import { CodeError } from '@/types/services/error-fix';
 
 interface ErrorFixerProps {
   error: string | null;
   model: string;
+  appId: string;
   code: string;
   onFixComplete: (fixedCode: string) => void;
 }
@@ -23,6 +24,7 @@ interface ErrorFixingState {
 const ErrorFixer: React.FC<ErrorFixerProps> = ({
   error,
   model,
+  appId,
   code,
   onFixComplete,
 }) => {
@@ -81,25 +83,22 @@ const ErrorFixer: React.FC<ErrorFixerProps> = ({
 
     try {
       const provider = getProviderFromModel(model);
-      const stream = await createErrorFixer({
-        provider,
-        model,
-        apiKey: '',
-        code,
-        error,
-        errorDetails: errorDetails || undefined
-      });
-
-      let fixedCode = '';
-      for await (const chunk of stream) {
-        fixedCode += chunk;
-        setFixingState(prev => ({
+      const { fixed_code: fixedCode = '' } = await streamFixWithAnalysis(
+        {
+          provider,
+          model,
+          generatedAppId: appId,
+          code,
+          error,
+          errorDetails: errorDetails || undefined
+        },
+        (analysis) => setFixingState(prev => ({ ...prev, isAnalyzing: false, analysis })),
+        (chunk) => setFixingState(prev => ({
           ...prev,
-          isAnalyzing: false,
           progress: Math.min((prev.progress || 0) + 5, 90),
-          fixProgress: fixedCode
-        }));
-      }
+          fixProgress: prev.fixProgress + chunk
+        }))
+      );
 
       if (fixedCode.trim()) {
         onFixComplete(fixedCode.trim());
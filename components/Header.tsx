@@ -1,6 +1,7 @@
 import Image from "next/image";
 import Link from "next/link";
 import logo from "../public/logo.svg";
+import AccountMenu from "./AccountMenu";
 
 export default function Header() {
   return (
@@ -11,6 +12,21 @@ export default function Header() {
           <span className="text-blue-500">Nexa</span>Forge
         </h1>
       </Link>
+      <div className="absolute right-4 top-1/2 flex -translate-y-1/2 items-center gap-4 sm:right-6">
+        <Link
+          href="/analytics"
+          className="text-sm font-medium text-white/80 transition hover:text-cyan-300"
+        >
+          Analytics
+        </Link>
+        <Link
+          href="/shares"
+          className="text-sm font-medium text-white/80 transition hover:text-cyan-300"
+        >
+          Shares
+        </Link>
+        <AccountMenu />
+      </div>
     </header>
   );
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+import React from 'react';
+import { AlertCircle, Crown, Loader2, Timer, Trophy, Zap } from 'lucide-react';
+import CodeViewer from '@/components/code-viewer';
+import { AISettings, TokenAnalyticsResponse } from '@/types';
+
+// One model's generation in a comparison run, as it streams in
+export interface ComparisonRun {
+  // Select value of the model, used to switch to it once picked
+  model: string;
+  label: string;
+  code: string;
+  status: 'streaming' | 'done' | 'failed';
+  error?: string;
+  appId?: string;
+  analytics?: TokenAnalyticsResponse;
+}
+
+interface ModelComparisonProps {
+  prompt: string;
+  runs: ComparisonRun[];
+  settings: AISettings;
+  onPick: (run: ComparisonRun) => void;
+}
+
+const formatNumber = (num: number) => new Intl.NumberFormat().format(num);
+
+const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+
+const formatLatency = (latencyMs: number) => `${(latencyMs / 1000).toFixed(1)}s`;
+
+// The run with the lowest value of a metric, once more than one has finished
+function bestRun(runs: ComparisonRun[], metric: (analytics: TokenAnalyticsResponse) => number | null) {
+  const measured = runs.filter((run) => run.analytics && metric(run.analytics) !== null);
+  if (measured.length < 2) return null;
+
+  return measured.reduce((best, run) =>
+    metric(run.analytics!)! < metric(best.analytics!)! ? run : best
+  );
+}
+
+export default function ModelComparison({ prompt, runs, settings, onPick }: ModelComparisonProps) {
+  const fastest = bestRun(runs, (analytics) => analytics.latencyMs);
+  const cheapest = bestRun(runs, (analytics) => analytics.cost);
+
+  return (
+    <div className="w-full space-y-4">
+      <p className="text-left text-sm text-white/80">
+        Comparing {runs.length} models · pick one to continue refining it in chat
+      </p>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {runs.map((run) => (
+          <div
+            key={run.model}
+            className="flex flex-col overflow-hidden rounded-lg border border-white/60 bg-white/70 text-left shadow-lg backdrop-blur-[2px]"
+          >
+            <div className="flex items-center gap-2 border-b border-gray-200 px-4 py-3">
+              <span className="font-medium text-gray-800">{run.label}</span>
+              {run.status === 'streaming' && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+              {run === fastest && (
+                <span className="flex items-center gap-1 rounded-full bg-cyan-500 px-2 py-0.5 text-xs text-white">
+                  <Zap className="h-3 w-3" />
+                  Fastest
+                </span>
+              )}
+              {run === cheapest && (
+                <span className="flex items-center gap-1 rounded-full bg-emerald-500 px-2 py-0.5 text-xs text-white">
+                  <Crown className="h-3 w-3" />
+                  Cheapest
+                </span>
+              )}
+              <button
+                onClick={() => onPick(run)}
+                disabled={run.status !== 'done' || !run.appId}
+                className="ml-auto flex items-center gap-1 rounded-md bg-cyan-500 px-3 py-1 text-sm text-white hover:bg-cyan-600 disabled:opacity-50"
+              >
+                <Trophy className="h-4 w-4" />
+                Continue with this
+              </button>
+            </div>
+
+            {run.analytics && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 px-4 py-2 text-xs text-gray-600">
+                <span>
+                  {formatNumber(run.analytics.totalTokens)} tokens
+                  {run.analytics.isEstimated && ' (est.)'}
+                </span>
+                <span>{formatCost(run.analytics.cost)}</span>
+                {run.analytics.latencyMs !== null && (
+                  <span className="flex items-center gap-1">
+                    <Timer className="h-3 w-3" />
+                    {formatLatency(run.analytics.latencyMs)}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {run.status === 'failed' ? (
+              <p className="m-4 flex items-center gap-2 rounded-lg bg-red-100/80 p-3 text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {run.error ?? 'Generation failed'}
+              </p>
+            ) : run.status === 'streaming' ? (
+              // Only the tail is shown; the preview mounts once the code is complete
+              <pre className="h-[400px] overflow-hidden whitespace-pre-wrap bg-gray-900 p-4 font-mono text-xs text-gray-100">
+                {run.code.split('\n').slice(-30).join('\n')}
+              </pre>
+            ) : (
+              <CodeViewer code={run.code} model={run.model} prompt={prompt} settings={settings} />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
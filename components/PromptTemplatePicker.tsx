@@ -0,0 +1,267 @@
+import React, { useState } from "react";
+import { ArrowLeft, BookMarked, Loader2, Plus, Trash2, Wand2 } from "lucide-react";
+import * as Popover from "@radix-ui/react-popover";
+import {
+  createPromptTemplate,
+  deletePromptTemplate,
+  fetchPromptTemplates,
+} from "@/services/api";
+import { fillTemplate } from "@/utils/prompt-templates";
+import { PromptTemplateSummary } from "@/types";
+
+interface PromptTemplatePickerProps {
+  currentPrompt: string;
+  disabled?: boolean;
+  onUse: (prompt: string) => void;
+  // Sends the filled template through prompt refinement first
+  onRefine: (prompt: string) => void;
+}
+
+type View =
+  | { name: "list" }
+  | { name: "fill"; template: PromptTemplateSummary }
+  | { name: "save" };
+
+const inputClass =
+  "w-full rounded-lg bg-white px-3 py-2 text-sm text-gray-800 placeholder:text-gray-500";
+
+const PromptTemplatePicker: React.FC<PromptTemplatePickerProps> = ({
+  currentPrompt,
+  disabled,
+  onUse,
+  onRefine,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [view, setView] = useState<View>({ name: "list" });
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState({ name: "", description: "", body: "" });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) return;
+    setView({ name: "list" });
+    run(async () => setTemplates(await fetchPromptTemplates()));
+  };
+
+  const startFill = (template: PromptTemplateSummary) => {
+    setValues({});
+    setView({ name: "fill", template });
+  };
+
+  const startSave = () => {
+    setDraft({ name: "", description: "", body: currentPrompt });
+    setView({ name: "save" });
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      const template = await createPromptTemplate({
+        name: draft.name,
+        description: draft.description || undefined,
+        body: draft.body,
+      });
+      setTemplates((prev) =>
+        [...prev, template].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+      setView({ name: "list" });
+    });
+
+  const handleDelete = (id: string) =>
+    run(async () => {
+      await deletePromptTemplate(id);
+      setTemplates((prev) => prev.filter((template) => template.id !== id));
+    });
+
+  const finish = (send: (prompt: string) => void, prompt: string) => {
+    send(prompt);
+    setOpen(false);
+  };
+
+  const renderFill = (template: PromptTemplateSummary) => {
+    const filled = fillTemplate(template.body, values);
+    const complete = template.variables.every((name) => values[name]?.trim());
+
+    return (
+      <div className="space-y-3">
+        {template.variables.map((name) => (
+          <label key={name} className="block space-y-1 text-sm text-blue-400">
+            <span>{name}</span>
+            <input
+              value={values[name] ?? ""}
+              onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <p className="max-h-32 overflow-y-auto whitespace-pre-wrap rounded-lg bg-white/5 p-2 text-xs text-white/70">
+          {filled}
+        </p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => finish(onUse, filled)}
+            disabled={!complete}
+            className="flex-1 rounded-lg bg-blue-500 px-3 py-2 text-sm text-white hover:bg-blue-600 disabled:opacity-50"
+          >
+            Use prompt
+          </button>
+          <button
+            type="button"
+            onClick={() => finish(onRefine, filled)}
+            disabled={!complete}
+            className="flex flex-1 items-center justify-center gap-1 rounded-lg border border-white/20 px-3 py-2 text-sm text-white hover:bg-white/10 disabled:opacity-50"
+          >
+            <Wand2 className="h-4 w-4 text-emerald-300" />
+            Refine & use
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSave = () => (
+    <div className="space-y-3">
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+        placeholder="Template name..."
+        className={inputClass}
+      />
+      <input
+        value={draft.description}
+        onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+        placeholder="Description (optional)"
+        className={inputClass}
+      />
+      <textarea
+        rows={4}
+        value={draft.body}
+        onChange={(e) => setDraft((prev) => ({ ...prev, body: e.target.value }))}
+        placeholder="A dashboard for {{business}} with charts of {{metrics}}"
+        className={`${inputClass} resize-none`}
+      />
+      <p className="text-xs text-white/50">
+        Wrap the parts that change in double braces, like {"{{topic}}"}.
+      </p>
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isLoading || !draft.name.trim() || !draft.body.trim()}
+        className="w-full rounded-lg bg-blue-500 px-3 py-2 text-sm text-white hover:bg-blue-600 disabled:opacity-50"
+      >
+        Save template
+      </button>
+    </div>
+  );
+
+  const renderList = () => (
+    <div className="space-y-2">
+      {templates.length === 0 && !isLoading && (
+        <p className="text-sm text-white/60">No templates yet.</p>
+      )}
+      {templates.map((template) => (
+        <div
+          key={template.id}
+          className="flex items-start gap-2 rounded-lg p-2 text-left hover:bg-white/10"
+        >
+          <button
+            type="button"
+            onClick={() => startFill(template)}
+            className="min-w-0 flex-1 text-left"
+          >
+            <p className="truncate text-sm font-medium text-white">{template.name}</p>
+            <p className="truncate text-xs text-white/60">
+              {template.description ||
+                `${template.variables.length} variable${template.variables.length === 1 ? "" : "s"}`}
+            </p>
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDelete(template.id)}
+            disabled={isLoading}
+            className="rounded p-1 text-white/50 hover:text-red-300 disabled:opacity-50"
+            title="Delete template"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={startSave}
+        disabled={!currentPrompt.trim()}
+        className="flex w-full items-center justify-center gap-1 rounded-lg border border-white/20 px-3 py-2 text-sm text-white hover:bg-white/10 disabled:opacity-50"
+      >
+        <Plus className="h-4 w-4" />
+        Save current prompt as template
+      </button>
+    </div>
+  );
+
+  return (
+    <Popover.Root open={open} onOpenChange={handleOpenChange}>
+      <Popover.Trigger asChild>
+        <button
+          type="button"
+          disabled={disabled}
+          className="group rounded-lg p-2 transition-all duration-200 hover:bg-white/30 disabled:opacity-50"
+          title="Prompt Templates"
+        >
+          <BookMarked className="h-5 w-5 text-cyan-300 group-hover:text-cyan-200" />
+        </button>
+      </Popover.Trigger>
+
+      <Popover.Portal>
+        <Popover.Content
+          className="z-50 w-96 rounded-lg border border-gray-400 bg-gray-800/90 p-4 text-left shadow-md backdrop-blur-sm"
+          side="left"
+          sideOffset={8}
+        >
+          <div className="mb-3 flex items-center gap-2">
+            {view.name !== "list" && (
+              <button
+                type="button"
+                onClick={() => setView({ name: "list" })}
+                className="rounded p-1 text-white/70 hover:text-white"
+                title="Back"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </button>
+            )}
+            <span className="flex-1 truncate text-sm font-medium text-white">
+              {view.name === "fill"
+                ? view.template.name
+                : view.name === "save"
+                  ? "New template"
+                  : "Prompt templates"}
+            </span>
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-white/70" />}
+          </div>
+
+          {view.name === "fill" && renderFill(view.template)}
+          {view.name === "save" && renderSave()}
+          {view.name === "list" && renderList()}
+
+          {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+};
+
+export default PromptTemplatePicker;
@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { countChanges, diffLines, DiffLine, DiffRow } from '@/utils/diff';
+import { parseProjectFiles } from '@/utils/project-files';
+
+interface RevisionDiffProps {
+  before: string;
+  after: string;
+}
+
+const LEFT_STYLES: Record<DiffRow['type'], string> = {
+  equal: '',
+  removed: 'bg-red-100',
+  added: 'bg-gray-100',
+  changed: 'bg-red-100'
+};
+
+const RIGHT_STYLES: Record<DiffRow['type'], string> = {
+  equal: '',
+  removed: 'bg-gray-100',
+  added: 'bg-green-100',
+  changed: 'bg-green-100'
+};
+
+function DiffCell({ line, className, divider = false }: {
+  line?: DiffLine;
+  className: string;
+  divider?: boolean;
+}) {
+  return (
+    <>
+      <td
+        className={`w-10 select-none px-2 text-right text-gray-400 ${divider ? 'border-l border-gray-200' : ''} ${className}`}
+      >
+        {line?.number}
+      </td>
+      <td className={`whitespace-pre px-2 ${className}`}>{line?.text}</td>
+    </>
+  );
+}
+
+// Side-by-side diff of two generated projects, one table per changed file
+export default function RevisionDiff({ before, after }: RevisionDiffProps) {
+  const files = useMemo(() => {
+    const beforeFiles = parseProjectFiles(before);
+    const afterFiles = parseProjectFiles(after);
+    const paths = Array.from(
+      new Set([...Object.keys(beforeFiles), ...Object.keys(afterFiles)])
+    );
+
+    return paths
+      .filter((path) => beforeFiles[path] !== afterFiles[path])
+      .map((path) => {
+        const rows = diffLines(beforeFiles[path] ?? '', afterFiles[path] ?? '');
+        return {
+          path,
+          status: !(path in beforeFiles) ? 'added' : !(path in afterFiles) ? 'deleted' : 'modified',
+          rows,
+          ...countChanges(rows)
+        };
+      });
+  }, [before, after]);
+
+  if (files.length === 0) {
+    return (
+      <p className="rounded-lg bg-white/70 p-4 text-center text-sm text-gray-600">
+        These revisions have identical code.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {files.map((file) => (
+        <div key={file.path} className="overflow-hidden rounded-lg bg-white/80 shadow">
+          <div className="flex items-center justify-between border-b border-gray-200 px-3 py-2 text-sm">
+            <span className="font-mono font-medium text-gray-800">
+              {file.path}
+              {file.status !== 'modified' && (
+                <span className="ml-2 text-xs font-normal text-gray-500">({file.status})</span>
+              )}
+            </span>
+            <span className="text-xs">
+              <span className="text-green-600">+{file.added}</span>{' '}
+              <span className="text-red-600">-{file.removed}</span>
+            </span>
+          </div>
+          <div className="max-h-96 overflow-auto">
+            <table className="w-full border-collapse font-mono text-xs text-gray-800">
+              <tbody>
+                {file.rows.map((row, index) => (
+                  <tr key={index}>
+                    <DiffCell line={row.left} className={LEFT_STYLES[row.type]} />
+                    <DiffCell line={row.right} className={RIGHT_STYLES[row.type]} divider />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
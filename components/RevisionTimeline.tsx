@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { GitCompare, History, Loader2, RotateCcw } from 'lucide-react';
+import RevisionDiff from '@/components/RevisionDiff';
+import { fetchRevisions, restoreRevision } from '@/services/api';
+import { Revision } from '@/types';
+
+interface RevisionTimelineProps {
+  appId: string;
+  // Bumped by the parent whenever it adds a revision
+  refreshKey: number;
+  onRestore: (code: string) => void;
+}
+
+const formatTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export default function RevisionTimeline({ appId, refreshKey, onRestore }: RevisionTimelineProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Up to two revision ids, compared oldest against newest
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchRevisions(appId)
+      .then((result) => {
+        if (cancelled) return;
+        setRevisions(result);
+        setError(null);
+        // Default to comparing the latest revision with the one before it
+        setSelected(result.slice(-2).map((revision) => revision.id));
+      })
+      .catch((err) => {
+        console.error('Error fetching revisions:', err);
+        if (!cancelled) setError('Failed to load version history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appId, refreshKey]);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleRestore = async (revision: Revision) => {
+    setRestoringId(revision.id);
+    try {
+      const restored = await restoreRevision(appId, revision.id);
+      setRevisions((prev) => [...prev, restored]);
+      setSelected([revision.id, restored.id]);
+      onRestore(restored.code);
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      setError('Failed to restore this version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const current = revisions[revisions.length - 1];
+  const compared = revisions.filter((revision) => selected.includes(revision.id));
+  const versionOf = (revision: Revision) => revisions.indexOf(revision) + 1;
+
+  return (
+    <div className="mb-4 rounded-lg border border-white/60 bg-white/70 text-left shadow-lg backdrop-blur-[2px]">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center gap-2 px-4 py-3 text-sm font-medium text-gray-800"
+      >
+        <History className="h-4 w-4 text-cyan-500" />
+        Version History
+        <span className="text-gray-500">
+          ({revisions.length} {revisions.length === 1 ? 'version' : 'versions'})
+        </span>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-4 border-t border-gray-200 p-4">
+          {error && (
+            <p className="rounded-lg bg-red-100/80 p-3 text-sm text-red-700">{error}</p>
+          )}
+
+          <ol className="max-h-64 space-y-2 overflow-y-auto">
+            {[...revisions].reverse().map((revision) => (
+              <li
+                key={revision.id}
+                className={`flex items-center gap-3 rounded-lg p-2 text-sm ${
+                  selected.includes(revision.id) ? 'bg-cyan-100/80' : 'bg-white/60'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(revision.id)}
+                  onChange={() => toggleSelected(revision.id)}
+                  title="Select to compare"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium text-gray-800" title={revision.prompt}>
+                    v{versionOf(revision)} · {revision.prompt}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatTime(revision.createdAt)} · {revision.model}
+                  </p>
+                </div>
+                {revision === current ? (
+                  <span className="rounded-full bg-cyan-500 px-2 py-0.5 text-xs text-white">
+                    Current
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoringId !== null}
+                    className="flex items-center gap-1 rounded-md px-2 py-1 text-xs text-gray-700 hover:bg-white disabled:opacity-50"
+                    title="Restore this version"
+                  >
+                    {restoringId === revision.id ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-3 w-3" />
+                    )}
+                    Restore
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {compared.length === 2 ? (
+            <div className="space-y-2">
+              <p className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <GitCompare className="h-4 w-4" />
+                v{versionOf(compared[0])} → v{versionOf(compared[1])}
+              </p>
+              <RevisionDiff before={compared[0].code} after={compared[1].code} />
+            </div>
+          ) : (
+            revisions.length > 1 && (
+              <p className="text-center text-sm text-gray-600">
+                Select two versions to compare them.
+              </p>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,27 @@
-import React, { useState, useEffect } from 'react';
-import { Save, Folder, Trash2, Clock, ChevronRight, Zap } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Save,
+  Folder,
+  FolderPlus,
+  Trash2,
+  Clock,
+  ChevronLeft,
+  ChevronRight,
+  Zap,
+  Search,
+  Tag
+} from 'lucide-react';
 import * as Popover from '@radix-ui/react-popover';
 import { useRouter } from 'next/navigation';
-
-interface Analytics {
-  modelName: string;
-  provider: string;
-  promptTokens: number;
-  responseTokens: number;
-  totalTokens: number;
-  maxTokens: number;
-  utilizationPercentage: number;
-}
-
-interface SavedGeneration {
-  id: string;
-  title: string;
-  description: string | null;
-  createdAt: string;
-  generatedApp: {
-    id: string;
-    code: string;
-    model: string;
-    prompt: string;
-    analytics: Analytics | null;
-  };
-}
+import {
+  createProject,
+  deleteGeneration as deleteSavedGeneration,
+  fetchProjects,
+  fetchSavedGenerations,
+  saveGeneration as saveSavedGeneration,
+  updateSavedGeneration
+} from '@/services/api';
+import { ProjectSummary, SavedGeneration, SavedGenerationSort } from '@/types';
 
 interface SavedGenerationsProps {
   currentGeneratedAppId: string | null;
@@ -36,6 +32,21 @@ interface SavedGenerationsProps {
   onLoad: (generation: SavedGeneration) => void;
 }
 
+const PAGE_SIZE = 10;
+
+// Sort and order pairs offered in the list, keyed by select value
+const SORT_OPTIONS: Record<string, { label: string; sort: SavedGenerationSort; order: 'asc' | 'desc' }> = {
+  newest: { label: 'Newest', sort: 'createdAt', order: 'desc' },
+  oldest: { label: 'Oldest', sort: 'createdAt', order: 'asc' },
+  title: { label: 'Title', sort: 'title', order: 'asc' },
+  cost: { label: 'Most expensive', sort: 'cost', order: 'desc' }
+};
+
+const parseTags = (value: string) =>
+  value.split(',').map((tag) => tag.trim()).filter(Boolean);
+
+const selectClassName = 'rounded-lg bg-white/5 px-2 py-2 text-sm text-white [&>option]:text-gray-900';
+
 const SavedGenerations: React.FC<SavedGenerationsProps> = ({
   currentGeneratedAppId,
   currentCode,
@@ -45,25 +56,90 @@ const SavedGenerations: React.FC<SavedGenerationsProps> = ({
   onLoad
 }) => {
   const [generations, setGenerations] = useState<SavedGeneration[]>([]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
   const [saveTitle, setSaveTitle] = useState('');
   const [saveDescription, setSaveDescription] = useState('');
+  const [saveProjectId, setSaveProjectId] = useState('');
+  const [saveTags, setSaveTags] = useState('');
+  const [newProjectName, setNewProjectName] = useState('');
+  const [projectError, setProjectError] = useState<string | null>(null);
   const [savePopoverOpen, setSavePopoverOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // List filters; the search box is debounced into `search`
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [projectFilter, setProjectFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState('newest');
+  const [page, setPage] = useState(1);
   const router = useRouter();
 
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
-  useEffect(() => {
-    fetchSavedGenerations();
+  const loadGenerations = useCallback(async () => {
+    try {
+      const { sort, order } = SORT_OPTIONS[sortKey];
+      const data = await fetchSavedGenerations({
+        search,
+        projectId: projectFilter || undefined,
+        tag: tagFilter ?? undefined,
+        sort,
+        order,
+        page,
+        pageSize: PAGE_SIZE
+      });
+      setGenerations(data.items);
+      setTotal(data.total);
+      setAvailableTags(data.tags);
+    } catch (error) {
+      console.error('Error fetching saved generations:', error);
+    }
+  }, [search, projectFilter, tagFilter, sortKey, page]);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      setProjects(await fetchProjects());
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
   }, []);
 
-  const fetchSavedGenerations = async () => {
+  useEffect(() => {
+    loadGenerations();
+  }, [loadGenerations]);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // Any filter change starts over from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const addProject = async () => {
+    const name = newProjectName.trim();
+    if (!name) return;
+
     try {
-      const response = await fetch('/api/saved-generations');
-      if (!response.ok) throw new Error('Failed to fetch saved generations');
-      const data = await response.json();
-      setGenerations(data);
+      const project = await createProject({ name });
+      setNewProjectName('');
+      setProjectError(null);
+      setSaveProjectId(project.id);
+      await loadProjects();
     } catch (error) {
-      console.error('Error fetching saved generations:', error);
+      setProjectError(error instanceof Error ? error.message : 'Failed to create project');
     }
   };
 
@@ -72,23 +148,20 @@ const SavedGenerations: React.FC<SavedGenerationsProps> = ({
 
     setIsLoading(true);
     try {
-      const response = await fetch('/api/saved-generations', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title: saveTitle,
-          description: saveDescription,
-          generatedAppId: currentGeneratedAppId,
-        }),
+      await saveSavedGeneration({
+        title: saveTitle,
+        description: saveDescription,
+        generatedAppId: currentGeneratedAppId,
+        projectId: saveProjectId || null,
+        tags: parseTags(saveTags)
       });
 
-      if (!response.ok) throw new Error('Failed to save generation');
-
       // Reset form and fetch updated list
       setSavePopoverOpen(false);
       setSaveTitle('');
       setSaveDescription('');
-      await fetchSavedGenerations();
+      setSaveTags('');
+      await Promise.all([loadGenerations(), loadProjects()]);
       router.refresh();
     } catch (error) {
       console.error('Error saving generation:', error);
@@ -97,15 +170,26 @@ const SavedGenerations: React.FC<SavedGenerationsProps> = ({
     }
   };
 
+  const moveGeneration = async (id: string, projectId: string) => {
+    try {
+      await updateSavedGeneration(id, { projectId: projectId || null });
+      await Promise.all([loadGenerations(), loadProjects()]);
+    } catch (error) {
+      console.error('Error moving generation:', error);
+    }
+  };
+
   const deleteGeneration = async (id: string) => {
     try {
-      const response = await fetch(`/api/saved-generations?id=${id}`, {
-        method: 'DELETE',
-      });
+      await deleteSavedGeneration(id);
 
-      if (!response.ok) throw new Error('Failed to delete generation');
-      
-      await fetchSavedGenerations();
+      // Step back when the last item of the last page was removed
+      if (generations.length === 1 && page > 1) {
+        setPage(page - 1);
+      } else {
+        await loadGenerations();
+      }
+      await loadProjects();
       router.refresh();
     } catch (error) {
       console.error('Error deleting generation:', error);
@@ -145,6 +229,44 @@ const SavedGenerations: React.FC<SavedGenerationsProps> = ({
                   placeholder="Add a description (optional)..."
                   className="h-20 w-full rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/50"
                 />
+                <select
+                  value={saveProjectId}
+                  onChange={(e) => setSaveProjectId(e.target.value)}
+                  className={`w-full ${selectClassName}`}
+                >
+                  <option value="">No project</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newProjectName}
+                    onChange={(e) => setNewProjectName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addProject()}
+                    placeholder="New project..."
+                    className="min-w-0 flex-1 rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/50"
+                  />
+                  <button
+                    onClick={addProject}
+                    disabled={!newProjectName.trim()}
+                    className="rounded-lg p-2 text-white/70 hover:bg-white/10 hover:text-white disabled:opacity-50"
+                    title="Create project"
+                  >
+                    <FolderPlus className="h-4 w-4" />
+                  </button>
+                </div>
+                {projectError && <p className="text-xs text-red-300">{projectError}</p>}
+                <input
+                  type="text"
+                  value={saveTags}
+                  onChange={(e) => setSaveTags(e.target.value)}
+                  placeholder="Tags, comma separated (optional)..."
+                  className="w-full rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/50"
+                />
                 <button
                   onClick={saveGeneration}
                   disabled={!saveTitle || isLoading}
@@ -172,9 +294,69 @@ const SavedGenerations: React.FC<SavedGenerationsProps> = ({
               className="z-50 w-96 rounded-lg border border-white/20 bg-white/10 p-4 backdrop-blur-lg"
               sideOffset={5}
             >
-              <div className="max-h-[70vh] space-y-4 overflow-y-auto">
+              <div className="mb-4 space-y-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/50" />
+                  <input
+                    type="search"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Search titles, prompts and code..."
+                    className="w-full rounded-lg bg-white/5 py-2 pl-9 pr-3 text-sm text-white placeholder:text-white/50"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    value={projectFilter}
+                    onChange={(e) => updateFilter(setProjectFilter)(e.target.value)}
+                    className={`min-w-0 flex-1 ${selectClassName}`}
+                  >
+                    <option value="">All projects</option>
+                    <option value="none">No project</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name} ({project.appCount})
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={sortKey}
+                    onChange={(e) => updateFilter(setSortKey)(e.target.value)}
+                    className={selectClassName}
+                  >
+                    {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+                      <option key={key} value={key}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {availableTags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {availableTags.map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={() => updateFilter(setTagFilter)(tagFilter === tag ? null : tag)}
+                        className={`rounded-full px-2 py-0.5 text-xs ${
+                          tagFilter === tag
+                            ? 'bg-blue-500 text-white'
+                            : 'bg-white/10 text-white/70 hover:bg-white/20'
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="max-h-[55vh] space-y-4 overflow-y-auto">
                 {generations.length === 0 ? (
-                  <p className="text-center text-sm text-white/70">No saved generations yet</p>
+                  <p className="text-center text-sm text-white/70">
+                    {search || projectFilter || tagFilter
+                      ? 'No saved generations match these filters'
+                      : 'No saved generations yet'}
+                  </p>
                 ) : (
                   generations.map((gen) => (
                     <div
@@ -215,11 +397,59 @@ const SavedGenerations: React.FC<SavedGenerationsProps> = ({
                             </span>
                           </div>
                         )}
+                        {gen.tags.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1 text-xs text-white/50">
+                            <Tag className="h-3 w-3" />
+                            {gen.tags.map((tag) => (
+                              <span key={tag} className="rounded-full bg-white/10 px-2 py-0.5">
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex items-center gap-2 text-xs text-white/50">
+                          <Folder className="h-3 w-3" />
+                          <select
+                            value={gen.project?.id ?? ''}
+                            onChange={(e) => moveGeneration(gen.id, e.target.value)}
+                            className="rounded bg-transparent text-xs text-white/70 [&>option]:text-gray-900"
+                            title="Move to project"
+                          >
+                            <option value="">No project</option>
+                            {projects.map((project) => (
+                              <option key={project.id} value={project.id}>
+                                {project.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
                       </div>
                     </div>
                   ))
                 )}
               </div>
+
+              {total > PAGE_SIZE && (
+                <div className="mt-4 flex items-center justify-between text-sm text-white/70">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="rounded p-1 hover:bg-white/10 hover:text-white disabled:opacity-50"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </button>
+                  <span>
+                    Page {page} of {pageCount} · {total} saved
+                  </span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pageCount}
+                    className="rounded p-1 hover:bg-white/10 hover:text-white disabled:opacity-50"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
             </Popover.Content>
           </Popover.Portal>
         </Popover.Root>
@@ -1,14 +1,15 @@
 import React, { useState } from "react";
-import { Share2, Check, Copy, Link, Clock, Lock, Eye } from "lucide-react";
+import { Share2, Link, Clock, Lock, Eye, QrCode, Ban, Code2 } from "lucide-react";
 import * as Popover from "@radix-ui/react-popover";
 import * as Switch from "@radix-ui/react-switch";
-import { AISettings } from '@/types';
+import Image from "next/image";
+import { createShare, fetchShares, revokeShare } from "@/services/api";
+import { DEFAULT_EMBED_OPTIONS, embedHtml, embedUrl } from "@/lib/embed";
+import { AISettings, ShareSummary } from '@/types';
 
 interface ShareCodeProps {
-  code: string;
-  prompt: string;
-  model: string;
-  settings: AISettings;
+  appId: string;
+  settings?: AISettings;
 }
 
 interface ShareOptions {
@@ -18,51 +19,68 @@ interface ShareOptions {
   generateQR?: boolean;
 }
 
-const ShareCode: React.FC<ShareCodeProps> = ({
-  code,
-  prompt,
-  model,
-  settings,
-}) => {
+const ShareCode: React.FC<ShareCodeProps> = ({ appId, settings }) => {
   const [copied, setCopied] = useState(false);
   const [shareUrl, setShareUrl] = useState<string>("");
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  // Protected shares can't be embedded, the password has nowhere to go
+  const [embedCode, setEmbedCode] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [shareOptions, setShareOptions] = useState<ShareOptions>({});
   const [showAdvanced, setShowAdvanced] = useState(false);
+  // Earlier links to this app, so old ones can be revoked
+  const [shares, setShares] = useState<ShareSummary[]>([]);
+
+  const loadShares = async () => {
+    try {
+      setShares(await fetchShares(appId));
+    } catch (error) {
+      console.error("Error fetching shares:", error);
+    }
+  };
 
   const generateShareUrl = async () => {
     setIsLoading(true);
+    setError(null);
     try {
-      const response = await fetch("/api/share", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          code,
-          prompt,
-          model,
-          settings,
-          ...shareOptions,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to generate share link");
-      }
-
-      const { id, qrCode } = await response.json();
-      const url = `${window.location.origin}/share/${id}`;
-      setShareUrl(url);
-      return { url, qrCode };
+      const share = await createShare({ appId, settings, ...shareOptions });
+      setShareUrl(share.url);
+      setQrCode(share.qrCode);
+      setEmbedCode(
+        share.isProtected
+          ? null
+          : embedHtml(
+              embedUrl(share.id, window.location.origin),
+              "100%",
+              DEFAULT_EMBED_OPTIONS.height,
+            ),
+      );
+      loadShares();
+      return share;
     } catch (error) {
       console.error("Error generating share URL:", error);
+      setError(error instanceof Error ? error.message : "Failed to generate share link");
       return null;
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleRevoke = async (id: string) => {
+    try {
+      await revokeShare(id);
+      if (shareUrl.endsWith(`/share/${id}`)) {
+        setShareUrl("");
+        setQrCode(null);
+        setEmbedCode(null);
+      }
+      loadShares();
+    } catch (error) {
+      console.error("Error revoking share:", error);
+    }
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -82,7 +100,7 @@ const ShareCode: React.FC<ShareCodeProps> = ({
 
   return (
     <div className="inline-block">
-      <Popover.Root>
+      <Popover.Root onOpenChange={(open) => open && loadShares()}>
         <Popover.Trigger asChild>
           <button className="flex items-center gap-2 rounded-lg border border-white/20 bg-white/10 px-4 py-2 text-sm text-white backdrop-blur-lg transition-colors hover:bg-white/20">
             <Share2 className="h-4 w-4" />
@@ -123,7 +141,7 @@ const ShareCode: React.FC<ShareCodeProps> = ({
                       onChange={(e) =>
                         setShareOptions((prev) => ({
                           ...prev,
-                          password: e.target.value,
+                          password: e.target.value || undefined,
                         }))
                       }
                     />
@@ -144,12 +162,29 @@ const ShareCode: React.FC<ShareCodeProps> = ({
                       onChange={(e) =>
                         setShareOptions((prev) => ({
                           ...prev,
-                          expiresIn: parseInt(e.target.value),
+                          expiresIn: parseInt(e.target.value) || undefined,
                         }))
                       }
                     />
                   </div>
 
+                  {/* QR Code */}
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm text-blue-400">
+                      <QrCode className="h-4 w-4 text-blue-400" />
+                      QR Code
+                    </label>
+                    <Switch.Root
+                      checked={!!shareOptions.generateQR}
+                      onCheckedChange={(generateQR) =>
+                        setShareOptions((prev) => ({ ...prev, generateQR }))
+                      }
+                      className="relative h-6 w-11 rounded-full bg-white/20 transition-colors data-[state=checked]:bg-blue-500"
+                    >
+                      <Switch.Thumb className="block h-4 w-4 translate-x-1 rounded-full bg-white transition-transform data-[state=checked]:translate-x-6" />
+                    </Switch.Root>
+                  </div>
+
                   {/* View Limit */}
                   <div className="space-y-2">
                     <label className="flex items-center gap-2 text-sm text-blue-400">
@@ -164,7 +199,7 @@ const ShareCode: React.FC<ShareCodeProps> = ({
                       onChange={(e) =>
                         setShareOptions((prev) => ({
                           ...prev,
-                          allowedViews: parseInt(e.target.value),
+                          allowedViews: parseInt(e.target.value) || undefined,
                         }))
                       }
                     />
@@ -189,6 +224,57 @@ const ShareCode: React.FC<ShareCodeProps> = ({
                     readOnly
                     className="flex-1 bg-transparent text-sm text-white/70 outline-none"
                   />
+                  {embedCode && (
+                    <button
+                      onClick={() => copyToClipboard(embedCode)}
+                      className="rounded p-1 text-white/70 hover:text-white"
+                      title="Copy embed code"
+                    >
+                      <Code2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              {qrCode && (
+                <Image
+                  src={qrCode}
+                  alt="QR Code"
+                  width={160}
+                  height={160}
+                  className="mx-auto rounded"
+                />
+              )}
+
+              {shares.length > 0 && (
+                <div className="space-y-1 border-t border-white/10 pt-3">
+                  <span className="text-xs text-white/50">Links to this app</span>
+                  {shares.map((share) => (
+                    <div key={share.id} className="flex items-center gap-2 text-xs text-white/70">
+                      {share.isProtected && <Lock className="h-3 w-3 shrink-0" />}
+                      <span className={`flex-1 truncate ${share.status !== "active" ? "line-through" : ""}`}>
+                        /share/{share.id}
+                      </span>
+                      <span className="text-white/40">
+                        {share.status !== "active"
+                          ? share.status
+                          : share.remainingViews !== null
+                            ? `${share.remainingViews} views left`
+                            : new Date(share.createdAt).toLocaleDateString()}
+                      </span>
+                      {!share.revokedAt && (
+                        <button
+                          onClick={() => handleRevoke(share.id)}
+                          className="rounded p-1 text-white/60 hover:text-red-300"
+                          title="Revoke link"
+                        >
+                          <Ban className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
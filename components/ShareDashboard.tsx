@@ -0,0 +1,296 @@
+import React, { Fragment, useEffect, useState } from 'react';
+import { Ban, Copy, History, Link2, Loader2, Lock } from 'lucide-react';
+import { fetchShareAccess, fetchShares, revokeShare, updateShare } from '@/services/api';
+import {
+  ShareAccessEntry,
+  ShareAccessOutcome,
+  ShareStatus,
+  ShareSummary,
+  UpdateShareRequest
+} from '@/types';
+
+const EXTEND_HOURS = 24;
+const TOP_UP_VIEWS = 10;
+
+const STATUS_STYLES: Record<ShareStatus, string> = {
+  active: 'bg-emerald-100 text-emerald-700',
+  expired: 'bg-amber-100 text-amber-700',
+  exhausted: 'bg-amber-100 text-amber-700',
+  revoked: 'bg-gray-200 text-gray-600'
+};
+
+const OUTCOME_LABELS: Record<ShareAccessOutcome, string> = {
+  viewed: 'Viewed',
+  invalid_password: 'Wrong password',
+  locked: 'Blocked: too many wrong passwords',
+  revoked: 'Blocked: revoked',
+  expired: 'Blocked: expired',
+  exhausted: 'Blocked: no views left'
+};
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+function AccessLog({ shareId }: { shareId: string }) {
+  const [entries, setEntries] = useState<ShareAccessEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchShareAccess(shareId)
+      .then(setEntries)
+      .catch((err) => {
+        console.error('Error fetching access log:', err);
+        setError('Failed to load access log');
+      });
+  }, [shareId]);
+
+  if (error) return <p className="text-sm text-red-700">{error}</p>;
+  if (!entries) return <Loader2 className="h-4 w-4 animate-spin text-gray-500" />;
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-600">Nobody has opened this link yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-left text-xs text-gray-700">
+      <thead className="uppercase text-gray-500">
+        <tr>
+          <th className="py-1 pr-4">When</th>
+          <th className="py-1 pr-4">Outcome</th>
+          <th className="py-1 pr-4">Client</th>
+          <th className="py-1">Network</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => (
+          <tr key={entry.id} className="border-t border-gray-200">
+            <td className="py-1 pr-4">{formatDate(entry.createdAt)}</td>
+            <td
+              className={`py-1 pr-4 ${entry.outcome === 'viewed' ? '' : 'text-red-700'}`}
+            >
+              {OUTCOME_LABELS[entry.outcome]}
+            </td>
+            <td className="py-1 pr-4">{entry.client ?? 'Unknown'}</td>
+            <td className="py-1">{entry.ipPrefix ?? 'Unknown'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function ShareDashboard() {
+  const [shares, setShares] = useState<ShareSummary[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ShareStatus | 'all'>('all');
+  const [openLog, setOpenLog] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchShares()
+      .then(setShares)
+      .catch((err) => {
+        console.error('Error fetching shares:', err);
+        setError('Failed to load shared links');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusy(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpdate = (id: string, params: UpdateShareRequest) =>
+    run(id, async () => {
+      const updated = await updateShare(id, params);
+      setShares((prev) => prev.map((share) => (share.id === id ? updated : share)));
+    });
+
+  const handleRevoke = (id: string) =>
+    run(id, async () => {
+      await revokeShare(id);
+      setShares(await fetchShares());
+    });
+
+  const handleCopy = async (id: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/share/${id}`);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const visible =
+    statusFilter === 'all' ? shares : shares.filter((share) => share.status === statusFilter);
+
+  return (
+    <div className="w-full max-w-5xl space-y-6 px-4">
+      <div className="flex flex-col gap-4 rounded-lg border border-white/60 bg-white/70 p-4 shadow-lg backdrop-blur-[2px] sm:flex-row sm:items-end sm:justify-between">
+        <div className="flex items-center gap-2">
+          <Link2 className="h-5 w-5 text-cyan-500" strokeWidth={2.5} />
+          <h2 className="text-lg font-semibold text-gray-800">Shared Links</h2>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Status
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ShareStatus | 'all')}
+            className="rounded-md border border-gray-300 bg-white/80 px-2 py-1"
+          >
+            <option value="all">All</option>
+            {Object.keys(STATUS_STYLES).map((status) => (
+              <option key={status} value={status}>
+                {status[0].toUpperCase() + status.slice(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <p className="rounded-lg bg-red-100/80 p-3 text-sm text-red-700">{error}</p>
+      )}
+
+      {visible.length > 0 ? (
+        <div className="overflow-x-auto rounded-lg bg-white/70 p-4 shadow">
+          <table className="w-full text-left text-sm text-gray-700">
+            <thead className="text-xs uppercase text-gray-500">
+              <tr>
+                <th className="py-2 pr-4">App</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Expires</th>
+                <th className="py-2 pr-4 text-right">Views</th>
+                <th className="py-2 pr-4">Created</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((share) => (
+                <Fragment key={share.id}>
+                  <tr className="border-t border-gray-200">
+                    <td className="max-w-xs py-2 pr-4">
+                      <div className="flex items-center gap-1">
+                        {share.isProtected && (
+                          <Lock className="h-3 w-3 shrink-0 text-gray-500" />
+                        )}
+                        <span className="truncate font-medium text-gray-800" title={share.prompt}>
+                          {share.prompt}
+                        </span>
+                      </div>
+                      <span className="text-xs text-gray-500">/share/{share.id}</span>
+                    </td>
+                    <td className="py-2 pr-4">
+                      <span className={`rounded-full px-2 py-0.5 text-xs ${STATUS_STYLES[share.status]}`}>
+                        {share.status}
+                      </span>
+                      {share.lockedUntil && (
+                        <span
+                          className="ml-1 text-xs text-red-700"
+                          title="Too many wrong passwords"
+                        >
+                          locked until {new Date(share.lockedUntil).toLocaleTimeString()}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{share.expiresAt ? formatDate(share.expiresAt) : 'Never'}</td>
+                    <td className="py-2 pr-4 text-right">
+                      {share.views}
+                      {share.allowedViews !== null && (
+                        <span className="text-gray-500">
+                          {' '}
+                          ({share.remainingViews} of {share.allowedViews} left)
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{formatDate(share.createdAt)}</td>
+                    <td className="py-2">
+                      <div className="flex items-center justify-end gap-1 text-xs">
+                        <button
+                          onClick={() => handleCopy(share.id)}
+                          className="rounded p-1 text-gray-600 hover:bg-gray-200"
+                          title="Copy link"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </button>
+                        {share.status !== 'revoked' && (
+                          <>
+                            <button
+                              onClick={() => handleUpdate(share.id, { expiresIn: EXTEND_HOURS })}
+                              disabled={busy !== null}
+                              className="rounded px-2 py-1 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                              title={`Expire ${EXTEND_HOURS} hours from now`}
+                            >
+                              +{EXTEND_HOURS}h
+                            </button>
+                            {share.expiresAt && (
+                              <button
+                                onClick={() => handleUpdate(share.id, { expiresIn: null })}
+                                disabled={busy !== null}
+                                className="rounded px-2 py-1 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                              >
+                                No expiry
+                              </button>
+                            )}
+                            {share.allowedViews !== null && (
+                              <button
+                                onClick={() => handleUpdate(share.id, { addViews: TOP_UP_VIEWS })}
+                                disabled={busy !== null}
+                                className="rounded px-2 py-1 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                              >
+                                +{TOP_UP_VIEWS} views
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleRevoke(share.id)}
+                              disabled={busy !== null}
+                              className="rounded p-1 text-gray-600 hover:text-red-600 disabled:opacity-50"
+                              title="Revoke link"
+                            >
+                              <Ban className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => setOpenLog(openLog === share.id ? null : share.id)}
+                          className={`rounded p-1 hover:bg-gray-200 ${
+                            openLog === share.id ? 'text-cyan-600' : 'text-gray-600'
+                          }`}
+                          title="Access log"
+                        >
+                          <History className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {openLog === share.id && (
+                    <tr>
+                      <td colSpan={6} className="bg-white/60 px-4 py-3">
+                        <AccessLog shareId={share.id} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        !isLoading && (
+          <p className="rounded-lg bg-white/70 p-4 text-center text-sm text-gray-600">
+            {shares.length > 0 ? 'No links with this status.' : 'No shared links yet.'}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -4,18 +4,10 @@ import React from 'react';
 import CodeViewer from './code-viewer';
 import { ArrowLeft, Clock, Eye } from 'lucide-react';
 import Link from 'next/link';
+import { OpenShareResponse } from '@/types';
 
 interface SharedCodeViewerProps {
-  shareData: {
-    content: {
-      code: string;
-      prompt: string;
-      model: string;
-      settings: any;
-    };
-    expiresAt?: string;
-    remainingViews?: number;
-  };
+  shareData: OpenShareResponse;
 }
 
 const SharedCodeViewer: React.FC<SharedCodeViewerProps> = ({ shareData }) => {
@@ -43,7 +35,7 @@ const SharedCodeViewer: React.FC<SharedCodeViewerProps> = ({ shareData }) => {
                   Expires {expiresDate.toLocaleDateString()}
                 </div>
               )}
-              {remainingViews !== undefined && remainingViews !== null && (
+              {remainingViews !== null && (
                 <div className="flex items-center gap-1">
                   <Eye className="h-4 w-4" />
                   {remainingViews} views remaining
@@ -65,7 +57,7 @@ const SharedCodeViewer: React.FC<SharedCodeViewerProps> = ({ shareData }) => {
           showEditor={true}
           model={content.model}
           prompt={content.prompt}
-          settings={content.settings}
+          settings={content.settings ?? undefined}
         />
       </div>
     </div>
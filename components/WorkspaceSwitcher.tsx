@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import * as Popover from '@radix-ui/react-popover';
+import { Check, ChevronDown, Plus, Trash2, UserPlus, Users } from 'lucide-react';
+import {
+  addWorkspaceMember,
+  createWorkspace,
+  fetchWorkspaceMembers,
+  fetchWorkspaces,
+  removeWorkspaceMember,
+  setActiveWorkspace,
+  updateWorkspaceMember
+} from '@/services/api';
+import { WorkspaceMemberInfo, WorkspaceRole, WorkspaceSummary } from '@/types';
+
+const ROLES: WorkspaceRole[] = ['viewer', 'editor', 'owner'];
+
+const selectClassName =
+  'rounded-lg bg-white/5 px-2 py-1 text-xs text-white [&>option]:text-gray-900';
+
+interface WorkspaceSwitcherProps {
+  userId: string;
+}
+
+export default function WorkspaceSwitcher({ userId }: WorkspaceSwitcherProps) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [members, setMembers] = useState<WorkspaceMemberInfo[]>([]);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+  const [error, setError] = useState<string | null>(null);
+
+  const active = workspaces.find((workspace) => workspace.id === activeId);
+  const isOwner = active?.role === 'owner';
+
+  useEffect(() => {
+    fetchWorkspaces()
+      .then(({ workspaces, activeWorkspaceId }) => {
+        setWorkspaces(workspaces);
+        setActiveId(activeWorkspaceId);
+      })
+      .catch((err) => console.error('Failed to fetch workspaces:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!activeId) return;
+    fetchWorkspaceMembers(activeId)
+      .then(setMembers)
+      .catch((err) => console.error('Failed to fetch members:', err));
+  }, [activeId]);
+
+  // Everything on the page is scoped to the workspace, so start over
+  const switchTo = async (workspaceId: string | null) => {
+    try {
+      await setActiveWorkspace(workspaceId);
+      window.location.reload();
+    } catch (err) {
+      console.error('Failed to switch workspace:', err);
+      setError('Failed to switch workspace');
+    }
+  };
+
+  const addWorkspace = async () => {
+    const name = newWorkspaceName.trim();
+    if (!name) return;
+    try {
+      const workspace = await createWorkspace({ name });
+      setNewWorkspaceName('');
+      await switchTo(workspace.id);
+    } catch (err) {
+      console.error('Failed to create workspace:', err);
+      setError('Failed to create workspace');
+    }
+  };
+
+  // Runs a member change and shows the server's reason when it's refused
+  const changeMembers = async (change: () => Promise<WorkspaceMemberInfo[]>) => {
+    try {
+      setMembers(await change());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update members');
+    }
+  };
+
+  const inviteMember = () => {
+    if (!activeId || !inviteEmail.trim()) return;
+    changeMembers(async () => {
+      const updated = await addWorkspaceMember(activeId, { email: inviteEmail, role: inviteRole });
+      setInviteEmail('');
+      return updated;
+    });
+  };
+
+  const removeMember = (member: WorkspaceMemberInfo) => {
+    if (!activeId) return;
+    changeMembers(async () => {
+      await removeWorkspaceMember(activeId, member.userId);
+      // Leaving the workspace drops back to the personal space
+      if (member.userId === userId) await switchTo(null);
+      return members.filter((m) => m.userId !== member.userId);
+    });
+  };
+
+  return (
+    <Popover.Root>
+      <Popover.Trigger asChild>
+        <button className="flex items-center gap-1 rounded-lg border border-white/20 bg-white/10 px-3 py-1 text-sm text-white backdrop-blur-lg transition-colors hover:bg-white/20">
+          <Users className="h-4 w-4" />
+          <span className="max-w-[10rem] truncate">{active?.name ?? 'Personal'}</span>
+          <ChevronDown className="h-3 w-3" />
+        </button>
+      </Popover.Trigger>
+
+      <Popover.Portal>
+        <Popover.Content
+          className="z-50 w-80 space-y-4 rounded-lg border border-white/20 bg-gray-900/90 p-4 text-sm text-white backdrop-blur-lg"
+          sideOffset={5}
+          align="end"
+        >
+          <div className="space-y-1">
+            {[{ id: null, name: 'Personal', role: 'owner' as WorkspaceRole }, ...workspaces].map(
+              (workspace) => (
+                <button
+                  key={workspace.id ?? 'personal'}
+                  onClick={() => workspace.id !== activeId && switchTo(workspace.id)}
+                  className="flex w-full items-center gap-2 rounded-lg px-2 py-1 text-left hover:bg-white/10"
+                >
+                  <span className="flex-1 truncate">{workspace.name}</span>
+                  <span className="text-xs text-white/50">{workspace.role}</span>
+                  {workspace.id === activeId && <Check className="h-4 w-4 text-cyan-300" />}
+                </button>
+              )
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addWorkspace()}
+              placeholder="New workspace..."
+              className="min-w-0 flex-1 rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/50"
+            />
+            <button
+              onClick={addWorkspace}
+              disabled={!newWorkspaceName.trim()}
+              className="rounded-lg p-2 text-white/70 hover:bg-white/10 hover:text-white disabled:opacity-50"
+              title="Create workspace"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+
+          {active && (
+            <div className="space-y-2 border-t border-white/20 pt-4">
+              <p className="text-xs font-medium text-white/70">Members of {active.name}</p>
+              <ul className="max-h-48 space-y-1 overflow-y-auto">
+                {members.map((member) => (
+                  <li key={member.userId} className="flex items-center gap-2">
+                    <span className="min-w-0 flex-1 truncate" title={member.email}>
+                      {member.name || member.email}
+                    </span>
+                    {isOwner ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          changeMembers(() =>
+                            updateWorkspaceMember(active.id, {
+                              userId: member.userId,
+                              role: e.target.value as WorkspaceRole
+                            })
+                          )
+                        }
+                        className={selectClassName}
+                      >
+                        {ROLES.map((role) => (
+                          <option key={role} value={role}>{role}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs text-white/50">{member.role}</span>
+                    )}
+                    {(isOwner || member.userId === userId) && (
+                      <button
+                        onClick={() => removeMember(member)}
+                        className="rounded p-1 text-white/50 hover:text-red-300"
+                        title={member.userId === userId ? 'Leave workspace' : 'Remove member'}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {isOwner && (
+                <div className="flex gap-2">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && inviteMember()}
+                    placeholder="Add by email..."
+                    className="min-w-0 flex-1 rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/50"
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                    className={selectClassName}
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={inviteMember}
+                    disabled={!inviteEmail.trim()}
+                    className="rounded-lg p-2 text-white/70 hover:bg-white/10 hover:text-white disabled:opacity-50"
+                    title="Add member"
+                  >
+                    <UserPlus className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+}
@@ -1,20 +1,26 @@
 "use client";
 
-import * as shadcnComponents from "@/utils/shadcn";
-import { Sandpack } from "@codesandbox/sandpack-react";
 import {
+  SandpackCodeEditor,
+  SandpackFileExplorer,
+  SandpackLayout,
   SandpackPreview,
   SandpackProvider,
   useActiveCode,
   useSandpack,
+} from "@codesandbox/sandpack-react";
+import {
+  SandpackPreview as UnstyledPreview,
+  SandpackProvider as UnstyledProvider,
 } from "@codesandbox/sandpack-react/unstyled";
 import { dracula as draculaTheme } from "@codesandbox/sandpack-themes";
 import { Copy, Download, ExternalLink, Share2, Boxes, Check } from 'lucide-react';
-import dedent from "dedent";
 import "./code-viewer.css";
 import { useEffect, useState } from "react";
 import ShareCode from '@/components/ShareCode';
 import { AISettings } from '@/types';
+import { sandpackDependencies, sharedFiles } from '@/utils/sandpack-files';
+import { ENTRY_FILE, isSourceFile, parseProjectFiles } from '@/utils/project-files';
 
 interface CodeViewerProps {
   code: string;
@@ -22,19 +28,26 @@ interface CodeViewerProps {
   model: string;
   prompt: string;
   settings?: AISettings;
+  // The saved app behind the code; sharing needs one
+  appId?: string | null;
   onError?: (error: string | null) => void;
 }
 
-function EditorControls({ code, model, prompt, settings }: { 
+const EDITOR_HEIGHT = "calc(100vh - 200px)";
+
+function EditorControls({ code, projectPaths, model, prompt, settings, appId }: { 
   code: string;
+  projectPaths: string[];
   model: string;
   prompt: string;
   settings?: AISettings;
+  appId?: string | null;
 }) {
   const { sandpack } = useSandpack();
   const { code: activeCode } = useActiveCode();
   const [shareUrl, setShareUrl] = useState<string>('');
   const [copied, setCopied] = useState(false);
+  const fileName = sandpack.activeFile.split('/').pop() || 'App.tsx';
 
   const handleCopy = async () => {
     try {
@@ -49,7 +62,7 @@ function EditorControls({ code, model, prompt, settings }: {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "App.tsx";
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -64,10 +77,10 @@ function EditorControls({ code, model, prompt, settings }: {
 
       const blob = new Blob([activeCode], { type: 'text/plain' });
       const fileHandle = await (window as any).showSaveFilePicker({
-        suggestedName: 'App.tsx',
+        suggestedName: fileName,
         types: [{
-          description: 'TypeScript Files',
-          accept: { 'text/plain': ['.tsx'] },
+          description: 'Source Files',
+          accept: { 'text/plain': [`.${fileName.split('.').pop()}`] },
         }],
       });
       
@@ -106,6 +119,14 @@ function EditorControls({ code, model, prompt, settings }: {
         }
       };
 
+      // Project files as edited in the sandbox, plus the shared files they import
+      const sourceFiles = Object.fromEntries(
+        [...projectPaths, ...Object.keys(sharedFiles).filter(isSourceFile)].map((path) => [
+          `src${path}`,
+          { content: sandpack.files[path]?.code ?? '' }
+        ])
+      );
+
       // Prepare files
       const files = {
         "package.json": {
@@ -114,9 +135,7 @@ function EditorControls({ code, model, prompt, settings }: {
         "tsconfig.json": {
           content: JSON.stringify(tsConfig, null, 2)
         },
-        "src/App.tsx": {
-          content: activeCode
-        },
+        ...sourceFiles,
         "src/index.tsx": {
           content: `import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
@@ -182,12 +201,7 @@ root.render(
         <ExternalLink className="h-4 w-4" />
       </button>
 
-      <ShareCode 
-        code={code}
-        model={model}
-        prompt={prompt}
-        settings={settings}
-      />
+      {appId && <ShareCode appId={appId} settings={settings} />}
 
       <button
         onClick={handleCodeSandbox}
@@ -200,7 +214,7 @@ root.render(
   );
 }
 
-export default function CodeViewer({ code, showEditor = false, model, prompt, settings, onError }: CodeViewerProps) {
+export default function CodeViewer({ code, showEditor = false, model, prompt, settings, appId, onError }: CodeViewerProps) {
   useEffect(() => {
     const handleError = (error: string | null) => {
       onError?.(error);
@@ -211,57 +225,62 @@ export default function CodeViewer({ code, showEditor = false, model, prompt, se
     };
   }, [onError]);
 
+  // Generated files shadow the shared ones and are the only files in the tree
+  const projectFiles = parseProjectFiles(code);
+  const files = { ...sharedFiles, ...projectFiles };
+
   return showEditor ? (
     <SandpackProvider
-      files={{
-        "App.tsx": code,
-        ...sharedFiles,
-      }}
+      files={files}
       className="flex h-full w-full grow flex-col justify-center"
-      options={{ ...sharedOptions }}
+      options={{
+        ...sharedOptions,
+        visibleFiles: Object.keys(projectFiles),
+        activeFile: ENTRY_FILE,
+      }}
       {...sharedProps}
     >
       <div className="relative">
         <EditorControls 
           code={code}
+          projectPaths={Object.keys(projectFiles)}
           model={model}
           prompt={prompt}
           settings={settings}
+          appId={appId}
         />
-        <Sandpack
-          options={{
-            showNavigator: true,
-            editorHeight: "calc(100vh - 200px)",
-            editorWidthPercentage: 60,
-            showInlineErrors: true,
-            showLineNumbers: true,
-            showTabs: false,
-            ...sharedOptions,
-          }}
-          files={{
-            "App.tsx": code,
-            ...sharedFiles,
-          }}
-          {...sharedProps}
-        />
+        <SandpackLayout>
+          <SandpackFileExplorer
+            autoHiddenFiles
+            style={{ height: EDITOR_HEIGHT, maxWidth: 200 }}
+          />
+          <SandpackCodeEditor
+            showInlineErrors
+            showLineNumbers
+            showTabs
+            closableTabs
+            style={{ height: EDITOR_HEIGHT, flexGrow: 3 }}
+          />
+          <SandpackPreview
+            showNavigator
+            style={{ height: EDITOR_HEIGHT, flexGrow: 2 }}
+          />
+        </SandpackLayout>
       </div>
     </SandpackProvider>
   ) : (
-    <SandpackProvider
-      files={{
-        "App.tsx": code,
-        ...sharedFiles,
-      }}
+    <UnstyledProvider
+      files={files}
       className="flex h-full w-full grow flex-col justify-center"
       options={{ ...sharedOptions }}
       {...sharedProps}
     >
-      <SandpackPreview
+      <UnstyledPreview
         className="flex h-full w-full grow flex-col justify-center p-4 md:pt-16"
         showOpenInCodeSandbox={false}
         showRefreshButton={false}
       />
-    </SandpackProvider>
+    </UnstyledProvider>
   );
 }
 
@@ -269,44 +288,7 @@ let sharedProps = {
   template: "react-ts",
   theme: draculaTheme,
   customSetup: {
-    dependencies: {
-      "lucide-react": "latest",
-      recharts: "2.9.0",
-      "react-router-dom": "latest",
-      "@radix-ui/react-accordion": "^1.2.0",
-      "@radix-ui/react-alert-dialog": "^1.1.1",
-      "@radix-ui/react-aspect-ratio": "^1.1.0",
-      "@radix-ui/react-avatar": "^1.1.0",
-      "@radix-ui/react-checkbox": "^1.1.1",
-      "@radix-ui/react-collapsible": "^1.1.0",
-      "@radix-ui/react-dialog": "^1.1.1",
-      "@radix-ui/react-dropdown-menu": "^2.1.1",
-      "@radix-ui/react-hover-card": "^1.1.1",
-      "@radix-ui/react-label": "^2.1.0",
-      "@radix-ui/react-menubar": "^1.1.1",
-      "@radix-ui/react-navigation-menu": "^1.2.0",
-      "@radix-ui/react-popover": "^1.1.1",
-      "@radix-ui/react-progress": "^1.1.0",
-      "@radix-ui/react-radio-group": "^1.2.0",
-      "@radix-ui/react-select": "^2.1.1",
-      "@radix-ui/react-separator": "^1.1.0",
-      "@radix-ui/react-slider": "^1.2.0",
-      "@radix-ui/react-slot": "^1.1.0",
-      "@radix-ui/react-switch": "^1.1.0",
-      "@radix-ui/react-tabs": "^1.1.0",
-      "@radix-ui/react-toast": "^1.2.1",
-      "@radix-ui/react-toggle": "^1.1.0",
-      "@radix-ui/react-toggle-group": "^1.1.0",
-      "@radix-ui/react-tooltip": "^1.1.2",
-      "class-variance-authority": "^0.7.0",
-      clsx: "^2.1.1",
-      "date-fns": "^3.6.0",
-      "embla-carousel-react": "^8.1.8",
-      "react-day-picker": "^8.10.1",
-      "tailwind-merge": "^2.4.0",
-      "tailwindcss-animate": "^1.0.7",
-      vaul: "^0.9.1",
-    },
+    dependencies: sandpackDependencies,
   },
 } as const;
 
@@ -315,58 +297,3 @@ let sharedOptions = {
     "https://unpkg.com/@tailwindcss/ui/dist/tailwind-ui.min.css",
   ],
 };
-
-let sharedFiles = {
-  "/lib/utils.ts": shadcnComponents.utils,
-  "/components/ui/accordion.tsx": shadcnComponents.accordian,
-  "/components/ui/alert-dialog.tsx": shadcnComponents.alertDialog,
-  "/components/ui/alert.tsx": shadcnComponents.alert,
-  "/components/ui/avatar.tsx": shadcnComponents.avatar,
-  "/components/ui/badge.tsx": shadcnComponents.badge,
-  "/components/ui/breadcrumb.tsx": shadcnComponents.breadcrumb,
-  "/components/ui/button.tsx": shadcnComponents.button,
-  "/components/ui/calendar.tsx": shadcnComponents.calendar,
-  "/components/ui/card.tsx": shadcnComponents.card,
-  "/components/ui/carousel.tsx": shadcnComponents.carousel,
-  "/components/ui/checkbox.tsx": shadcnComponents.checkbox,
-  "/components/ui/collapsible.tsx": shadcnComponents.collapsible,
-  "/components/ui/dialog.tsx": shadcnComponents.dialog,
-  "/components/ui/drawer.tsx": shadcnComponents.drawer,
-  "/components/ui/dropdown-menu.tsx": shadcnComponents.dropdownMenu,
-  "/components/ui/input.tsx": shadcnComponents.input,
-  "/components/ui/label.tsx": shadcnComponents.label,
-  "/components/ui/menubar.tsx": shadcnComponents.menuBar,
-  "/components/ui/navigation-menu.tsx": shadcnComponents.navigationMenu,
-  "/components/ui/pagination.tsx": shadcnComponents.pagination,
-  "/components/ui/popover.tsx": shadcnComponents.popover,
-  "/components/ui/progress.tsx": shadcnComponents.progress,
-  "/components/ui/radio-group.tsx": shadcnComponents.radioGroup,
-  "/components/ui/select.tsx": shadcnComponents.select,
-  "/components/ui/separator.tsx": shadcnComponents.separator,
-  "/components/ui/skeleton.tsx": shadcnComponents.skeleton,
-  "/components/ui/slider.tsx": shadcnComponents.slider,
-  "/components/ui/switch.tsx": shadcnComponents.switchComponent,
-  "/components/ui/table.tsx": shadcnComponents.table,
-  "/components/ui/tabs.tsx": shadcnComponents.tabs,
-  "/components/ui/textarea.tsx": shadcnComponents.textarea,
-  "/components/ui/toast.tsx": shadcnComponents.toast,
-  "/components/ui/toaster.tsx": shadcnComponents.toaster,
-  "/components/ui/toggle-group.tsx": shadcnComponents.toggleGroup,
-  "/components/ui/toggle.tsx": shadcnComponents.toggle,
-  "/components/ui/tooltip.tsx": shadcnComponents.tooltip,
-  "/components/ui/use-toast.tsx": shadcnComponents.useToast,
-  "/public/index.html": dedent`
-    <!DOCTYPE html>
-    <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Document</title>
-        <script src="https://cdn.tailwindcss.com"></script>
-      </head>
-      <body>
-        <div id="root"></div>
-      </body>
-    </html>
-  `,
-};
\ No newline at end of file
@@ -3,6 +3,8 @@ export interface AIModel {
   name: string;
   provider: string;
   maxTokens: number;
+  // Largest completion the model will produce; maxTokens is the context size
+  maxOutputTokens?: number;
   fullModelName?: string;
 }
 
@@ -12,13 +14,15 @@ export const AI_PROVIDERS: Record<string, AIModel[]> = {
       id: 'gpt-4o',
       name: 'GPT-4o',
       provider: 'openai',
-      maxTokens: 128000
+      maxTokens: 128000,
+      maxOutputTokens: 16384
     },
     {
       id: 'gpt-4o-mini',
       name: 'GPT-4o Mini',
       provider: 'openai',
-      maxTokens: 64000
+      maxTokens: 64000,
+      maxOutputTokens: 16384
     }
   ],
   anthropic: [
@@ -26,31 +30,36 @@ export const AI_PROVIDERS: Record<string, AIModel[]> = {
       id: 'claude-3-5-sonnet-20241022',
       name: 'Claude 3.5 Sonnet',
       provider: 'anthropic',
-      maxTokens: 200000
+      maxTokens: 200000,
+      maxOutputTokens: 8192
     },
     {
       id: 'claude-3-5-haiku-20241022',
       name: 'Claude 3.5 Haiku',
       provider: 'anthropic',
-      maxTokens: 200000
+      maxTokens: 200000,
+      maxOutputTokens: 8192
     },
     {
       id: 'claude-3-opus-20240229',
       name: 'Claude 3 Opus',
       provider: 'anthropic',
-      maxTokens: 200000
+      maxTokens: 200000,
+      maxOutputTokens: 4096
     },
     {
       id: 'claude-3-sonnet-20240229',
       name: 'Claude 3 Sonnet',
       provider: 'anthropic',
-      maxTokens: 200000
+      maxTokens: 200000,
+      maxOutputTokens: 4096
     },
     {
       id: 'claude-3-haiku-20240307',
       name: 'Claude 3 Haiku',
       provider: 'anthropic',
-      maxTokens: 200000
+      maxTokens: 200000,
+      maxOutputTokens: 4096
     }
   ],
   google: [
@@ -58,25 +67,29 @@ export const AI_PROVIDERS: Record<string, AIModel[]> = {
       id: 'gemini-2.0-flash-exp',
       name: 'Gemini 2.0 Flash',
       provider: 'google',
-      maxTokens: 1000000
+      maxTokens: 1000000,
+      maxOutputTokens: 8192
     },
     {
       id: 'gemini-1.5-flash',
       name: 'Gemini 1.5 Flash',
       provider: 'google',
-      maxTokens: 1000000
+      maxTokens: 1000000,
+      maxOutputTokens: 8192
     },
     {
       id: 'gemini-1.5-flash-8b',
       name: 'Gemini 1.5 Flash-8B',
       provider: 'google',
-      maxTokens: 1000000
+      maxTokens: 1000000,
+      maxOutputTokens: 8192
     },
     {
       id: 'gemini-1.5-pro',
       name: 'Gemini 1.5 Pro',
       provider: 'google',
-      maxTokens: 1000000
+      maxTokens: 1000000,
+      maxOutputTokens: 8192
     }
   ],
   deepseek: [
@@ -84,13 +97,15 @@ export const AI_PROVIDERS: Record<string, AIModel[]> = {
       id: 'deepseek-chat',
       name: 'DeepSeek Chat',
       provider: 'deepseek',
-      maxTokens: 32768
+      maxTokens: 32768,
+      maxOutputTokens: 8192
     },
     {
       id: 'deepseek-coder',
       name: 'DeepSeek Coder',
       provider: 'deepseek',
-      maxTokens: 32768
+      maxTokens: 32768,
+      maxOutputTokens: 8192
     }
   ],
   grok: [
@@ -98,13 +113,49 @@ export const AI_PROVIDERS: Record<string, AIModel[]> = {
       id: 'grok-2-1212',
       name: 'Grok 2',
       provider: 'xAI',
-      maxTokens: 32768
+      maxTokens: 32768,
+      maxOutputTokens: 8192
     },
   ],
 
   ollama: []
 };
 
+// Prices in USD per million tokens. Ollama models run locally and are free.
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'claude-3-sonnet-20240229': { input: 3, output: 15 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'gemini-2.0-flash-exp': { input: 0, output: 0 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'deepseek-chat': { input: 0.14, output: 0.28 },
+  'deepseek-coder': { input: 0.14, output: 0.28 },
+  'grok-2-1212': { input: 2, output: 10 }
+};
+
+// Cost in USD of a single generation; unpriced models are free
+export function calculateCost(
+  modelId: string,
+  promptTokens: number,
+  responseTokens: number
+): number {
+  const pricing = MODEL_PRICING[modelId];
+  if (!pricing) return 0;
+
+  return (promptTokens * pricing.input + responseTokens * pricing.output) / 1000000;
+}
+
 export const DEFAULT_MODELS = {
   openai: 'gpt-4o-mini',
   anthropic: 'claude-3-5-sonnet-20241022',
@@ -123,15 +174,6 @@ export type EnabledProviders = {
   grok: boolean;
 };
 
-export const ENABLED_PROVIDERS: EnabledProviders = {
-  openai: !!process.env.OPENAI_API_KEY,
-  anthropic: !!process.env.ANTHROPIC_API_KEY,
-  google: !!process.env.GOOGLE_API_KEY,
-  deepseek: !!process.env.DEEPSEEK_API_KEY,
-  grok: !!process.env.XAI_API_KEY,
-  ollama: false
-};
-
 import { fetchOllamaModels } from "../utils/ollama";
 
 export async function initializeOllamaModels() {
@@ -140,23 +182,26 @@ export async function initializeOllamaModels() {
     
     if (ollamaModels.length > 0) {
       // Map Ollama models to our AIModel interface
-      AI_PROVIDERS.ollama = ollamaModels.map(model => ({
-        id: model.name,
-        name: model.displayName, 
-        provider: 'ollama',
-        maxTokens: getOllamaModelMaxTokens(model.details),
-        fullModelName: model.name
-      }));
+      AI_PROVIDERS.ollama = ollamaModels.map(model => {
+        const maxTokens = getOllamaModelMaxTokens(model.details);
+        return {
+          id: model.name,
+          name: model.displayName, 
+          provider: 'ollama',
+          maxTokens,
+          // Half the context, so completions leave room for the conversation
+          maxOutputTokens: Math.floor(maxTokens / 2),
+          fullModelName: model.name
+        };
+      });
 
       // Set the first model as default if available
       if (AI_PROVIDERS.ollama.length > 0) {
         DEFAULT_MODELS.ollama = AI_PROVIDERS.ollama[0].id;
-        ENABLED_PROVIDERS.ollama = true;
       }
     }
   } catch (error) {
     console.error('Error initializing Ollama:', error);
-    ENABLED_PROVIDERS.ollama = false;
   }
 }
 
@@ -185,4 +230,15 @@ export async function refreshOllamaModels() {
 export function getModelFullName(modelId: string): string {
   const ollamaModel = AI_PROVIDERS.ollama.find(model => model.id === modelId);
   return ollamaModel?.fullModelName || modelId;
-}
\ No newline at end of file
+}
+
+// Helper function to find the AI_PROVIDERS key and entry serving a model
+export function getProviderForModel(
+  modelId: string,
+): { provider: string; model: AIModel } | null {
+  for (const [provider, models] of Object.entries(AI_PROVIDERS)) {
+    const model = models.find((m) => m.id === modelId);
+    if (model) return { provider, model };
+  }
+  return null;
+}
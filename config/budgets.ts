@@ -0,0 +1,47 @@
+// Spending limits in USD. A limit that is not set is not enforced.
+export interface BudgetLimits {
+  daily?: number;
+  monthly?: number;
+}
+
+function parseLimit(value?: string): number | undefined {
+  const limit = parseFloat(value ?? '');
+  return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+}
+
+// Per-model limits as JSON keyed by model id, e.g. {"gpt-4o":{"daily":5}}
+function parseModelLimits(value?: string): Record<string, BudgetLimits> {
+  if (!value) return {};
+
+  try {
+    const parsed = JSON.parse(value) as Record<string, Record<string, unknown>>;
+    return Object.fromEntries(
+      Object.entries(parsed).map(([modelId, limits]) => [
+        modelId,
+        {
+          daily: parseLimit(String(limits?.daily ?? '')),
+          monthly: parseLimit(String(limits?.monthly ?? ''))
+        }
+      ])
+    );
+  } catch (error) {
+    console.error('Invalid MODEL_BUDGETS_USD:', error);
+    return {};
+  }
+}
+
+export const BUDGET_LIMITS: BudgetLimits = {
+  daily: parseLimit(process.env.DAILY_BUDGET_USD),
+  monthly: parseLimit(process.env.MONTHLY_BUDGET_USD)
+};
+
+// Limits each generated app (project) gets on its own, across all its
+// generations, chat changes and error fixes
+export const PROJECT_BUDGET_LIMITS: BudgetLimits = {
+  daily: parseLimit(process.env.PROJECT_DAILY_BUDGET_USD),
+  monthly: parseLimit(process.env.PROJECT_MONTHLY_BUDGET_USD)
+};
+
+export const MODEL_BUDGET_LIMITS: Record<string, BudgetLimits> = parseModelLimits(
+  process.env.MODEL_BUDGETS_USD
+);
@@ -0,0 +1,77 @@
+// Requests allowed per sliding window. A limit that is not set is not enforced.
+export interface RateLimitQuota {
+  windowMs: number;
+  // Per client IP, when a trusted proxy reports it
+  perIp?: number;
+  // Per account, whichever IP it comes from: the signed-in user, or the
+  // email being signed in to
+  perUser?: number;
+}
+
+const MINUTE = 60 * 1000;
+
+// Routes that call a provider share their quota with the routes like them
+const DEFAULT_RATE_LIMITS = {
+  generateCode: { windowMs: MINUTE, perIp: 20, perUser: 10 },
+  chat: { windowMs: MINUTE, perIp: 40, perUser: 20 },
+  refinePrompt: { windowMs: MINUTE, perIp: 20, perUser: 10 },
+  generateIdea: { windowMs: MINUTE, perIp: 20, perUser: 10 },
+  errorFix: { windowMs: MINUTE, perIp: 20, perUser: 10 },
+  apiKeyTest: { windowMs: MINUTE, perIp: 10, perUser: 5 },
+  // Each check type-checks the whole project, which takes seconds of CPU
+  diagnostics: { windowMs: MINUTE, perIp: 20, perUser: 10 },
+  share: { windowMs: MINUTE, perIp: 30, perUser: 10 },
+  shareView: { windowMs: MINUTE, perIp: 60 },
+  auth: { windowMs: 15 * MINUTE, perIp: 20, perUser: 10 }
+} satisfies Record<string, RateLimitQuota>;
+
+export type RateLimitedRoute = keyof typeof DEFAULT_RATE_LIMITS;
+
+// null in an override turns the limit off
+function parseCount(value: unknown): number | undefined {
+  if (value === null || value === undefined) return undefined;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : undefined;
+}
+
+// Overrides as JSON keyed by route, e.g. {"generateCode":{"perUser":5}}
+function parseRateLimits(value?: string): Record<RateLimitedRoute, RateLimitQuota> {
+  if (!value) return DEFAULT_RATE_LIMITS;
+
+  try {
+    const parsed = JSON.parse(value) as Record<string, Record<string, unknown>>;
+    return Object.fromEntries(
+      Object.entries(DEFAULT_RATE_LIMITS).map(([route, quota]: [string, RateLimitQuota]) => {
+        const override = parsed[route];
+        if (!override) return [route, quota];
+
+        return [
+          route,
+          {
+            windowMs: parseCount(override.windowMs) || quota.windowMs,
+            perIp: 'perIp' in override ? parseCount(override.perIp) : quota.perIp,
+            perUser:
+              'perUser' in override ? parseCount(override.perUser) : quota.perUser
+          }
+        ];
+      })
+    ) as Record<RateLimitedRoute, RateLimitQuota>;
+  } catch (error) {
+    console.error('Invalid RATE_LIMITS:', error);
+    return DEFAULT_RATE_LIMITS;
+  }
+}
+
+export const RATE_LIMITS = parseRateLimits(process.env.RATE_LIMITS);
+
+// Proxies in front of the app whose X-Forwarded-For entries are trusted, e.g.
+// 1 on Vercel or behind one load balancer. 0 trusts none of the header.
+export const TRUSTED_PROXY_HOPS = parseCount(process.env.TRUST_PROXY_HOPS) ?? 0;
+
+// Wrong passwords a protected share takes before locking. Each further miss
+// doubles the lock, up to the maximum; the right password resets it.
+export const SHARE_LOCKOUT = {
+  maxAttempts: 5,
+  baseLockMs: MINUTE,
+  maxLockMs: 60 * MINUTE
+};
@@ -0,0 +1,206 @@
+import prisma from "@/lib/prisma";
+import { scopeWhere, type Scope } from "@/lib/workspaces";
+import { calculateCost } from "@/config/ai-providers";
+import type { AnalyticsQuery } from "@/types/api/requests";
+import type {
+  AnalyticsQueryResponse,
+  TokenAnalyticsResponse,
+} from "@/types/api/responses";
+import type { AIModel } from "@/types/models/ai";
+import type {
+  AnalyticsGroup,
+  AnalyticsGroupBy,
+  AnalyticsSummary,
+} from "@/types/models/analytics";
+import type { ProviderUsage } from "@/types/services/providers";
+import type { ResolvedApiKey } from "@/lib/api-keys";
+
+interface TokenUsageRecord {
+  appId: string;
+  userId: string;
+  // Workspace the usage is billed to; null for the personal space
+  workspaceId: string | null;
+  provider: string;
+  model: Pick<AIModel, "id" | "name" | "maxTokens">;
+  usage: ProviderUsage;
+  // True when the counts come from a tokenizer estimate rather than the provider
+  isEstimated: boolean;
+  // Whose key paid; budgets only count the server's
+  keySource: ResolvedApiKey["source"];
+  latencyMs?: number;
+}
+
+/**
+ * Stores the token usage and cost of one generation for an app and adds the
+ * cost to the app's running total.
+ */
+export async function recordTokenUsage({
+  appId,
+  userId,
+  workspaceId,
+  provider,
+  model,
+  usage,
+  isEstimated,
+  keySource,
+  latencyMs,
+}: TokenUsageRecord): Promise<TokenAnalyticsResponse> {
+  const utilizationPercentage = parseFloat(
+    ((usage.totalTokens / model.maxTokens) * 100).toFixed(2),
+  );
+  const cost = calculateCost(
+    model.id,
+    usage.promptTokens,
+    usage.responseTokens,
+  );
+
+  const data = {
+    modelName: model.name,
+    provider,
+    promptTokens: usage.promptTokens,
+    responseTokens: usage.responseTokens,
+    totalTokens: usage.totalTokens,
+    maxTokens: model.maxTokens,
+    utilizationPercentage,
+    isEstimated,
+    cost,
+    latencyMs: latencyMs ?? null,
+  };
+
+  await prisma.$transaction([
+    prisma.analytics.create({
+      data: { appId, userId, workspaceId, keySource, ...data },
+    }),
+    prisma.generatedApp.update({
+      where: { id: appId },
+      data: { cost: { increment: cost } },
+    }),
+  ]);
+
+  return data;
+}
+
+interface AnalyticsRow {
+  modelName: string;
+  provider: string;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  cost: number;
+  isEstimated: boolean;
+  createdAt: Date;
+}
+
+// YYYY-MM-DD in server time, matching how the date filters are read
+function toDayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDayKey(day: string, offsetDays = 0): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date + offsetDays);
+}
+
+function summarize(rows: AnalyticsRow[]): AnalyticsSummary {
+  const sum = (pick: (row: AnalyticsRow) => number) =>
+    rows.reduce((total, row) => total + pick(row), 0);
+
+  const generations = rows.length;
+  const promptTokens = sum((row) => row.promptTokens);
+  const responseTokens = sum((row) => row.responseTokens);
+
+  return {
+    generations,
+    promptTokens,
+    responseTokens,
+    totalTokens: sum((row) => row.totalTokens),
+    avgPromptTokens: generations ? Math.round(promptTokens / generations) : 0,
+    avgResponseTokens: generations
+      ? Math.round(responseTokens / generations)
+      : 0,
+    cost: sum((row) => row.cost),
+    estimatedGenerations: rows.filter((row) => row.isEstimated).length,
+  };
+}
+
+function groupRows(
+  rows: AnalyticsRow[],
+  keyOf: (row: AnalyticsRow) => string,
+): AnalyticsGroup[] {
+  const groups = new Map<string, AnalyticsRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+
+  return Array.from(groups, ([key, members]) => ({
+    key,
+    ...summarize(members),
+  }));
+}
+
+const GROUP_KEYS: Record<AnalyticsGroupBy, (row: AnalyticsRow) => string> = {
+  model: (row) => row.modelName,
+  provider: (row) => row.provider,
+  day: (row) => toDayKey(row.createdAt),
+};
+
+/**
+ * Aggregates the scope's recorded generations in the date range into overall
+ * totals, per-group summaries and a daily time series. Model and provider
+ * groups are ordered by token usage, days chronologically.
+ */
+export async function queryAnalytics({
+  from,
+  to,
+  groupBy = "day",
+  provider,
+  modelName,
+}: AnalyticsQuery, scope: Scope): Promise<AnalyticsQueryResponse> {
+  const rows = await prisma.analytics.findMany({
+    where: {
+      ...scopeWhere(scope),
+      createdAt: {
+        ...(from && { gte: fromDayKey(from) }),
+        // The end date is inclusive, so stop at the start of the next day
+        ...(to && { lt: fromDayKey(to, 1) }),
+      },
+      ...(provider && { provider }),
+      ...(modelName && { modelName }),
+    },
+    select: {
+      modelName: true,
+      provider: true,
+      promptTokens: true,
+      responseTokens: true,
+      totalTokens: true,
+      cost: true,
+      isEstimated: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const daily = groupRows(rows, GROUP_KEYS.day);
+  const groups =
+    groupBy === "day"
+      ? daily
+      : groupRows(rows, GROUP_KEYS[groupBy]).sort(
+          (a, b) => b.totalTokens - a.totalTokens,
+        );
+
+  return {
+    from: from ?? null,
+    to: to ?? null,
+    groupBy,
+    totals: summarize(rows),
+    groups,
+    daily,
+  };
+}
@@ -0,0 +1,146 @@
+import prisma from "@/lib/prisma";
+import {
+  decryptWithSecret,
+  encryptWithSecret,
+  isSecretEncrypted,
+} from "@/lib/encryption";
+import { getProviderAdapter } from "@/lib/providers";
+import { DEFAULT_MODELS } from "@/config/ai-providers";
+import type { ApiKeyStatus, KeyedProvider } from "@/types/models/ai";
+
+// Server-wide fallback for every provider that needs a key
+export const PROVIDER_KEY_ENV: Record<KeyedProvider, string> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  google: "GOOGLE_API_KEY",
+  deepseek: "DEEPSEEK_API_KEY",
+  grok: "XAI_API_KEY",
+};
+
+export const KEYED_PROVIDERS = Object.keys(PROVIDER_KEY_ENV) as [
+  KeyedProvider,
+  ...KeyedProvider[],
+];
+
+const HINT_LENGTH = 4;
+
+export interface ResolvedApiKey {
+  apiKey: string;
+  source: "user" | "server";
+}
+
+const isKeyedProvider = (provider: string): provider is KeyedProvider =>
+  provider in PROVIDER_KEY_ENV;
+
+function encryptionSecret(): string {
+  const secret = process.env.API_KEY_ENCRYPTION_SECRET;
+  if (!secret) {
+    throw new Error("API_KEY_ENCRYPTION_SECRET is not configured");
+  }
+  return secret;
+}
+
+/**
+ * The key a request to the provider runs with: the user's own key when they
+ * saved one, otherwise the server's env key. Ollama needs no key. Null when
+ * the provider is unavailable to the user, which includes a saved key that
+ * can no longer be decrypted, e.g. after the secret changed; saving it again
+ * fixes that.
+ */
+export async function resolveApiKey(
+  provider: string,
+  userId: string,
+): Promise<ResolvedApiKey | null> {
+  if (!isKeyedProvider(provider)) return { apiKey: "", source: "server" };
+
+  const saved = await prisma.apiKey.findUnique({
+    where: { userId_provider: { userId, provider } },
+    select: { id: true, encryptedKey: true },
+  });
+  if (saved) {
+    let apiKey: string;
+    try {
+      apiKey = await decryptWithSecret(saved.encryptedKey, encryptionSecret());
+    } catch (error) {
+      console.error(`Error decrypting the saved ${provider} key:`, error);
+      return null;
+    }
+    // Keys saved with the slow password format are upgraded on use
+    if (!isSecretEncrypted(saved.encryptedKey)) {
+      await prisma.apiKey.update({
+        where: { id: saved.id },
+        data: { encryptedKey: await encryptWithSecret(apiKey, encryptionSecret()) },
+      });
+    }
+    return { apiKey, source: "user" };
+  }
+
+  const serverKey = process.env[PROVIDER_KEY_ENV[provider]];
+  return serverKey ? { apiKey: serverKey, source: "server" } : null;
+}
+
+export const missingApiKeyMessage = (provider: string) =>
+  `Add an API key for ${provider} in AI settings to use this model`;
+
+// Which key every provider would use for the user, without revealing keys
+export async function listApiKeyStatus(userId: string): Promise<ApiKeyStatus[]> {
+  const saved = await prisma.apiKey.findMany({
+    where: { userId },
+    select: { provider: true, hint: true },
+  });
+  const hints = new Map(saved.map((key) => [key.provider, key.hint]));
+
+  return KEYED_PROVIDERS.map((provider) => {
+    const hint = hints.get(provider) ?? null;
+    return {
+      provider,
+      source: hint ? "user" : process.env[PROVIDER_KEY_ENV[provider]] ? "server" : null,
+      hint,
+    };
+  });
+}
+
+export async function saveApiKey(
+  userId: string,
+  provider: KeyedProvider,
+  apiKey: string,
+): Promise<void> {
+  const data = {
+    encryptedKey: await encryptWithSecret(apiKey, encryptionSecret()),
+    hint: apiKey.slice(-HINT_LENGTH),
+  };
+
+  await prisma.apiKey.upsert({
+    where: { userId_provider: { userId, provider } },
+    create: { userId, provider, ...data },
+    update: data,
+  });
+}
+
+// Falls back to the server's key, if there is one
+export async function deleteApiKey(userId: string, provider: KeyedProvider): Promise<void> {
+  await prisma.apiKey.deleteMany({ where: { userId, provider } });
+}
+
+/**
+ * Checks a key with the smallest possible request against the provider's
+ * default model. Returns the provider's error message when it is rejected.
+ */
+export async function testApiKey(
+  provider: KeyedProvider,
+  apiKey: string,
+): Promise<string | null> {
+  const adapter = getProviderAdapter(provider, apiKey);
+  if (!adapter) return "Unsupported provider";
+
+  try {
+    await adapter.completeText({
+      model: DEFAULT_MODELS[provider],
+      messages: [{ role: "user", content: "ping" }],
+      options: { maxTokens: 1 },
+    });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "The key was rejected";
+  }
+}
@@ -0,0 +1,2 @@
+// Kept free of Node.js imports so middleware.ts can read it on the edge
+export const SESSION_COOKIE = "nexaforge_session";
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import type { AuthAdapter } from "@/types/services/auth";
+import { createPasswordAdapter } from "./password";
+
+// Selected with AUTH_ADAPTER; add an entry here to sign in another way
+const adapterFactories: Record<string, () => AuthAdapter> = {
+  password: createPasswordAdapter,
+};
+
+export function getAuthAdapter(): AuthAdapter {
+  const id = process.env.AUTH_ADAPTER ?? "password";
+  const factory = adapterFactories[id];
+  if (!factory) {
+    throw new Error(`Unknown auth adapter "${id}"`);
+  }
+  return factory();
+}
+
+export function unauthorized() {
+  return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+}
+
+export { SESSION_COOKIE } from "./cookie";
+export { createSession, destroySession, getCurrentUser } from "./session";
+export { findUserByEmail } from "./users";
@@ -0,0 +1,55 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import prisma from "@/lib/prisma";
+import { createUser } from "./users";
+import type { AuthAdapter } from "@/types/services/auth";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt:<salt>:<key>" in hex, so the scheme can change later
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, salt, key] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Local accounts with an email and a password hashed in the database
+export function createPasswordAdapter(): AuthAdapter {
+  return {
+    id: "password",
+    async authenticate({ email, password }) {
+      const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+      });
+      if (!user?.passwordHash) return null;
+      if (!(await verifyPassword(password, user.passwordHash))) return null;
+
+      return { id: user.id, email: user.email, name: user.name };
+    },
+    async register({ email, password, name }) {
+      return createUser({
+        email,
+        name,
+        passwordHash: await hashPassword(password),
+      });
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import prisma from "@/lib/prisma";
+import type { AuthUser } from "@/types/services/auth";
+import { SESSION_COOKIE } from "./cookie";
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export async function createSession(userId: string): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.session.create({
+    data: { tokenHash: hashToken(token), userId, expiresAt },
+  });
+
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function destroySession(): Promise<void> {
+  const store = await cookies();
+  const token = store.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+  store.delete(SESSION_COOKIE);
+}
+
+// The signed-in user of the current request, or null
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: {
+      expiresAt: true,
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+  if (!session || session.expiresAt < new Date()) return null;
+
+  return session.user;
+}
@@ -0,0 +1,41 @@
+import prisma from "@/lib/prisma";
+import type { AuthUser } from "@/types/services/auth";
+
+interface NewUser {
+  email: string;
+  name?: string;
+  passwordHash?: string;
+}
+
+export function findUserByEmail(email: string) {
+  return prisma.user.findUnique({
+    where: { email: email.toLowerCase() },
+    select: { id: true },
+  });
+}
+
+/**
+ * Creates an account. The first account on a deployment takes over every row
+ * created before accounts existed, so upgrading doesn't orphan earlier work.
+ */
+export function createUser({ email, name, passwordHash }: NewUser): Promise<AuthUser> {
+  return prisma.$transaction(async (tx) => {
+    const isFirstUser = (await tx.user.count()) === 0;
+    const user = await tx.user.create({
+      data: { email: email.toLowerCase(), name: name || null, passwordHash },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (isFirstUser) {
+      const unowned = { where: { userId: null }, data: { userId: user.id } };
+      await tx.generatedApp.updateMany(unowned);
+      await tx.savedApp.updateMany(unowned);
+      await tx.project.updateMany(unowned);
+      await tx.sharedCode.updateMany(unowned);
+      await tx.analytics.updateMany(unowned);
+      await tx.comparison.updateMany(unowned);
+    }
+
+    return user;
+  });
+}
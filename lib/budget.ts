@@ -0,0 +1,89 @@
+import prisma from "@/lib/prisma";
+import {
+  BUDGET_LIMITS,
+  MODEL_BUDGET_LIMITS,
+  PROJECT_BUDGET_LIMITS,
+  type BudgetLimits,
+} from "@/config/budgets";
+import type { AIModel } from "@/types/models/ai";
+import type { BudgetStatus } from "@/types/models/analytics";
+
+// Budget periods follow the server's local calendar
+function periodStarts(now = new Date()) {
+  return {
+    daily: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+    monthly: new Date(now.getFullYear(), now.getMonth(), 1),
+  };
+}
+
+// Narrows spend to one model or one app; empty means all of the server's
+interface SpendFilter {
+  modelName?: string;
+  appId?: string;
+}
+
+async function getSpend(since: Date, filter: SpendFilter): Promise<number> {
+  const { _sum } = await prisma.analytics.aggregate({
+    _sum: { cost: true },
+    // Users' own keys are billed to them, not to these budgets
+    where: { createdAt: { gte: since }, keySource: "server", ...filter },
+  });
+  return _sum.cost ?? 0;
+}
+
+async function getStatus(
+  limits: BudgetLimits,
+  filter: SpendFilter = {},
+): Promise<BudgetStatus> {
+  const starts = periodStarts();
+  const [daily, monthly] = await Promise.all([
+    getSpend(starts.daily, filter),
+    getSpend(starts.monthly, filter),
+  ]);
+
+  return {
+    daily: { spent: daily, limit: limits.daily ?? null },
+    monthly: { spent: monthly, limit: limits.monthly ?? null },
+  };
+}
+
+// Spend across all models against the global limits
+export function getBudgetStatus(): Promise<BudgetStatus> {
+  return getStatus(BUDGET_LIMITS);
+}
+
+/**
+ * Checks the global budgets, the model's own budgets and, for an existing
+ * app, the project budgets. Returns the reason a generation must be refused,
+ * or null while every budget has room left.
+ */
+export async function checkBudget(
+  model: Pick<AIModel, "id" | "name">,
+  appId?: string,
+): Promise<string | null> {
+  const scopes: [string, BudgetLimits, SpendFilter][] = [["", BUDGET_LIMITS, {}]];
+  if (MODEL_BUDGET_LIMITS[model.id]) {
+    scopes.push([
+      `${model.name} `,
+      MODEL_BUDGET_LIMITS[model.id],
+      { modelName: model.name },
+    ]);
+  }
+  if (appId) {
+    scopes.push(["project ", PROJECT_BUDGET_LIMITS, { appId }]);
+  }
+
+  for (const [label, limits, filter] of scopes) {
+    if (limits.daily === undefined && limits.monthly === undefined) continue;
+
+    const status = await getStatus(limits, filter);
+    for (const period of ["daily", "monthly"] as const) {
+      const { spent, limit } = status[period];
+      if (limit !== null && spent >= limit) {
+        return `The ${label}${period} budget of $${limit.toFixed(2)} has been reached ($${spent.toFixed(2)} spent).`;
+      }
+    }
+  }
+
+  return null;
+}
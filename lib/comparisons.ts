@@ -0,0 +1,77 @@
+import prisma from "@/lib/prisma";
+import type { Comparison } from "@/types/models/comparison";
+
+export function createComparison(prompt: string, userId: string) {
+  return prisma.comparison.create({ data: { prompt, userId } });
+}
+
+export async function getComparison(
+  id: string,
+  userId: string,
+): Promise<Comparison | null> {
+  const comparison = await prisma.comparison.findFirst({
+    where: { id, userId },
+    include: {
+      apps: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          model: true,
+          code: true,
+          createdAt: true,
+          // The first row is the comparison generation; later rows come
+          // from refining the app in chat
+          analytics: {
+            orderBy: { createdAt: "asc" },
+            take: 1,
+            select: {
+              promptTokens: true,
+              responseTokens: true,
+              totalTokens: true,
+              cost: true,
+              latencyMs: true,
+              isEstimated: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!comparison) return null;
+
+  return {
+    id: comparison.id,
+    prompt: comparison.prompt,
+    winnerAppId: comparison.winnerAppId,
+    createdAt: comparison.createdAt.toISOString(),
+    results: comparison.apps.map((app) => ({
+      appId: app.id,
+      model: app.model,
+      code: app.code,
+      createdAt: app.createdAt.toISOString(),
+      analytics: app.analytics[0] ?? null,
+    })),
+  };
+}
+
+/**
+ * Marks one of the comparison's apps as the winner. Returns false when the
+ * app was not generated in this comparison or belongs to another account.
+ */
+export async function setComparisonWinner(
+  id: string,
+  appId: string,
+  userId: string,
+): Promise<boolean> {
+  const app = await prisma.generatedApp.findFirst({
+    where: { id: appId, comparisonId: id, userId },
+    select: { id: true },
+  });
+  if (!app) return false;
+
+  await prisma.comparison.update({
+    where: { id },
+    data: { winnerAppId: appId },
+  });
+  return true;
+}
@@ -0,0 +1,171 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { sandpackDependencies, sharedFiles } from "@/utils/sandpack-files";
+import { isSourceFile, parseProjectFiles } from "@/utils/project-files";
+import type { CodeIssue } from "@/utils/code-verification";
+import type { ProjectFiles } from "@/types/models/generation";
+
+// The sandbox is mirrored at the virtual root, so "/components/ui/button"
+// imports resolve exactly as they do inside Sandpack
+const MODULES_FILE = "/sandpack-modules.d.ts";
+
+// Only these installed packages are read from disk; every other Sandpack
+// dependency is declared as an untyped module
+const TYPED_PACKAGES = ["@types/react", "@types/react-dom", "@types/prop-types", "csstype"];
+const NODE_MODULES = path.join(process.cwd(), "node_modules");
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+  types: [],
+  baseUrl: "/",
+  paths: { "@/*": ["./*"] },
+  allowJs: true,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+const libDirectory = path.dirname(ts.getDefaultLibFilePath(compilerOptions));
+
+// The shadcn stubs derive their variant props from cva, so it needs real
+// types or every <Button variant="..."> would be rejected
+const TYPED_MODULES: Record<string, string> = {
+  "class-variance-authority": `
+    type ClassProp = { class?: string; className?: string };
+    type Variants = Record<string, Record<string, string>>;
+    type VariantSelection<V extends Variants> = { [K in keyof V]?: keyof V[K] | null };
+    export type VariantProps<T extends (...args: any) => any> = Omit<
+      NonNullable<Parameters<T>[0]>,
+      keyof ClassProp
+    >;
+    export function cva<V extends Variants = {}>(
+      base?: string | string[],
+      config?: {
+        variants?: V;
+        defaultVariants?: VariantSelection<V>;
+        compoundVariants?: (VariantSelection<V> & ClassProp)[];
+      },
+    ): (props?: VariantSelection<V> & ClassProp) => string;
+  `,
+};
+
+const moduleDeclarations = Object.keys(sandpackDependencies)
+  .map((name) =>
+    TYPED_MODULES[name]
+      ? `declare module "${name}" {${TYPED_MODULES[name]}}`
+      : `declare module "${name}";`,
+  )
+  .concat('declare module "*.css";')
+  .join("\n");
+
+const virtualFiles = new Map<string, string>([
+  ...Object.entries(sharedFiles).filter(([name]) => /\.tsx?$/.test(name)),
+  [MODULES_FILE, moduleDeclarations],
+]);
+
+// Parsed once per server process; only the project files change between checks
+const sourceFileCache = new Map<string, ts.SourceFile>();
+
+function toDiskPath(fileName: string): string | null {
+  if (fileName.startsWith(libDirectory)) return fileName;
+
+  const packagePath = fileName.match(/^\/node_modules\/(.+)$/)?.[1];
+  if (packagePath && TYPED_PACKAGES.some((name) => packagePath.startsWith(`${name}/`))) {
+    return path.join(NODE_MODULES, packagePath);
+  }
+
+  return null;
+}
+
+function readSource(fileName: string): string | undefined {
+  if (virtualFiles.has(fileName)) return virtualFiles.get(fileName);
+
+  const diskPath = toDiskPath(fileName);
+  if (diskPath && fs.existsSync(diskPath)) {
+    return fs.readFileSync(diskPath, "utf8");
+  }
+
+  return undefined;
+}
+
+function createHost(project: ProjectFiles): ts.CompilerHost {
+  const host = ts.createCompilerHost(compilerOptions);
+  // Project files shadow shared files of the same name, as in Sandpack
+  const read = (fileName: string) => project[fileName] ?? readSource(fileName);
+
+  return {
+    ...host,
+    fileExists: (fileName) => read(fileName) !== undefined,
+    readFile: read,
+    // Resolution probes candidate files through fileExists anyway
+    directoryExists: () => true,
+    getDirectories: () => [],
+    realpath: (fileName) => fileName,
+    getCurrentDirectory: () => "/",
+    getDefaultLibLocation: () => libDirectory,
+    getSourceFile: (fileName, languageVersion) => {
+      if (fileName in project) {
+        return ts.createSourceFile(fileName, project[fileName], languageVersion, true);
+      }
+
+      const cached = sourceFileCache.get(fileName);
+      if (cached) return cached;
+
+      const text = readSource(fileName);
+      if (text === undefined) return undefined;
+
+      const sourceFile = ts.createSourceFile(fileName, text, languageVersion, true);
+      sourceFileCache.set(fileName, sourceFile);
+      return sourceFile;
+    },
+    writeFile: () => {},
+  };
+}
+
+function toIssue(diagnostic: ts.Diagnostic): CodeIssue {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+  if (!diagnostic.file || diagnostic.start === undefined) return { message };
+
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  // TypeScript positions are 0-based, editors and error messages are 1-based
+  return { line: line + 1, column: character + 1, message };
+}
+
+/**
+ * Type-checks a generated project as it is mounted in the Sandpack sandbox,
+ * alongside the shared shadcn files and the React typings. Only errors in the
+ * project's own files are reported; problems inside the shared files are not
+ * the generation's fault.
+ */
+export function getTypeDiagnostics(code: string): CodeIssue[] {
+  const files = parseProjectFiles(code);
+  const multiFile = Object.keys(files).length > 1;
+  const sources = Object.fromEntries(
+    Object.entries(files).filter(([fileName]) => isSourceFile(fileName)),
+  );
+
+  const program = ts.createProgram({
+    rootNames: [...Object.keys(sources), MODULES_FILE],
+    options: compilerOptions,
+    host: createHost(sources),
+  });
+
+  return Object.keys(sources).flatMap((fileName) => {
+    const sourceFile = program.getSourceFile(fileName);
+
+    return [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ]
+      .filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error)
+      .map((diagnostic) =>
+        multiFile ? { file: fileName, ...toIssue(diagnostic) } : toIssue(diagnostic),
+      );
+  });
+}
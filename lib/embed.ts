@@ -0,0 +1,53 @@
+import type { EmbedOptions } from "@/types/models/share";
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  height: 500,
+  theme: "dark",
+  showCode: false,
+};
+
+export const EMBED_WIDTH = 800;
+const MIN_EMBED_HEIGHT = 200;
+const MAX_EMBED_HEIGHT = 2000;
+
+const first = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+export const clampEmbedHeight = (height: number) =>
+  Math.min(Math.max(Math.round(height), MIN_EMBED_HEIGHT), MAX_EMBED_HEIGHT);
+
+// Unknown or out of range values fall back to the defaults
+export function parseEmbedOptions(
+  searchParams: Record<string, string | string[] | undefined>,
+): EmbedOptions {
+  const height = Number(first(searchParams.height));
+  const theme = first(searchParams.theme);
+  const code = first(searchParams.code);
+
+  return {
+    height: height > 0 ? clampEmbedHeight(height) : DEFAULT_EMBED_OPTIONS.height,
+    theme: theme === "light" || theme === "dark" ? theme : DEFAULT_EMBED_OPTIONS.theme,
+    showCode: code === "1" || code === "true",
+  };
+}
+
+// Only options that differ from the defaults end up in the URL
+export function embedUrl(
+  id: string,
+  origin: string,
+  options: Partial<EmbedOptions> = {},
+): string {
+  const { height, theme, showCode } = { ...DEFAULT_EMBED_OPTIONS, ...options };
+  const params = new URLSearchParams();
+  if (height !== DEFAULT_EMBED_OPTIONS.height) params.set("height", String(height));
+  if (theme !== DEFAULT_EMBED_OPTIONS.theme) params.set("theme", theme);
+  if (showCode) params.set("code", "1");
+
+  const query = params.toString();
+  return `${process.env.NEXT_PUBLIC_BASE_URL || origin}/embed/${id}${query ? `?${query}` : ""}`;
+}
+
+// The iframe snippet oEmbed consumers and the Share menu hand out
+export function embedHtml(src: string, width: number | string, height: number): string {
+  return `<iframe src="${src}" width="${width}" height="${height}" style="border:0;border-radius:8px;overflow:hidden" title="NexaForge app" loading="lazy"></iframe>`;
+}
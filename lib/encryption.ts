@@ -1,44 +1,88 @@
-const ALGORITHM = 'AES-CBC';
-const IV_LENGTH = 16;
+/**
+ * Password-based encryption for shares, and secret-based encryption for
+ * saved API keys.
+ *
+ * Current format: `v2:<iterations>:<salt>:<iv>:<ciphertext>`, hex encoded.
+ * The key is derived with PBKDF2-SHA-256 from a random salt and the data is
+ * sealed with AES-GCM, so a wrong password or tampered ciphertext fails to
+ * decrypt instead of producing garbage.
+ *
+ * Legacy format: `<iv>:<ciphertext>`, AES-CBC keyed with an unsalted SHA-256
+ * of the password. It is still decrypted so existing rows keep working;
+ * callers re-encrypt them on their next successful access (see
+ * needsReencryption). A wrong password passes the padding check about one
+ * time in 256 and yields garbage, so callers must validate the plaintext.
+ *
+ * Secret format: `s1:<iv>:<ciphertext>`, hex encoded, AES-GCM keyed with an
+ * HKDF-SHA-256 derivation of a high-entropy server secret. The secret needs
+ * no work factor, so the key is derived once per process instead of on every
+ * call.
+ */
 
-export async function encrypt(text: string, password: string): Promise<string> {
-  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-  const key = await crypto.subtle.digest(
-    'SHA-256',
-    new TextEncoder().encode(password)
-  );
-  
-  const cryptoKey = await crypto.subtle.importKey(
+const CURRENT_VERSION = 'v2';
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const GCM_IV_LENGTH = 12;
+
+const LEGACY_ALGORITHM = 'AES-CBC';
+
+const SECRET_VERSION = 's1';
+const HKDF_INFO = 'nexaforge:secret-encryption';
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map(byte => parseInt(byte, 16)));
+
+async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
     'raw',
-    key,
-    { name: ALGORITHM },
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
     false,
-    ['encrypt']
+    ['encrypt', 'decrypt']
   );
+}
+
+export async function encrypt(text: string, password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(GCM_IV_LENGTH));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
 
   const encrypted = await crypto.subtle.encrypt(
-    { name: ALGORITHM, iv },
-    cryptoKey,
+    { name: 'AES-GCM', iv },
+    key,
     new TextEncoder().encode(text)
   );
 
-  // Convert to hex strings
-  const encryptedHex = Array.from(new Uint8Array(encrypted))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
-  const ivHex = Array.from(iv)
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
-
-  return `${ivHex}:${encryptedHex}`;
+  return [
+    CURRENT_VERSION,
+    PBKDF2_ITERATIONS,
+    toHex(salt),
+    toHex(iv),
+    toHex(new Uint8Array(encrypted))
+  ].join(':');
 }
 
-export async function decrypt(encryptedText: string, password: string): Promise<string> {
+async function decryptLegacy(encryptedText: string, password: string): Promise<string> {
   const [ivHex, encrypted] = encryptedText.split(':');
-  
-  const iv = new Uint8Array(ivHex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
-  const encryptedBytes = new Uint8Array(encrypted.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
-  
+
   const key = await crypto.subtle.digest(
     'SHA-256',
     new TextEncoder().encode(password)
@@ -47,16 +91,100 @@ export async function decrypt(encryptedText: string, password: string): Promise<
   const cryptoKey = await crypto.subtle.importKey(
     'raw',
     key,
-    { name: ALGORITHM },
+    { name: LEGACY_ALGORITHM },
     false,
     ['decrypt']
   );
 
   const decrypted = await crypto.subtle.decrypt(
-    { name: ALGORITHM, iv },
+    { name: LEGACY_ALGORITHM, iv: fromHex(ivHex) },
     cryptoKey,
-    encryptedBytes
+    fromHex(encrypted)
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
+
+// Throws when the password is wrong or the ciphertext was modified
+export async function decrypt(encryptedText: string, password: string): Promise<string> {
+  const parts = encryptedText.split(':');
+  if (parts.length === 2) return decryptLegacy(encryptedText, password);
+
+  const [version, iterations, saltHex, ivHex, encrypted] = parts;
+  if (version !== CURRENT_VERSION || parts.length !== 5) {
+    throw new Error(`Unsupported ciphertext format "${version}"`);
+  }
+
+  const key = await deriveKey(password, fromHex(saltHex), Number(iterations));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromHex(ivHex) },
+    key,
+    fromHex(encrypted)
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
+
+// Whether the ciphertext predates the current format or work factor
+export function needsReencryption(encryptedText: string): boolean {
+  const [version, iterations] = encryptedText.split(':');
+  return version !== CURRENT_VERSION || Number(iterations) < PBKDF2_ITERATIONS;
+}
+
+// Derived keys by secret; the promise is cached so concurrent calls share it
+const secretKeys = new Map<string, Promise<CryptoKey>>();
+
+function deriveSecretKey(secret: string): Promise<CryptoKey> {
+  let key = secretKeys.get(secret);
+  if (!key) {
+    key = crypto.subtle
+      .importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, ['deriveKey'])
+      .then(material =>
+        crypto.subtle.deriveKey(
+          {
+            name: 'HKDF',
+            hash: 'SHA-256',
+            salt: new Uint8Array(),
+            info: new TextEncoder().encode(HKDF_INFO)
+          },
+          material,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        )
+      );
+    secretKeys.set(secret, key);
+  }
+  return key;
+}
+
+export async function encryptWithSecret(text: string, secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(GCM_IV_LENGTH));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await deriveSecretKey(secret),
+    new TextEncoder().encode(text)
+  );
+
+  return [SECRET_VERSION, toHex(iv), toHex(new Uint8Array(encrypted))].join(':');
+}
+
+// Also opens password-format ciphertexts sealed with the secret before the
+// secret format existed; see isSecretEncrypted
+export async function decryptWithSecret(encryptedText: string, secret: string): Promise<string> {
+  if (!isSecretEncrypted(encryptedText)) return decrypt(encryptedText, secret);
+
+  const [, ivHex, encrypted] = encryptedText.split(':');
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromHex(ivHex) },
+    await deriveSecretKey(secret),
+    fromHex(encrypted)
   );
 
   return new TextDecoder().decode(decrypted);
-}
\ No newline at end of file
+}
+
+// False for password-format ciphertexts, which callers re-encrypt on use
+export function isSecretEncrypted(encryptedText: string): boolean {
+  return encryptedText.startsWith(`${SECRET_VERSION}:`);
+}
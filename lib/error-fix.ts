@@ -0,0 +1,136 @@
+import { z } from "zod";
+import {
+  getProviderForModel,
+  initializeOllamaModels,
+} from "@/config/ai-providers";
+import { getCurrentUser } from "@/lib/auth";
+import { checkRateLimit, rateLimitMessage, retryAfterHeaders } from "@/lib/rate-limit";
+import { missingApiKeyMessage, resolveApiKey } from "@/lib/api-keys";
+import { recordTokenUsage } from "@/lib/analytics";
+import { checkBudget } from "@/lib/budget";
+import { getAppRole, getScope, hasRole } from "@/lib/workspaces";
+import type { ErrorFixOptions, ErrorFixUsage } from "@/utils/error-fix-chain";
+import { codeErrorSchema } from "@/utils/error-fix-schema";
+import type { TokenAnalyticsResponse } from "@/types/api/responses";
+
+// Body shared by the error fixing routes, matching ErrorFixContext
+const errorFixRequestSchema = z.object({
+  provider: z.string().optional(),
+  model: z.string(),
+  generatedAppId: z.string(),
+  code: z.string(),
+  error: z.string(),
+  errorDetails: z
+    .object({
+      line: z.number().optional(),
+      column: z.number().optional(),
+      message: z.string().optional(),
+    })
+    .optional(),
+  maxAttempts: z.number().int().min(1).max(5).optional(),
+  analysis: codeErrorSchema.optional(),
+});
+
+export interface ErrorFixRequest {
+  options: ErrorFixOptions;
+  // Records what the chain spent against the app; null when it couldn't be
+  recordUsage: (spent: ErrorFixUsage) => Promise<TokenAnalyticsResponse | null>;
+}
+
+/**
+ * Validates an error fixing request and resolves the provider from the
+ * model, so the client's provider field is never trusted. Fixes are billed
+ * to the app being fixed, so the user must be able to edit it and, on the
+ * server's keys, its budgets must have room left. Returns the response to
+ * send instead when any of that fails or the user is over the rate limit.
+ */
+export async function parseErrorFixRequest(
+  req: Request,
+): Promise<ErrorFixRequest | Response> {
+  const startedAt = Date.now();
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Sign in required", { status: 401 });
+  }
+
+  const retryAfter = await checkRateLimit(req, "errorFix", user.id);
+  if (retryAfter) {
+    return new Response(rateLimitMessage(retryAfter), {
+      status: 429,
+      headers: retryAfterHeaders(retryAfter),
+    });
+  }
+
+  const result = errorFixRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return new Response(result.error.message, { status: 400 });
+  }
+
+  const { model, generatedAppId, code, error, errorDetails, maxAttempts, analysis } =
+    result.data;
+
+  await initializeOllamaModels();
+
+  const modelEntry = getProviderForModel(model);
+  if (!modelEntry) {
+    return new Response("Invalid model selected", { status: 400 });
+  }
+
+  const appRole = await getAppRole(generatedAppId, user.id);
+  if (!appRole) {
+    return new Response("App not found", { status: 404 });
+  }
+  if (!hasRole(appRole, "editor")) {
+    return new Response("Viewers can't change this app", { status: 403 });
+  }
+
+  const { provider } = modelEntry;
+
+  const key = await resolveApiKey(provider, user.id);
+  if (!key) {
+    return new Response(missingApiKeyMessage(provider), { status: 400 });
+  }
+
+  const budgetError =
+    key.source === "server"
+      ? await checkBudget(modelEntry.model, generatedAppId)
+      : null;
+  if (budgetError) {
+    return new Response(budgetError, { status: 402 });
+  }
+
+  const scope = await getScope(user);
+
+  const recordUsage = async ({ usage, isEstimated }: ErrorFixUsage) => {
+    try {
+      return await recordTokenUsage({
+        appId: generatedAppId,
+        userId: user.id,
+        workspaceId: scope.workspaceId,
+        provider,
+        model: modelEntry.model,
+        usage,
+        isEstimated,
+        keySource: key.source,
+        latencyMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      console.error("Error recording token usage:", error);
+      return null;
+    }
+  };
+
+  return {
+    options: {
+      provider,
+      model,
+      apiKey: key.apiKey,
+      code,
+      error,
+      errorDetails,
+      maxAttempts,
+      analysis,
+    },
+    recordUsage,
+  };
+}
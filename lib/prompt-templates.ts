@@ -0,0 +1,85 @@
+import type { PromptTemplate } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { scopeWhere, type Scope } from "@/lib/workspaces";
+import { extractVariables } from "@/utils/prompt-templates";
+import type {
+  CreatePromptTemplateRequest,
+  UpdatePromptTemplateRequest,
+} from "@/types/api/requests";
+import type { PromptTemplateSummary } from "@/types/models/template";
+
+function toSummary(template: PromptTemplate): PromptTemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    body: template.body,
+    variables: extractVariables(template.body),
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
+
+export async function listPromptTemplates(scope: Scope): Promise<PromptTemplateSummary[]> {
+  const templates = await prisma.promptTemplate.findMany({
+    where: scopeWhere(scope),
+    orderBy: { name: "asc" },
+  });
+  return templates.map(toSummary);
+}
+
+// Whether the scope already has a template by that name, other than `exceptId`
+export async function promptTemplateNameTaken(
+  name: string,
+  scope: Scope,
+  exceptId?: string,
+): Promise<boolean> {
+  const existing = await prisma.promptTemplate.findFirst({
+    where: { name, ...scopeWhere(scope), ...(exceptId && { id: { not: exceptId } }) },
+    select: { id: true },
+  });
+  return !!existing;
+}
+
+export async function createPromptTemplate(
+  { name, description, body }: CreatePromptTemplateRequest,
+  scope: Scope,
+): Promise<PromptTemplateSummary> {
+  const template = await prisma.promptTemplate.create({
+    data: {
+      userId: scope.userId,
+      workspaceId: scope.workspaceId,
+      name,
+      description: description || null,
+      body,
+    },
+  });
+  return toSummary(template);
+}
+
+// Null when the scope has no such template
+export async function updatePromptTemplate(
+  id: string,
+  fields: UpdatePromptTemplateRequest,
+  scope: Scope,
+): Promise<PromptTemplateSummary | null> {
+  const { count } = await prisma.promptTemplate.updateMany({
+    where: { id, ...scopeWhere(scope) },
+    data: {
+      ...fields,
+      ...(fields.description !== undefined && { description: fields.description || null }),
+    },
+  });
+  if (count === 0) return null;
+
+  const template = await prisma.promptTemplate.findUniqueOrThrow({ where: { id } });
+  return toSummary(template);
+}
+
+// Returns false when the scope has no such template
+export async function deletePromptTemplate(id: string, scope: Scope): Promise<boolean> {
+  const { count } = await prisma.promptTemplate.deleteMany({
+    where: { id, ...scopeWhere(scope) },
+  });
+  return count > 0;
+}
@@ -0,0 +1,61 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { encode } from "gpt-tokenizer";
+import type {
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderStreamEvent,
+} from "@/types/services/providers";
+import { collectCompletion, toUsage } from "./stream";
+
+// Anthropic requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+export function createAnthropicAdapter(apiKey: string): ProviderAdapter {
+  const getClient = () => new Anthropic({ apiKey });
+
+  async function* streamText({
+    model,
+    system,
+    messages,
+    options,
+  }: ProviderRequest): AsyncGenerator<ProviderStreamEvent> {
+    const stream = await getClient().messages.create({
+      model,
+      system,
+      messages,
+      max_tokens: options?.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options?.temperature,
+      top_p: options?.topP,
+      stream: true,
+    });
+
+    let promptTokens = 0;
+    let responseTokens = 0;
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case "message_start":
+          promptTokens = event.message.usage.input_tokens;
+          responseTokens = event.message.usage.output_tokens;
+          break;
+        case "content_block_delta":
+          if (event.delta.type === "text_delta" && event.delta.text) {
+            yield { type: "text", text: event.delta.text };
+          }
+          break;
+        case "message_delta":
+          responseTokens = event.usage.output_tokens;
+          break;
+      }
+    }
+
+    yield { type: "usage", usage: toUsage(promptTokens, responseTokens) };
+  }
+
+  return {
+    id: "anthropic",
+    streamText,
+    completeText: (request) => collectCompletion(streamText(request)),
+    countTokens: (text) => (text ? Math.ceil(encode(text).length * 1.1) : 0),
+  };
+}
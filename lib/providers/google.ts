@@ -0,0 +1,65 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type {
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderStreamEvent,
+  ProviderUsage,
+} from "@/types/services/providers";
+import { collectCompletion, toUsage } from "./stream";
+
+export function createGoogleAdapter(apiKey: string): ProviderAdapter {
+  const getClient = () => new GoogleGenerativeAI(apiKey);
+
+  async function* streamText({
+    model,
+    system,
+    messages,
+    options,
+  }: ProviderRequest): AsyncGenerator<ProviderStreamEvent> {
+    const geminiModel = getClient().getGenerativeModel({
+      model,
+      systemInstruction: system,
+      generationConfig: {
+        temperature: options?.temperature,
+        maxOutputTokens: options?.maxTokens,
+        topP: options?.topP,
+        frequencyPenalty: options?.frequencyPenalty,
+        presencePenalty: options?.presencePenalty,
+      },
+    });
+
+    const result = await geminiModel.generateContentStream({
+      contents: messages.map((message) => ({
+        role: message.role === "assistant" ? "model" : "user",
+        parts: [{ text: message.content }],
+      })),
+    });
+
+    // Every chunk carries the running usage, so only the last one matters
+    let usage: ProviderUsage | null = null;
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield { type: "text", text };
+      }
+      if (chunk.usageMetadata) {
+        usage = toUsage(
+          chunk.usageMetadata.promptTokenCount,
+          chunk.usageMetadata.candidatesTokenCount ?? 0,
+        );
+      }
+    }
+
+    if (usage) {
+      yield { type: "usage", usage };
+    }
+  }
+
+  return {
+    id: "google",
+    streamText,
+    completeText: (request) => collectCompletion(streamText(request)),
+    countTokens: (text) => (text ? Math.ceil(text.length / 4) : 0),
+  };
+}
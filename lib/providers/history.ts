@@ -0,0 +1,127 @@
+import type { ProviderMessage } from "@/types/services/providers";
+
+export interface ConversationMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface FitHistoryOptions {
+  // Tokens available for system prompt plus turns
+  budget: number;
+  countTokens: (text: string) => number;
+}
+
+// Start trimming once the history fills this share of the budget
+const BUDGET_HEADROOM = 0.9;
+const SUMMARY_SNIPPET_LENGTH = 200;
+// History always gets at least this share of the context, however much of it
+// the completion may use
+const MIN_HISTORY_SHARE = 0.25;
+
+// Tokens left for the system prompt and turns once the completion has room
+export function historyBudget(contextTokens: number, outputTokens: number): number {
+  return Math.max(
+    contextTokens - outputTokens,
+    Math.floor(contextTokens * MIN_HISTORY_SHARE),
+  );
+}
+
+/**
+ * Splits role-tagged history into the system prompt and alternating
+ * user/assistant turns. System messages are appended to the base system
+ * prompt and consecutive turns from the same role are merged, since
+ * Anthropic and Gemini reject anything else.
+ */
+export function toProviderTurns(
+  baseSystem: string,
+  messages: ConversationMessage[],
+): { system: string; turns: ProviderMessage[] } {
+  const systemParts = [baseSystem];
+  const turns: ProviderMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      systemParts.push(message.content);
+      continue;
+    }
+
+    const last = turns[turns.length - 1];
+    if (last?.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  // Conversations have to open with a user turn
+  if (turns[0]?.role === "assistant") {
+    systemParts.push(`Previous response:\n${turns.shift()!.content}`);
+  }
+
+  return { system: systemParts.filter(Boolean).join("\n\n"), turns };
+}
+
+function summarize(dropped: ProviderMessage[]): string {
+  const requests = dropped
+    .filter((message) => message.role === "user")
+    .map((message) => {
+      const text = message.content.replace(/\s+/g, " ").trim();
+      return text.length > SUMMARY_SNIPPET_LENGTH
+        ? `- ${text.slice(0, SUMMARY_SNIPPET_LENGTH - 3)}...`
+        : `- ${text}`;
+    });
+
+  return [
+    `[${dropped.length} earlier messages were condensed to fit the model's context window. Earlier requests:]`,
+    ...requests,
+  ].join("\n");
+}
+
+/**
+ * Keeps the conversation under the token budget. The opening request and
+ * the most recent turns are kept verbatim; the turns in between are replaced
+ * by a short summary of what was asked. Returns the turns unchanged when
+ * they already fit.
+ */
+export function fitHistory(
+  system: string,
+  turns: ProviderMessage[],
+  { budget, countTokens }: FitHistoryOptions,
+): { turns: ProviderMessage[]; truncated: boolean } {
+  const limit = Math.floor(budget * BUDGET_HEADROOM) - countTokens(system);
+  const sizes = turns.map((turn) => countTokens(turn.content));
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+
+  if (total <= limit || turns.length <= 2) {
+    return { turns, truncated: false };
+  }
+
+  // Walk back from the newest turn, keeping whatever still fits
+  let used = sizes[0];
+  let keepFrom = turns.length;
+  while (keepFrom > 1 && used + sizes[keepFrom - 1] <= limit) {
+    keepFrom--;
+    used += sizes[keepFrom];
+  }
+
+  // The newest turn is always sent, even if it alone exceeds the budget
+  if (keepFrom === turns.length) keepFrom--;
+
+  const dropped = turns.slice(1, keepFrom);
+  if (dropped.length === 0) {
+    return { turns, truncated: false };
+  }
+
+  const opening: ProviderMessage = {
+    role: "user",
+    content: `${turns[0].content}\n\n${summarize(dropped)}`,
+  };
+  const kept = turns.slice(keepFrom);
+
+  // Roles must keep alternating after the opening request
+  if (kept[0].role === "user") {
+    opening.content += `\n\n${kept.shift()!.content}`;
+  }
+
+  return { turns: [opening, ...kept], truncated: true };
+}
@@ -0,0 +1,50 @@
+import type { ProviderAdapter } from "@/types/services/providers";
+import { createAnthropicAdapter } from "./anthropic";
+import { createGoogleAdapter } from "./google";
+import { createOllamaAdapter } from "./ollama";
+import { createOpenAICompatibleAdapter } from "./openai-compatible";
+
+// One adapter per key of AI_PROVIDERS, built with the key for the request
+const adapterFactories: Record<string, (apiKey: string) => ProviderAdapter> = {
+  openai: (apiKey) =>
+    createOpenAICompatibleAdapter({
+      id: "openai",
+      apiKey,
+    }),
+  anthropic: createAnthropicAdapter,
+  google: createGoogleAdapter,
+  deepseek: (apiKey) =>
+    createOpenAICompatibleAdapter({
+      id: "deepseek",
+      apiKey,
+      baseURL: "https://api.deepseek.com/v1",
+    }),
+  grok: (apiKey) =>
+    createOpenAICompatibleAdapter({
+      id: "grok",
+      apiKey,
+      baseURL: "https://api.x.ai/v1",
+    }),
+  ollama: createOllamaAdapter,
+};
+
+// Token counting needs no key, so apiKey can be left out for that
+export function getProviderAdapter(
+  provider: string,
+  apiKey = "",
+): ProviderAdapter | null {
+  const factory = adapterFactories[provider];
+  return factory ? factory(apiKey) : null;
+}
+
+export {
+  collectCompletion,
+  createCodeFenceFilter,
+  createEventStream,
+  eventStreamHeaders,
+  fromTextChunks,
+  primeEvents,
+  stripCodeFences,
+  toUsage,
+} from "./stream";
+export { toGenerationOptions } from "./settings";
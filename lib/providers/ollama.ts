@@ -0,0 +1,81 @@
+import type {
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderStreamEvent,
+} from "@/types/services/providers";
+import { createOllamaChatRequest } from "@/utils/ollama";
+import { collectCompletion, toUsage } from "./stream";
+
+export function createOllamaAdapter(): ProviderAdapter {
+  async function* streamText({
+    model,
+    system,
+    messages,
+    options,
+  }: ProviderRequest): AsyncGenerator<ProviderStreamEvent> {
+    const response = await fetch(
+      "http://localhost:11434/api/chat",
+      createOllamaChatRequest(
+        model,
+        [
+          ...(system ? [{ role: "system" as const, content: system }] : []),
+          ...messages,
+        ],
+        options,
+      ),
+    );
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error("Ollama error:", errorData);
+      throw new Error(`Ollama API request failed: ${errorData}`);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error("Failed to get reader from Ollama response");
+    }
+
+    const decoder = new TextDecoder();
+    let pending = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Lines can be split across network chunks; keep the tail for later
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split("\n");
+        pending = lines.pop() ?? "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          const data = JSON.parse(line);
+          if (data.error) {
+            throw new Error(data.error);
+          }
+          if (data.message?.content) {
+            yield { type: "text", text: data.message.content };
+          }
+          if (data.done) {
+            yield {
+              type: "usage",
+              usage: toUsage(data.prompt_eval_count || 0, data.eval_count || 0),
+            };
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return {
+    id: "ollama",
+    streamText,
+    completeText: (request) => collectCompletion(streamText(request)),
+    countTokens: (text) => (text ? Math.ceil(text.length / 4) : 0),
+  };
+}
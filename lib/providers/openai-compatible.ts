@@ -0,0 +1,69 @@
+import OpenAI from "openai";
+import { encode } from "gpt-tokenizer";
+import type {
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderStreamEvent,
+} from "@/types/services/providers";
+import { collectCompletion, toUsage } from "./stream";
+
+interface OpenAICompatibleConfig {
+  id: string;
+  apiKey: string;
+  baseURL?: string;
+}
+
+// OpenAI, DeepSeek and xAI all speak the OpenAI chat completions protocol
+export function createOpenAICompatibleAdapter({
+  id,
+  apiKey,
+  baseURL,
+}: OpenAICompatibleConfig): ProviderAdapter {
+  const getClient = () =>
+    new OpenAI({ baseURL, apiKey });
+
+  async function* streamText({
+    model,
+    system,
+    messages,
+    options,
+  }: ProviderRequest): AsyncGenerator<ProviderStreamEvent> {
+    const stream = await getClient().chat.completions.create({
+      model,
+      messages: [
+        ...(system ? [{ role: "system" as const, content: system }] : []),
+        ...messages,
+      ],
+      stream: true,
+      stream_options: { include_usage: true },
+      temperature: options?.temperature,
+      max_tokens: options?.maxTokens,
+      top_p: options?.topP,
+      frequency_penalty: options?.frequencyPenalty,
+      presence_penalty: options?.presencePenalty,
+    });
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        yield { type: "text", text };
+      }
+      if (chunk.usage) {
+        yield {
+          type: "usage",
+          usage: toUsage(
+            chunk.usage.prompt_tokens,
+            chunk.usage.completion_tokens,
+          ),
+        };
+      }
+    }
+  }
+
+  return {
+    id,
+    streamText,
+    completeText: (request) => collectCompletion(streamText(request)),
+    countTokens: (text) => (text ? encode(text).length : 0),
+  };
+}
@@ -0,0 +1,75 @@
+import type { AIModel, AISettings } from "@/types/models/ai";
+import type { GenerationOptions } from "@/types/services/providers";
+
+type Range = [min: number, max: number];
+
+interface ProviderSettingLimits {
+  temperature: Range;
+  topP: Range;
+  // Providers without penalty support leave these out and never receive them
+  penalties?: Range;
+}
+
+const openAILimits: ProviderSettingLimits = {
+  temperature: [0, 2],
+  topP: [0, 1],
+  penalties: [-2, 2],
+};
+
+const PROVIDER_SETTING_LIMITS: Record<string, ProviderSettingLimits> = {
+  openai: openAILimits,
+  deepseek: openAILimits,
+  grok: openAILimits,
+  anthropic: { temperature: [0, 1], topP: [0, 1] },
+  google: { temperature: [0, 2], topP: [0, 1], penalties: [-2, 1.99] },
+  ollama: { temperature: [0, 2], topP: [0, 1], penalties: [-2, 2] },
+};
+
+// Output cap for models without a maxOutputTokens, as a share of the context
+const DEFAULT_OUTPUT_SHARE = 0.5;
+
+function clamp(value: number, [min, max]: Range): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Maps the settings from AISettingsPanel onto what the provider accepts:
+ * values are clamped to the provider's ranges and maxTokens to the model's
+ * output limit (falling back to half its context size).
+ */
+export function toGenerationOptions(
+  settings: AISettings,
+  provider: string,
+  model: AIModel,
+): GenerationOptions {
+  const limits = PROVIDER_SETTING_LIMITS[provider] ?? openAILimits;
+  const outputLimit =
+    model.maxOutputTokens ?? Math.floor(model.maxTokens * DEFAULT_OUTPUT_SHARE);
+
+  const options: GenerationOptions = {
+    temperature: clamp(settings.temperature, limits.temperature),
+    topP: clamp(settings.topP, limits.topP),
+    maxTokens: clamp(Math.floor(settings.maxTokens) || outputLimit, [
+      1,
+      outputLimit,
+    ]),
+  };
+
+  // Zero penalties are the provider default, so they are not sent at all
+  if (limits.penalties) {
+    if (settings.frequencyPenalty) {
+      options.frequencyPenalty = clamp(
+        settings.frequencyPenalty,
+        limits.penalties,
+      );
+    }
+    if (settings.presencePenalty) {
+      options.presencePenalty = clamp(
+        settings.presencePenalty,
+        limits.penalties,
+      );
+    }
+  }
+
+  return options;
+}
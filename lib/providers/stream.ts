@@ -0,0 +1,216 @@
+import type { StreamEvent } from "@/types/api/shared";
+import type {
+  ProviderCompletion,
+  ProviderStreamEvent,
+  ProviderUsage,
+} from "@/types/services/providers";
+
+const FLUSH_SIZE = 100;
+const FLUSH_INTERVAL_MS = 100;
+
+export const eventStreamHeaders = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+// Stateful text filter applied to the streamed deltas
+export interface TextFilter {
+  push(text: string): string;
+  flush(): string;
+}
+
+interface EventStreamOptions {
+  filter?: TextFilter;
+  // Sent before the first delta
+  warnings?: string[];
+  // Inspects the complete filtered text and returns warnings sent before done
+  finalWarnings?: (text: string) => string[];
+  // Runs once the provider finishes; the returned events are sent before done
+  onFinish?: (completion: ProviderCompletion) => Promise<StreamEvent[]>;
+}
+
+function encodeEvent({ type, ...data }: StreamEvent): string {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Turns provider events into a server-sent event stream of delta, usage,
+ * warning, error and done events. Text is buffered and flushed every
+ * FLUSH_SIZE characters or FLUSH_INTERVAL_MS, whichever comes first, so every
+ * provider streams with the same granularity. Failures mid-stream are sent as
+ * an error event instead of tearing down the connection.
+ */
+export function createEventStream(
+  events: AsyncGenerator<ProviderStreamEvent>,
+  { filter, warnings = [], finalWarnings, onFinish }: EventStreamOptions = {},
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: StreamEvent) =>
+        controller.enqueue(encoder.encode(encodeEvent(event)));
+
+      let buffer = "";
+      let fullText = "";
+      let usage: ProviderUsage | null = null;
+      let lastFlush = Date.now();
+
+      const flush = (text: string) => {
+        if (!text) return;
+        fullText += text;
+        send({ type: "delta", text });
+        lastFlush = Date.now();
+      };
+
+      warnings.forEach((message) => send({ type: "warning", message }));
+
+      try {
+        for await (const event of events) {
+          if (event.type === "usage") {
+            usage = event.usage;
+            send({ type: "usage", usage: event.usage });
+            continue;
+          }
+
+          buffer += filter ? filter.push(event.text) : event.text;
+          if (
+            buffer.length >= FLUSH_SIZE ||
+            Date.now() - lastFlush >= FLUSH_INTERVAL_MS
+          ) {
+            flush(buffer);
+            buffer = "";
+          }
+        }
+
+        flush(buffer + (filter ? filter.flush() : ""));
+        finalWarnings?.(fullText).forEach((message) =>
+          send({ type: "warning", message }),
+        );
+        if (onFinish) {
+          (await onFinish({ text: fullText, usage })).forEach(send);
+        }
+        send({ type: "done" });
+      } catch (error) {
+        console.error("Provider streaming error:", error);
+        send({
+          type: "error",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+}
+
+// Wraps a plain text generator (e.g. the error fix stream) as provider events
+export async function* fromTextChunks(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<ProviderStreamEvent> {
+  for await (const text of chunks) {
+    yield { type: "text", text };
+  }
+}
+
+/**
+ * Strips markdown code fence lines from streamed code. Fences can arrive
+ * split across chunks, so a trailing partial line is held back until it is
+ * clearly not a fence.
+ */
+export function createCodeFenceFilter(): TextFilter {
+  // Start of the current line, held back while it might still be a fence
+  let pending = "";
+  // Whether part of the current line was already emitted
+  let midLine = false;
+
+  const isFence = (line: string) => line.trimStart().startsWith("```");
+  const couldBeFence = (line: string) => "```".startsWith(line.trimStart());
+
+  return {
+    push(text) {
+      const parts = text.split("\n");
+      let output = "";
+
+      parts.forEach((part, index) => {
+        const endsLine = index < parts.length - 1;
+
+        if (midLine) {
+          output += endsLine ? `${part}\n` : part;
+          midLine = !endsLine;
+          return;
+        }
+
+        const line = pending + part;
+        pending = "";
+
+        if (endsLine) {
+          if (!isFence(line)) output += `${line}\n`;
+        } else if (isFence(line) || couldBeFence(line)) {
+          pending = line;
+        } else {
+          output += line;
+          midLine = true;
+        }
+      });
+
+      return output;
+    },
+    flush() {
+      const rest = isFence(pending) ? "" : pending;
+      pending = "";
+      midLine = false;
+      return rest;
+    },
+  };
+}
+
+// Removes code fence lines from a complete, non-streamed text
+export function stripCodeFences(text: string): string {
+  const filter = createCodeFenceFilter();
+  return filter.push(text) + filter.flush();
+}
+
+// Pulls the first event up front so request errors (bad key, unknown model)
+// surface before the response headers are sent
+export async function primeEvents(
+  events: AsyncGenerator<ProviderStreamEvent>,
+): Promise<AsyncGenerator<ProviderStreamEvent>> {
+  const first = await events.next();
+
+  return (async function* () {
+    if (first.done) return;
+    yield first.value;
+    yield* events;
+  })();
+}
+
+// Drains a provider stream into a single completion
+export async function collectCompletion(
+  events: AsyncGenerator<ProviderStreamEvent>,
+): Promise<ProviderCompletion> {
+  let text = "";
+  let usage: ProviderUsage | null = null;
+
+  for await (const event of events) {
+    if (event.type === "text") {
+      text += event.text;
+    } else {
+      usage = event.usage;
+    }
+  }
+
+  return { text, usage };
+}
+
+export function toUsage(
+  promptTokens: number,
+  responseTokens: number,
+): ProviderUsage {
+  return {
+    promptTokens,
+    responseTokens,
+    totalTokens: promptTokens + responseTokens,
+  };
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import {
+  RATE_LIMITS,
+  TRUSTED_PROXY_HOPS,
+  type RateLimitedRoute,
+} from "@/config/rate-limits";
+import type { RateLimitStore } from "@/types/services/rate-limit";
+import { createMemoryStore } from "./memory";
+import { createPrismaStore } from "./prisma";
+
+// Selected with RATE_LIMIT_STORE; add an entry here to keep hits elsewhere
+const storeFactories: Record<string, () => RateLimitStore> = {
+  memory: createMemoryStore,
+  prisma: createPrismaStore,
+};
+
+// Created once, since the memory store keeps its hits in the instance
+let store: RateLimitStore | null = null;
+
+function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const id = process.env.RATE_LIMIT_STORE ?? "memory";
+  const factory = storeFactories[id];
+  if (!factory) {
+    throw new Error(`Unknown rate limit store "${id}"`);
+  }
+  store = factory();
+  return store;
+}
+
+// Each trusted proxy appends the address it saw to X-Forwarded-For, so the
+// client is TRUSTED_PROXY_HOPS entries from the right; anything further left
+// comes from the client and may be forged. Route handlers can't see the socket
+// address, so without a trusted proxy the IP is "unknown".
+// Takes anything with headers so server components can pass headers() too.
+export function getClientIp(req: Pick<Request, "headers">): string {
+  if (TRUSTED_PROXY_HOPS === 0) return "unknown";
+
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] ?? "unknown";
+}
+
+/**
+ * Counts the request against the route's per-IP quota and, when an account
+ * is given, the per-account quota. The account is the signed-in user's id, or
+ * any other stable key for requests made before signing in. Unknown IPs skip
+ * the per-IP quota, since one bucket for every client would let one of them
+ * lock out the rest. Returns the seconds to wait before retrying once either
+ * is used up, or null when the request may go ahead.
+ */
+export async function checkRateLimit(
+  req: Request,
+  route: RateLimitedRoute,
+  account?: string,
+): Promise<number | null> {
+  const { windowMs, perIp, perUser } = RATE_LIMITS[route];
+  const ip = getClientIp(req);
+  const limits: [string, number | undefined][] = [
+    [`${route}:ip:${ip}`, ip === "unknown" ? undefined : perIp],
+    [`${route}:user:${account}`, account ? perUser : undefined],
+  ];
+
+  for (const [key, limit] of limits) {
+    if (limit === undefined) continue;
+
+    const { allowed, retryAfterMs } = await getRateLimitStore().hit(
+      key,
+      limit,
+      windowMs,
+    );
+    if (!allowed) return Math.max(1, Math.ceil(retryAfterMs / 1000));
+  }
+
+  return null;
+}
+
+export const rateLimitMessage = (retryAfter: number) =>
+  `Too many requests, try again in ${retryAfter} seconds`;
+
+export const retryAfterHeaders = (retryAfter: number) => ({
+  "Retry-After": String(retryAfter),
+});
+
+export function tooManyRequests(retryAfter: number) {
+  return NextResponse.json(
+    { error: rateLimitMessage(retryAfter) },
+    { status: 429, headers: retryAfterHeaders(retryAfter) },
+  );
+}
@@ -0,0 +1,39 @@
+import type { RateLimitResult, RateLimitStore } from "@/types/services/rate-limit";
+
+// Drop idle keys once this many are tracked
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * Keeps hits in process memory. Limits are per server instance and reset on
+ * restart, so deployments with several instances should use the prisma store.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { windowMs: number; hits: number[] }>();
+
+  function sweep(now: number) {
+    for (const [key, { windowMs, hits }] of windows) {
+      if (hits[hits.length - 1] <= now - windowMs) windows.delete(key);
+    }
+  }
+
+  return {
+    id: "memory",
+    async hit(key, limit, windowMs): Promise<RateLimitResult> {
+      const now = Date.now();
+      if (windows.size > SWEEP_THRESHOLD) sweep(now);
+
+      const hits = (windows.get(key)?.hits ?? []).filter(
+        (time) => time > now - windowMs,
+      );
+
+      if (hits.length >= limit) {
+        windows.set(key, { windowMs, hits });
+        return { allowed: false, retryAfterMs: hits[0] + windowMs - now };
+      }
+
+      hits.push(now);
+      windows.set(key, { windowMs, hits });
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+}
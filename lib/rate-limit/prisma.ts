@@ -0,0 +1,37 @@
+import prisma from "@/lib/prisma";
+import type { RateLimitResult, RateLimitStore } from "@/types/services/rate-limit";
+
+// Keeps hits in the database, so limits hold across instances and restarts
+export function createPrismaStore(): RateLimitStore {
+  return {
+    id: "prisma",
+    hit: (key, limit, windowMs) =>
+      prisma.$transaction(async (tx): Promise<RateLimitResult> => {
+        const now = new Date();
+        await tx.rateLimitHit.deleteMany({ where: { expiresAt: { lte: now } } });
+
+        const hits = await tx.rateLimitHit.findMany({
+          where: { key },
+          orderBy: { createdAt: "asc" },
+          select: { expiresAt: true },
+          take: limit,
+        });
+
+        if (hits.length >= limit) {
+          return {
+            allowed: false,
+            retryAfterMs: hits[0].expiresAt.getTime() - now.getTime(),
+          };
+        }
+
+        await tx.rateLimitHit.create({
+          data: {
+            key,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + windowMs),
+          },
+        });
+        return { allowed: true, retryAfterMs: 0 };
+      }),
+  };
+}
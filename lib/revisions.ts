@@ -0,0 +1,57 @@
+import prisma from "@/lib/prisma";
+
+interface RevisionInput {
+  code: string;
+  prompt: string;
+  model: string;
+}
+
+// Oldest first, so the list reads as a timeline
+export function listRevisions(appId: string) {
+  return prisma.revision.findMany({
+    where: { appId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Appends a revision after the app's newest one and makes its code the app's
+ * current code.
+ */
+export function createRevision(appId: string, input: RevisionInput) {
+  return prisma.$transaction(async (tx) => {
+    const head = await tx.revision.findFirst({
+      where: { appId },
+      orderBy: { createdAt: "desc" },
+      select: { id: true },
+    });
+
+    const revision = await tx.revision.create({
+      data: { appId, parentId: head?.id ?? null, ...input },
+    });
+    await tx.generatedApp.update({
+      where: { id: appId },
+      data: { code: input.code },
+    });
+
+    return revision;
+  });
+}
+
+/**
+ * Restores an earlier revision by appending a copy of it, so the versions in
+ * between stay in the history. Returns null when the revision is not one of
+ * the app's.
+ */
+export async function restoreRevision(appId: string, revisionId: string) {
+  const source = await prisma.revision.findFirst({
+    where: { id: revisionId, appId },
+  });
+  if (!source) return null;
+
+  return createRevision(appId, {
+    code: source.code,
+    model: source.model,
+    prompt: `Restored revision ${source.id}`,
+  });
+}
@@ -0,0 +1,218 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { scopeWhere, type Scope } from "@/lib/workspaces";
+import type {
+  SaveGenerationRequest,
+  SavedGenerationsQuery,
+  UpdateSavedGenerationRequest,
+} from "@/types/api/requests";
+import type { SavedGenerationsResponse } from "@/types/api/responses";
+import type { ProjectSummary, SavedGeneration } from "@/types/models/generation";
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+const savedGenerationSelect = {
+  id: true,
+  title: true,
+  description: true,
+  createdAt: true,
+  project: { select: { id: true, name: true } },
+  tags: { select: { name: true }, orderBy: { name: "asc" } },
+  generatedApp: {
+    select: {
+      id: true,
+      code: true,
+      model: true,
+      prompt: true,
+      analytics: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: {
+          modelName: true,
+          provider: true,
+          promptTokens: true,
+          responseTokens: true,
+          totalTokens: true,
+          maxTokens: true,
+          utilizationPercentage: true,
+          isEstimated: true,
+          cost: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.SavedAppSelect;
+
+type SavedAppRow = Prisma.SavedAppGetPayload<{
+  select: typeof savedGenerationSelect;
+}>;
+
+function toSavedGeneration(row: SavedAppRow): SavedGeneration {
+  const [analytics] = row.generatedApp.analytics;
+
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    createdAt: row.createdAt.toISOString(),
+    project: row.project,
+    tags: row.tags.map((tag) => tag.name),
+    generatedApp: {
+      ...row.generatedApp,
+      // Formatted the same way as the live analytics in the editor
+      analytics: analytics
+        ? {
+            ...analytics,
+            utilizationPercentage: analytics.utilizationPercentage.toFixed(2),
+          }
+        : null,
+    },
+  };
+}
+
+// Trimmed, lowercased and deduplicated, matching how tags are stored
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(
+    new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+  );
+}
+
+// Creates missing tags on the fly; used when saving and when replacing tags
+function connectTags(tags: string[]) {
+  return normalizeTags(tags).map((name) => ({
+    where: { name },
+    create: { name },
+  }));
+}
+
+export async function listSavedGenerations(
+  {
+    search,
+    projectId,
+    tag,
+    sort = "createdAt",
+    order = sort === "title" ? "asc" : "desc",
+    page = 1,
+    pageSize = DEFAULT_PAGE_SIZE,
+  }: SavedGenerationsQuery,
+  scope: Scope,
+): Promise<SavedGenerationsResponse> {
+  const where: Prisma.SavedAppWhereInput = {
+    ...scopeWhere(scope),
+    ...(projectId && { projectId: projectId === "none" ? null : projectId }),
+    ...(tag && { tags: { some: { name: tag.toLowerCase() } } }),
+    // SQLite's LIKE is case-insensitive for ASCII, which covers most searches
+    ...(search && {
+      OR: [
+        { title: { contains: search } },
+        { description: { contains: search } },
+        { generatedApp: { prompt: { contains: search } } },
+        { generatedApp: { code: { contains: search } } },
+      ],
+    }),
+  };
+
+  const orderBy: Prisma.SavedAppOrderByWithRelationInput =
+    sort === "cost" ? { generatedApp: { cost: order } } : { [sort]: order };
+
+  const [rows, total, tags] = await Promise.all([
+    prisma.savedApp.findMany({
+      where,
+      select: savedGenerationSelect,
+      // The id keeps pages stable when the sort key ties
+      orderBy: [orderBy, { id: "asc" }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.savedApp.count({ where }),
+    prisma.tag.findMany({
+      where: { savedApps: { some: scopeWhere(scope) } },
+      select: { name: true },
+      orderBy: { name: "asc" },
+    }),
+  ]);
+
+  return {
+    items: rows.map(toSavedGeneration),
+    total,
+    page,
+    pageSize,
+    tags: tags.map((t) => t.name),
+  };
+}
+
+export async function saveGeneration(
+  { title, description, generatedAppId, projectId, tags = [] }: SaveGenerationRequest,
+  scope: Scope,
+): Promise<SavedGeneration> {
+  const row = await prisma.savedApp.create({
+    data: {
+      userId: scope.userId,
+      workspaceId: scope.workspaceId,
+      title,
+      description,
+      appId: generatedAppId,
+      projectId: projectId ?? null,
+      tags: { connectOrCreate: connectTags(tags) },
+    },
+    select: savedGenerationSelect,
+  });
+
+  return toSavedGeneration(row);
+}
+
+export async function updateSavedGeneration(
+  id: string,
+  { tags, ...fields }: UpdateSavedGenerationRequest,
+): Promise<SavedGeneration> {
+  const row = await prisma.savedApp.update({
+    where: { id },
+    data: {
+      ...fields,
+      ...(tags && { tags: { set: [], connectOrCreate: connectTags(tags) } }),
+    },
+    select: savedGenerationSelect,
+  });
+
+  return toSavedGeneration(row);
+}
+
+export async function listProjects(scope: Scope): Promise<ProjectSummary[]> {
+  const projects = await prisma.project.findMany({
+    where: scopeWhere(scope),
+    orderBy: { name: "asc" },
+    include: { _count: { select: { savedApps: true } } },
+  });
+
+  return projects.map((project) => ({
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt.toISOString(),
+    appCount: project._count.savedApps,
+  }));
+}
+
+export async function createProject(
+  name: string,
+  scope: Scope,
+): Promise<ProjectSummary> {
+  const project = await prisma.project.create({
+    data: { name, userId: scope.userId, workspaceId: scope.workspaceId },
+  });
+
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt.toISOString(),
+    appCount: 0,
+  };
+}
+
+// Saved apps in the project are kept and become unfiled. Returns false when
+// the scope has no such project.
+export async function deleteProject(id: string, scope: Scope): Promise<boolean> {
+  const { count } = await prisma.project.deleteMany({
+    where: { id, ...scopeWhere(scope) },
+  });
+  return count > 0;
+}
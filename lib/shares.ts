@@ -0,0 +1,530 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { decrypt, encrypt, needsReencryption } from "@/lib/encryption";
+import { generateQRCode } from "@/lib/qr-generator";
+import { getClientIp } from "@/lib/rate-limit";
+import { SHARE_LOCKOUT } from "@/config/rate-limits";
+import { ENTRY_FILE, parseProjectFiles } from "@/utils/project-files";
+import { scopeWhere, type Scope } from "@/lib/workspaces";
+import type { CreateShareRequest, UpdateShareRequest } from "@/types/api/requests";
+import type { CreateShareResponse, OpenShareResponse } from "@/types/api/responses";
+import type {
+  SharedContent,
+  ShareAccessEntry,
+  ShareAccessOutcome,
+  ShareStatus,
+  ShareSummary,
+} from "@/types/models/share";
+
+const HOUR_MS = 60 * 60 * 1000;
+// The access log shows the most recent attempts only
+const ACCESS_LOG_LIMIT = 200;
+const EXCERPT_LINES = 9;
+const EXCERPT_LINE_LENGTH = 68;
+
+// Who opened a share, no more precisely than an audit needs
+export interface ShareClient {
+  client: string | null;
+  ipPrefix: string | null;
+}
+
+// Crawlers often claim to be Chrome too, so they are checked first
+const BROWSERS: [RegExp, string][] = [
+  [/bot|crawler|spider|preview|facebookexternalhit|embedly|whatsapp/i, "Bot"],
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+const findLabel = (patterns: [RegExp, string][], userAgent: string) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+// The network, not the host: IPv4 without its last octet, IPv6 without all
+// but its first three groups
+function maskIp(ip: string): string | null {
+  if (ip === "unknown") return null;
+  if (ip.includes(".")) return ip.replace(/\.\d+$/, ".0");
+  return `${ip.split(":").slice(0, 3).join(":")}::`;
+}
+
+// Link unfurlers and crawlers render shares for their previews, which
+// shouldn't use up views
+export const isBot = ({ client }: ShareClient) => client?.startsWith("Bot") ?? false;
+
+export function describeClient(headers: Headers): ShareClient {
+  const userAgent = headers.get("user-agent") ?? "";
+  const browser = findLabel(BROWSERS, userAgent);
+  const platform = findLabel(PLATFORMS, userAgent);
+
+  return {
+    client: browser && platform ? `${browser} on ${platform}` : browser ?? platform ?? null,
+    ipPrefix: maskIp(getClientIp({ headers })),
+  };
+}
+
+function shareStatus(share: {
+  revokedAt: Date | null;
+  expiresAt: Date | null;
+  remainingViews: number | null;
+}): ShareStatus {
+  if (share.revokedAt) return "revoked";
+  if (share.expiresAt && share.expiresAt < new Date()) return "expired";
+  if (share.remainingViews !== null && share.remainingViews <= 0) return "exhausted";
+  return "active";
+}
+
+const shareSummaryInclude = {
+  generatedApp: { select: { prompt: true } },
+  _count: { select: { accesses: { where: { outcome: "viewed" } } } },
+} satisfies Prisma.SharedCodeInclude;
+
+type ShareRow = Prisma.SharedCodeGetPayload<{ include: typeof shareSummaryInclude }>;
+
+function toShareSummary(share: ShareRow): ShareSummary {
+  return {
+    id: share.id,
+    appId: share.appId,
+    prompt: share.generatedApp.prompt,
+    isProtected: share.isEncrypted,
+    expiresAt: share.expiresAt?.toISOString() ?? null,
+    allowedViews: share.allowedViews,
+    remainingViews: share.remainingViews,
+    revokedAt: share.revokedAt?.toISOString() ?? null,
+    status: shareStatus(share),
+    lockedUntil:
+      share.lockedUntil && share.lockedUntil > new Date()
+        ? share.lockedUntil.toISOString()
+        : null,
+    views: share._count.accesses,
+    createdAt: share.createdAt.toISOString(),
+  };
+}
+
+export type OpenShareResult =
+  | { status: "ok"; share: OpenShareResponse }
+  // Too many wrong passwords; seconds until the share takes them again
+  | { status: "locked"; retryAfter: number }
+  | {
+      status:
+        | "not_found"
+        | "revoked"
+        | "expired"
+        | "exhausted"
+        | "password_required"
+        | "invalid_password";
+    };
+
+// NEXT_PUBLIC_BASE_URL wins over the request's origin behind a proxy
+export function shareUrl(id: string, origin: string): string {
+  return `${process.env.NEXT_PUBLIC_BASE_URL || origin}/share/${id}`;
+}
+
+// For server components, which have the request's headers but no URL
+export function requestOrigin(headers: Headers): string {
+  return `${headers.get("x-forwarded-proto") ?? "https"}://${headers.get("host")}`;
+}
+
+/**
+ * Shares a snapshot of the app as it is now, so later refinements don't
+ * change what the link shows. Returns null when the app doesn't exist.
+ */
+export async function createShare(
+  { appId, settings, password, expiresIn, allowedViews, generateQR }: CreateShareRequest,
+  scope: Scope,
+  origin: string,
+): Promise<CreateShareResponse | null> {
+  const app = await prisma.generatedApp.findUnique({
+    where: { id: appId },
+    select: { code: true, prompt: true, model: true },
+  });
+  if (!app) return null;
+
+  const content: SharedContent = { ...app, settings: settings ?? null };
+  const serialized = JSON.stringify(content);
+  const expiresAt = expiresIn ? new Date(Date.now() + expiresIn * HOUR_MS) : null;
+
+  const share = await prisma.sharedCode.create({
+    data: {
+      appId,
+      userId: scope.userId,
+      workspaceId: scope.workspaceId,
+      content: password ? await encrypt(serialized, password) : serialized,
+      isEncrypted: !!password,
+      expiresAt,
+      allowedViews: allowedViews ?? null,
+      remainingViews: allowedViews ?? null,
+    },
+  });
+
+  const url = shareUrl(share.id, origin);
+  return {
+    id: share.id,
+    url,
+    expiresAt: expiresAt?.toISOString() ?? null,
+    qrCode: generateQR ? (await generateQRCode(url)) || null : null,
+    isProtected: share.isEncrypted,
+  };
+}
+
+export async function listShares(scope: Scope, appId?: string): Promise<ShareSummary[]> {
+  const shares = await prisma.sharedCode.findMany({
+    where: { ...scopeWhere(scope), ...(appId && { appId }) },
+    orderBy: { createdAt: "desc" },
+    include: shareSummaryInclude,
+  });
+
+  return shares.map(toShareSummary);
+}
+
+/**
+ * Moves the expiry relative to now and tops up the views of a limited link.
+ * Revoked shares stay revoked; returns null for them and for shares the
+ * scope doesn't have.
+ */
+export async function updateShare(
+  id: string,
+  { expiresIn, addViews }: UpdateShareRequest,
+  scope: Scope,
+): Promise<ShareSummary | null> {
+  const share = await prisma.sharedCode.findFirst({
+    where: { id, ...scopeWhere(scope), revokedAt: null },
+    select: { remainingViews: true },
+  });
+  if (!share) return null;
+
+  const topUp = addViews && share.remainingViews !== null;
+  const updated = await prisma.sharedCode.update({
+    where: { id },
+    data: {
+      ...(expiresIn !== undefined && {
+        expiresAt: expiresIn === null ? null : new Date(Date.now() + expiresIn * HOUR_MS),
+      }),
+      ...(topUp && {
+        allowedViews: { increment: addViews },
+        remainingViews: { increment: addViews },
+      }),
+    },
+    include: shareSummaryInclude,
+  });
+
+  return toShareSummary(updated);
+}
+
+// Newest first; null when the scope has no such share
+export async function listShareAccess(
+  id: string,
+  scope: Scope,
+): Promise<ShareAccessEntry[] | null> {
+  const share = await prisma.sharedCode.findFirst({
+    where: { id, ...scopeWhere(scope) },
+    select: {
+      accesses: { orderBy: { createdAt: "desc" }, take: ACCESS_LOG_LIMIT },
+    },
+  });
+  if (!share) return null;
+
+  return share.accesses.map((access) => ({
+    id: access.id,
+    outcome: access.outcome as ShareAccessOutcome,
+    client: access.client,
+    ipPrefix: access.ipPrefix,
+    createdAt: access.createdAt.toISOString(),
+  }));
+}
+
+function logAccess(shareId: string, outcome: ShareAccessOutcome, client?: ShareClient) {
+  return prisma.shareAccess.create({
+    data: { shareId, outcome, ...client },
+  });
+}
+
+// Returns false when the scope has no such share
+export async function revokeShare(id: string, scope: Scope): Promise<boolean> {
+  const share = await prisma.sharedCode.findFirst({
+    where: { id, ...scopeWhere(scope) },
+    select: { revokedAt: true },
+  });
+  if (!share) return false;
+
+  if (!share.revokedAt) {
+    await prisma.sharedCode.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+  }
+  return true;
+}
+
+// What the share's Open Graph card shows
+export interface ShareCard {
+  isProtected: boolean;
+  // The saved title, or the prompt when the app wasn't saved
+  title: string;
+  model: string;
+  provider: string | null;
+  generations: number;
+  totalTokens: number;
+  // The top of the entry file after its imports; empty when protected
+  codeExcerpt: string[];
+}
+
+function codeExcerpt(code: string): string[] {
+  const files = parseProjectFiles(code);
+  const source = files[ENTRY_FILE] ?? Object.values(files)[0] ?? "";
+  const lines = source.replace(/\t/g, "  ").split("\n");
+  // Multi-line imports end on their "} from" line
+  const lastImport = lines.reduce(
+    (last, line, index) => (/^\s*(import\b|\}\s*from\s)/.test(line) ? index : last),
+    -1,
+  );
+  const start = Math.max(lines.findIndex((line, index) => index > lastImport && line.trim()), 0);
+
+  return lines
+    .slice(start, start + EXCERPT_LINES)
+    .map((line) =>
+      line.length > EXCERPT_LINE_LENGTH ? `${line.slice(0, EXCERPT_LINE_LENGTH - 1)}…` : line,
+    );
+}
+
+/**
+ * The generation behind a share as link previews show it. Protected shares
+ * only reveal which model built them. Null unless the share can still be
+ * opened, so previews stop once it is revoked, expired or out of views.
+ */
+export async function getShareCard(id: string): Promise<ShareCard | null> {
+  const share = await prisma.sharedCode.findUnique({
+    where: { id },
+    select: {
+      content: true,
+      isEncrypted: true,
+      revokedAt: true,
+      expiresAt: true,
+      remainingViews: true,
+      generatedApp: {
+        select: {
+          id: true,
+          code: true,
+          prompt: true,
+          model: true,
+          savedApp: { select: { title: true } },
+          analytics: {
+            orderBy: { createdAt: "desc" },
+            take: 1,
+            select: { provider: true },
+          },
+        },
+      },
+    },
+  });
+  if (!share || shareStatus(share) !== "active") return null;
+
+  const app = share.generatedApp;
+  const provider = app.analytics[0]?.provider ?? null;
+  if (share.isEncrypted) {
+    return {
+      isProtected: true,
+      title: "A protected app",
+      model: app.model,
+      provider,
+      generations: 0,
+      totalTokens: 0,
+      codeExcerpt: [],
+    };
+  }
+
+  const usage = await prisma.analytics.aggregate({
+    where: { appId: app.id },
+    _count: true,
+    _sum: { totalTokens: true },
+  });
+  // The snapshot, so the card matches what the link opens
+  const snapshot: SharedContent | null = share.content ? JSON.parse(share.content) : null;
+
+  return {
+    isProtected: false,
+    title: app.savedApp?.title ?? snapshot?.prompt ?? app.prompt,
+    model: snapshot?.model ?? app.model,
+    provider,
+    generations: usage._count,
+    totalTokens: usage._sum.totalTokens ?? 0,
+    codeExcerpt: codeExcerpt(snapshot?.code ?? app.code),
+  };
+}
+
+// What link previews may show, for shares that can still be opened; protected
+// shares keep their prompt private
+export async function getSharePreview(
+  id: string,
+): Promise<{ prompt: string | null } | null> {
+  const share = await prisma.sharedCode.findUnique({
+    where: { id },
+    select: {
+      isEncrypted: true,
+      revokedAt: true,
+      expiresAt: true,
+      remainingViews: true,
+      generatedApp: { select: { prompt: true } },
+    },
+  });
+  if (!share || shareStatus(share) !== "active") return null;
+
+  return { prompt: share.isEncrypted ? null : share.generatedApp.prompt };
+}
+
+// What a decrypted share must hold; settings are stored as they were chosen
+const sharedContentSchema = z.object({
+  code: z.string(),
+  prompt: z.string(),
+  model: z.string(),
+  settings: z.record(z.unknown()).nullish(),
+});
+
+// Throws unless the plaintext is a share snapshot
+function parseSharedContent(serialized: string): SharedContent {
+  const { settings, ...content } = sharedContentSchema.parse(JSON.parse(serialized));
+  return { ...content, settings: (settings ?? null) as SharedContent["settings"] };
+}
+
+// Seconds until a locked share takes passwords again, or null when it does
+function lockRemaining(lockedUntil: Date | null): number | null {
+  const ms = lockedUntil ? lockedUntil.getTime() - Date.now() : 0;
+  return ms > 0 ? Math.ceil(ms / 1000) : null;
+}
+
+// Counts a password attempt before the slow decryption, so concurrent guesses
+// can't all get in before the share locks. Conditional on the share not being
+// locked and on no other attempt having been counted since it was read; null
+// when either fails. The attempt that reaches the limit locks the share up
+// front, and the right password clears it again. Returns the seconds the
+// share is locked for when this attempt turns out wrong.
+async function claimAttempt(
+  id: string,
+  failedAttempts: number,
+): Promise<{ lockedFor: number | null } | null> {
+  const overLimit = failedAttempts + 1 - SHARE_LOCKOUT.maxAttempts;
+  const lockMs =
+    overLimit < 0
+      ? null
+      : Math.min(SHARE_LOCKOUT.baseLockMs * 2 ** overLimit, SHARE_LOCKOUT.maxLockMs);
+
+  const { count } = await prisma.sharedCode.updateMany({
+    where: {
+      id,
+      failedAttempts,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: new Date() } }],
+    },
+    data: {
+      failedAttempts: { increment: 1 },
+      ...(lockMs && { lockedUntil: new Date(Date.now() + lockMs) }),
+    },
+  });
+  if (count === 0) return null;
+
+  return { lockedFor: lockMs && Math.ceil(lockMs / 1000) };
+}
+
+/**
+ * Opens a share for a visitor, counts the view and records the attempt in the
+ * access log. Protected shares need the password and lock for a while after
+ * too many wrong ones. Shares encrypted in an older format are upgraded once
+ * the password is known.
+ */
+export async function openShare(
+  id: string,
+  password?: string,
+  client?: ShareClient,
+): Promise<OpenShareResult> {
+  const share = await prisma.sharedCode.findUnique({
+    where: { id },
+    include: {
+      generatedApp: { select: { code: true, prompt: true, model: true } },
+    },
+  });
+
+  if (!share) return { status: "not_found" };
+
+  const status = shareStatus(share);
+  if (status !== "active") {
+    await logAccess(id, status, client);
+    return { status };
+  }
+  // Only the password form is shown, so there is nothing to log yet
+  if (share.isEncrypted && !password) return { status: "password_required" };
+
+  // Shares created before snapshots were stored show the app as it is now
+  let content: SharedContent | null = null;
+  let reencrypted: string | null = null;
+  let claimed = false;
+  if (share.isEncrypted && share.content && password) {
+    const lockedFor = lockRemaining(share.lockedUntil);
+    const attempt = lockedFor ? null : await claimAttempt(id, share.failedAttempts);
+    if (!attempt) {
+      // Losing the race to a concurrent attempt only needs a moment's wait
+      await logAccess(id, "locked", client);
+      return { status: "locked", retryAfter: lockedFor ?? 1 };
+    }
+    claimed = true;
+
+    let serialized: string;
+    try {
+      serialized = await decrypt(share.content, password);
+      // Legacy CBC shares can decrypt under a wrong password when the padding
+      // happens to look valid, so only a snapshot counts as the right one
+      content = parseSharedContent(serialized);
+    } catch {
+      await logAccess(id, "invalid_password", client);
+      return attempt.lockedFor
+        ? { status: "locked", retryAfter: attempt.lockedFor }
+        : { status: "invalid_password" };
+    }
+    if (needsReencryption(share.content)) {
+      reencrypted = await encrypt(serialized, password);
+    }
+  } else if (share.content) {
+    content = JSON.parse(share.content);
+  }
+
+  // Conditional on a view being left, so concurrent visitors can't open the
+  // share more often than allowed
+  if (share.remainingViews !== null) {
+    const { count } = await prisma.sharedCode.updateMany({
+      where: { id, remainingViews: { gt: 0 } },
+      data: { remainingViews: { decrement: 1 } },
+    });
+    if (count === 0) {
+      await logAccess(id, "exhausted", client);
+      return { status: "exhausted" };
+    }
+  }
+
+  const { remainingViews } = await prisma.sharedCode.update({
+    where: { id },
+    data: {
+      ...(claimed && { failedAttempts: 0, lockedUntil: null }),
+      ...(reencrypted && { content: reencrypted }),
+    },
+    select: { remainingViews: true },
+  });
+
+  await logAccess(id, "viewed", client);
+
+  return {
+    status: "ok",
+    share: {
+      content: content ?? { ...share.generatedApp, settings: null },
+      expiresAt: share.expiresAt?.toISOString() ?? null,
+      remainingViews,
+    },
+  };
+}
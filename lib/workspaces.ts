@@ -0,0 +1,168 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import type { AuthUser } from "@/types/services/auth";
+import type {
+  WorkspaceMemberInfo,
+  WorkspaceRole,
+  WorkspaceSummary,
+} from "@/types/models/workspace";
+
+// Remembers which space the user is working in between requests
+export const WORKSPACE_COOKIE = "nexaforge_workspace";
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+export const WORKSPACE_ROLES = Object.keys(ROLE_RANK) as [WorkspaceRole, ...WorkspaceRole[]];
+
+export const hasRole = (role: WorkspaceRole, required: WorkspaceRole) =>
+  ROLE_RANK[role] >= ROLE_RANK[required];
+
+/**
+ * Where a request reads and writes: a workspace, or the user's personal space
+ * when workspaceId is null. Users own their personal space.
+ */
+export interface Scope {
+  userId: string;
+  workspaceId: string | null;
+  role: WorkspaceRole;
+}
+
+export async function getMembershipRole(
+  workspaceId: string,
+  userId: string,
+): Promise<WorkspaceRole | null> {
+  const member = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true },
+  });
+  return (member?.role as WorkspaceRole | undefined) ?? null;
+}
+
+// Falls back to the personal space once the user has left the workspace
+export async function getScope(user: AuthUser): Promise<Scope> {
+  const workspaceId = (await cookies()).get(WORKSPACE_COOKIE)?.value;
+  const role = workspaceId ? await getMembershipRole(workspaceId, user.id) : null;
+
+  return workspaceId && role
+    ? { userId: user.id, workspaceId, role }
+    : { userId: user.id, workspaceId: null, role: "owner" };
+}
+
+// null switches back to the personal space
+export async function setActiveWorkspace(workspaceId: string | null): Promise<void> {
+  const store = await cookies();
+  if (!workspaceId) {
+    store.delete(WORKSPACE_COOKIE);
+    return;
+  }
+
+  store.set(WORKSPACE_COOKIE, workspaceId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+  });
+}
+
+// Rows that belong to the scope
+export function scopeWhere(scope: Scope) {
+  return scope.workspaceId
+    ? { workspaceId: scope.workspaceId }
+    : { userId: scope.userId, workspaceId: null };
+}
+
+export function forbidden(required: WorkspaceRole) {
+  return NextResponse.json(
+    { error: `This requires the ${required} role in the workspace` },
+    { status: 403 },
+  );
+}
+
+/**
+ * The user's role for a generated app: owner of their own apps, and their
+ * membership role for apps saved to one of their workspaces. Null when the
+ * user has no access at all.
+ */
+export async function getAppRole(
+  appId: string,
+  userId: string,
+): Promise<WorkspaceRole | null> {
+  const app = await prisma.generatedApp.findUnique({
+    where: { id: appId },
+    select: { userId: true, savedApp: { select: { workspaceId: true } } },
+  });
+  if (!app) return null;
+  if (app.userId === userId) return "owner";
+
+  const workspaceId = app.savedApp?.workspaceId;
+  return workspaceId ? getMembershipRole(workspaceId, userId) : null;
+}
+
+export async function listWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId },
+    orderBy: { workspace: { name: "asc" } },
+    select: {
+      role: true,
+      workspace: {
+        select: {
+          id: true,
+          name: true,
+          _count: { select: { members: true } },
+        },
+      },
+    },
+  });
+
+  return memberships.map(({ role, workspace }) => ({
+    id: workspace.id,
+    name: workspace.name,
+    role: role as WorkspaceRole,
+    memberCount: workspace._count.members,
+  }));
+}
+
+export async function createWorkspace(
+  name: string,
+  userId: string,
+): Promise<WorkspaceSummary> {
+  const workspace = await prisma.workspace.create({
+    data: { name, members: { create: { userId, role: "owner" } } },
+  });
+
+  return { id: workspace.id, name: workspace.name, role: "owner", memberCount: 1 };
+}
+
+export async function listMembers(workspaceId: string): Promise<WorkspaceMemberInfo[]> {
+  const members = await prisma.workspaceMember.findMany({
+    where: { workspaceId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      role: true,
+      createdAt: true,
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+
+  return members.map(({ role, createdAt, user }) => ({
+    userId: user.id,
+    email: user.email,
+    name: user.name,
+    role: role as WorkspaceRole,
+    createdAt: createdAt.toISOString(),
+  }));
+}
+
+// Every workspace keeps at least one owner who can manage it
+export async function isLastOwner(workspaceId: string, userId: string): Promise<boolean> {
+  const owners = await prisma.workspaceMember.findMany({
+    where: { workspaceId, role: "owner" },
+    select: { userId: true },
+  });
+  return owners.length === 1 && owners[0].userId === userId;
+}
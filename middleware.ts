@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth/cookie";
+
+// Sends visitors without a session to the sign-in page. Only the cookie's
+// presence is checked here; the API routes validate the session itself.
+export function middleware(req: NextRequest) {
+  if (req.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const url = new URL("/login", req.url);
+  url.searchParams.set("next", req.nextUrl.pathname);
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Shared links and embeds stay public, and API routes answer 401 themselves
+  matcher: ["/((?!api|login|share/|embed/|_next|favicon.ico|robots.txt|.*\\..*).*)"],
+};
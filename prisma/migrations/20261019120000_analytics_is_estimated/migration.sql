@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Analytics" ADD COLUMN "isEstimated" BOOLEAN NOT NULL DEFAULT true;
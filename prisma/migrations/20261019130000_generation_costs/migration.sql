@@ -0,0 +1,14 @@
+-- DropIndex
+DROP INDEX "Analytics_appId_key";
+
+-- AlterTable
+ALTER TABLE "Analytics" ADD COLUMN "cost" REAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "GeneratedApp" ADD COLUMN "cost" REAL NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Analytics_appId_idx" ON "Analytics"("appId");
+
+-- CreateIndex
+CREATE INDEX "Analytics_createdAt_idx" ON "Analytics"("createdAt");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "Revision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "prompt" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Revision_appId_fkey" FOREIGN KEY ("appId") REFERENCES "GeneratedApp" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Revision_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Revision" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Revision_appId_createdAt_idx" ON "Revision"("appId", "createdAt");
+
+-- Existing apps start their history with their current code
+INSERT INTO "Revision" ("id", "appId", "parentId", "prompt", "model", "code", "createdAt")
+SELECT "id", "id", NULL, "prompt", "model", "code", "createdAt" FROM "GeneratedApp";
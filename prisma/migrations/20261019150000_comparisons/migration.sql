@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "Comparison" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "prompt" TEXT NOT NULL,
+    "winnerAppId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- AlterTable
+ALTER TABLE "Analytics" ADD COLUMN "latencyMs" INTEGER;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_GeneratedApp" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "model" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cost" REAL NOT NULL DEFAULT 0,
+    "comparisonId" TEXT,
+    CONSTRAINT "GeneratedApp_comparisonId_fkey" FOREIGN KEY ("comparisonId") REFERENCES "Comparison" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_GeneratedApp" ("code", "cost", "createdAt", "id", "model", "prompt") SELECT "code", "cost", "createdAt", "id", "model", "prompt" FROM "GeneratedApp";
+DROP TABLE "GeneratedApp";
+ALTER TABLE "new_GeneratedApp" RENAME TO "GeneratedApp";
+CREATE INDEX "GeneratedApp_id_idx" ON "GeneratedApp"("id");
+CREATE INDEX "GeneratedApp_comparisonId_idx" ON "GeneratedApp"("comparisonId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "_SavedAppToTag" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_SavedAppToTag_A_fkey" FOREIGN KEY ("A") REFERENCES "SavedApp" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_SavedAppToTag_B_fkey" FOREIGN KEY ("B") REFERENCES "Tag" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SavedApp" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "appId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SavedApp_appId_fkey" FOREIGN KEY ("appId") REFERENCES "GeneratedApp" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "SavedApp_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_SavedApp" ("appId", "createdAt", "description", "id", "title") SELECT "appId", "createdAt", "description", "id", "title" FROM "SavedApp";
+DROP TABLE "SavedApp";
+ALTER TABLE "new_SavedApp" RENAME TO "SavedApp";
+CREATE UNIQUE INDEX "SavedApp_appId_key" ON "SavedApp"("appId");
+CREATE INDEX "SavedApp_projectId_idx" ON "SavedApp"("projectId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_name_key" ON "Project"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_name_key" ON "Tag"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_SavedAppToTag_AB_unique" ON "_SavedAppToTag"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_SavedAppToTag_B_index" ON "_SavedAppToTag"("B");
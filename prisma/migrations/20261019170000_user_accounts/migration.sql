@@ -0,0 +1,138 @@
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tokenHash" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Session_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- DropIndex
+DROP INDEX "Project_name_key";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_GeneratedApp" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "model" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cost" REAL NOT NULL DEFAULT 0,
+    "comparisonId" TEXT,
+    CONSTRAINT "GeneratedApp_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "GeneratedApp_comparisonId_fkey" FOREIGN KEY ("comparisonId") REFERENCES "Comparison" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_GeneratedApp" ("code", "comparisonId", "cost", "createdAt", "id", "model", "prompt") SELECT "code", "comparisonId", "cost", "createdAt", "id", "model", "prompt" FROM "GeneratedApp";
+DROP TABLE "GeneratedApp";
+ALTER TABLE "new_GeneratedApp" RENAME TO "GeneratedApp";
+CREATE INDEX "GeneratedApp_id_idx" ON "GeneratedApp"("id");
+CREATE INDEX "GeneratedApp_comparisonId_idx" ON "GeneratedApp"("comparisonId");
+CREATE INDEX "GeneratedApp_userId_idx" ON "GeneratedApp"("userId");
+CREATE TABLE "new_Comparison" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "prompt" TEXT NOT NULL,
+    "winnerAppId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Comparison_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Comparison" ("createdAt", "id", "prompt", "winnerAppId") SELECT "createdAt", "id", "prompt", "winnerAppId" FROM "Comparison";
+DROP TABLE "Comparison";
+ALTER TABLE "new_Comparison" RENAME TO "Comparison";
+CREATE INDEX "Comparison_userId_idx" ON "Comparison"("userId");
+CREATE TABLE "new_SavedApp" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "appId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SavedApp_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "SavedApp_appId_fkey" FOREIGN KEY ("appId") REFERENCES "GeneratedApp" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "SavedApp_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_SavedApp" ("appId", "createdAt", "description", "id", "projectId", "title") SELECT "appId", "createdAt", "description", "id", "projectId", "title" FROM "SavedApp";
+DROP TABLE "SavedApp";
+ALTER TABLE "new_SavedApp" RENAME TO "SavedApp";
+CREATE UNIQUE INDEX "SavedApp_appId_key" ON "SavedApp"("appId");
+CREATE INDEX "SavedApp_projectId_idx" ON "SavedApp"("projectId");
+CREATE INDEX "SavedApp_userId_idx" ON "SavedApp"("userId");
+CREATE TABLE "new_Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Project" ("createdAt", "id", "name") SELECT "createdAt", "id", "name" FROM "Project";
+DROP TABLE "Project";
+ALTER TABLE "new_Project" RENAME TO "Project";
+CREATE UNIQUE INDEX "Project_userId_name_key" ON "Project"("userId", "name");
+CREATE TABLE "new_Analytics" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appId" TEXT NOT NULL,
+    "userId" TEXT,
+    "modelName" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "responseTokens" INTEGER NOT NULL,
+    "totalTokens" INTEGER NOT NULL,
+    "maxTokens" INTEGER NOT NULL,
+    "utilizationPercentage" REAL NOT NULL,
+    "isEstimated" BOOLEAN NOT NULL DEFAULT true,
+    "cost" REAL NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Analytics_appId_fkey" FOREIGN KEY ("appId") REFERENCES "GeneratedApp" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Analytics_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Analytics" ("appId", "cost", "createdAt", "id", "isEstimated", "latencyMs", "maxTokens", "modelName", "promptTokens", "provider", "responseTokens", "totalTokens", "utilizationPercentage") SELECT "appId", "cost", "createdAt", "id", "isEstimated", "latencyMs", "maxTokens", "modelName", "promptTokens", "provider", "responseTokens", "totalTokens", "utilizationPercentage" FROM "Analytics";
+DROP TABLE "Analytics";
+ALTER TABLE "new_Analytics" RENAME TO "Analytics";
+CREATE INDEX "Analytics_appId_idx" ON "Analytics"("appId");
+CREATE INDEX "Analytics_createdAt_idx" ON "Analytics"("createdAt");
+CREATE INDEX "Analytics_userId_idx" ON "Analytics"("userId");
+CREATE TABLE "new_SharedCode" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appId" TEXT NOT NULL,
+    "userId" TEXT,
+    "content" TEXT,
+    "isEncrypted" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" DATETIME,
+    "allowedViews" INTEGER,
+    "remainingViews" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SharedCode_appId_fkey" FOREIGN KEY ("appId") REFERENCES "GeneratedApp" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "SharedCode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_SharedCode" ("allowedViews", "appId", "content", "createdAt", "expiresAt", "id", "isEncrypted", "remainingViews") SELECT "allowedViews", "appId", "content", "createdAt", "expiresAt", "id", "isEncrypted", "remainingViews" FROM "SharedCode";
+DROP TABLE "SharedCode";
+ALTER TABLE "new_SharedCode" RENAME TO "SharedCode";
+CREATE UNIQUE INDEX "SharedCode_appId_key" ON "SharedCode"("appId");
+CREATE INDEX "SharedCode_appId_idx" ON "SharedCode"("appId");
+CREATE INDEX "SharedCode_userId_idx" ON "SharedCode"("userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Session_tokenHash_key" ON "Session"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "Session_userId_idx" ON "Session"("userId");
@@ -0,0 +1,116 @@
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceMember" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WorkspaceMember_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "WorkspaceMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- DropIndex
+DROP INDEX "Project_userId_name_key";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SavedApp" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "workspaceId" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "appId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SavedApp_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "SavedApp_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SavedApp_appId_fkey" FOREIGN KEY ("appId") REFERENCES "GeneratedApp" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "SavedApp_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_SavedApp" ("appId", "createdAt", "description", "id", "projectId", "title", "userId") SELECT "appId", "createdAt", "description", "id", "projectId", "title", "userId" FROM "SavedApp";
+DROP TABLE "SavedApp";
+ALTER TABLE "new_SavedApp" RENAME TO "SavedApp";
+CREATE UNIQUE INDEX "SavedApp_appId_key" ON "SavedApp"("appId");
+CREATE INDEX "SavedApp_projectId_idx" ON "SavedApp"("projectId");
+CREATE INDEX "SavedApp_userId_idx" ON "SavedApp"("userId");
+CREATE INDEX "SavedApp_workspaceId_idx" ON "SavedApp"("workspaceId");
+CREATE TABLE "new_Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "workspaceId" TEXT,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Project_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Project" ("createdAt", "id", "name", "userId") SELECT "createdAt", "id", "name", "userId" FROM "Project";
+DROP TABLE "Project";
+ALTER TABLE "new_Project" RENAME TO "Project";
+CREATE INDEX "Project_userId_idx" ON "Project"("userId");
+CREATE INDEX "Project_workspaceId_idx" ON "Project"("workspaceId");
+CREATE TABLE "new_Analytics" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appId" TEXT NOT NULL,
+    "userId" TEXT,
+    "workspaceId" TEXT,
+    "modelName" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "responseTokens" INTEGER NOT NULL,
+    "totalTokens" INTEGER NOT NULL,
+    "maxTokens" INTEGER NOT NULL,
+    "utilizationPercentage" REAL NOT NULL,
+    "isEstimated" BOOLEAN NOT NULL DEFAULT true,
+    "cost" REAL NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Analytics_appId_fkey" FOREIGN KEY ("appId") REFERENCES "GeneratedApp" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Analytics_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Analytics_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Analytics" ("appId", "cost", "createdAt", "id", "isEstimated", "latencyMs", "maxTokens", "modelName", "promptTokens", "provider", "responseTokens", "totalTokens", "userId", "utilizationPercentage") SELECT "appId", "cost", "createdAt", "id", "isEstimated", "latencyMs", "maxTokens", "modelName", "promptTokens", "provider", "responseTokens", "totalTokens", "userId", "utilizationPercentage" FROM "Analytics";
+DROP TABLE "Analytics";
+ALTER TABLE "new_Analytics" RENAME TO "Analytics";
+CREATE INDEX "Analytics_appId_idx" ON "Analytics"("appId");
+CREATE INDEX "Analytics_createdAt_idx" ON "Analytics"("createdAt");
+CREATE INDEX "Analytics_userId_idx" ON "Analytics"("userId");
+CREATE INDEX "Analytics_workspaceId_idx" ON "Analytics"("workspaceId");
+CREATE TABLE "new_SharedCode" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appId" TEXT NOT NULL,
+    "userId" TEXT,
+    "workspaceId" TEXT,
+    "content" TEXT,
+    "isEncrypted" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" DATETIME,
+    "allowedViews" INTEGER,
+    "remainingViews" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SharedCode_appId_fkey" FOREIGN KEY ("appId") REFERENCES "GeneratedApp" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "SharedCode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "SharedCode_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SharedCode" ("allowedViews", "appId", "content", "createdAt", "expiresAt", "id", "isEncrypted", "remainingViews", "userId") SELECT "allowedViews", "appId", "content", "createdAt", "expiresAt", "id", "isEncrypted", "remainingViews", "userId" FROM "SharedCode";
+DROP TABLE "SharedCode";
+ALTER TABLE "new_SharedCode" RENAME TO "SharedCode";
+CREATE UNIQUE INDEX "SharedCode_appId_key" ON "SharedCode"("appId");
+CREATE INDEX "SharedCode_appId_idx" ON "SharedCode"("appId");
+CREATE INDEX "SharedCode_userId_idx" ON "SharedCode"("userId");
+CREATE INDEX "SharedCode_workspaceId_idx" ON "SharedCode"("workspaceId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceMember_workspaceId_userId_key" ON "WorkspaceMember"("workspaceId", "userId");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceMember_userId_idx" ON "WorkspaceMember"("userId");
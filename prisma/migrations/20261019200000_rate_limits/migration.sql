@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "RateLimitHit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitHit_key_createdAt_idx" ON "RateLimitHit"("key", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RateLimitHit_expiresAt_idx" ON "RateLimitHit"("expiresAt");
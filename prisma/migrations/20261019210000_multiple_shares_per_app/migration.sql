@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "SharedCode_appId_key";
+
+-- AlterTable
+ALTER TABLE "SharedCode" ADD COLUMN "revokedAt" DATETIME;
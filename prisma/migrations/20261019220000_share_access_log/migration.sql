@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ShareAccess" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shareId" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "client" TEXT,
+    "ipPrefix" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ShareAccess_shareId_fkey" FOREIGN KEY ("shareId") REFERENCES "SharedCode" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ShareAccess_shareId_createdAt_idx" ON "ShareAccess"("shareId", "createdAt");
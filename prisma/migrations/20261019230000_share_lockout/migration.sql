@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SharedCode" ADD COLUMN "failedAttempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "SharedCode" ADD COLUMN "lockedUntil" DATETIME;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Analytics" ADD COLUMN "keySource" TEXT NOT NULL DEFAULT 'server';
@@ -2,21 +2,225 @@
 import {
   // API Types
   GenerateCodeRequest,
-  TokenAnalyticsRequest,
   SaveGenerationRequest,
+  UpdateSavedGenerationRequest,
+  SavedGenerationsQuery,
+  SavedGenerationsResponse,
+  CreateProjectRequest,
+  CreatePromptTemplateRequest,
+  UpdatePromptTemplateRequest,
+  LoginRequest,
+  RegisterRequest,
+  CreateWorkspaceRequest,
+  AddWorkspaceMemberRequest,
+  UpdateWorkspaceMemberRequest,
+  WorkspacesResponse,
+  SaveApiKeyRequest,
+  TestApiKeyRequest,
+  TestApiKeyResponse,
   TokenAnalyticsResponse,
   GeneratedAppResponse,
+  AnalyticsQuery,
+  AnalyticsQueryResponse,
+  CodeDiagnosticsResponse,
+  CreateRevisionRequest,
+  CreateComparisonRequest,
+  CreateShareRequest,
+  CreateShareResponse,
+  OpenShareRequest,
+  OpenShareResponse,
+  UpdateShareRequest,
   // Model Types
   AISettings,
   SavedGeneration,
+  ProjectSummary,
+  PromptTemplateSummary,
   ChatMessage,
-  CumulativeTokenAnalytics,
+  BudgetStatus,
+  Revision,
+  Comparison,
+  ShareSummary,
+  ShareAccessEntry,
+  WorkspaceSummary,
+  WorkspaceMemberInfo,
+  ApiKeyStatus,
+  KeyedProvider,
   // Service Types
+  AuthUser,
   OllamaModel,
   ErrorFixContext,
   CodeError,
-  FixAttempt
+  FixAttempt,
+  VerifiedFix,
+  ProviderUsage,
+  StreamEvent
 } from '@/types';
+import { formatCodeIssue, verifyCode } from '@/utils/code-verification';
+
+// Auth APIs
+const postAuth = async (path: string, body?: object): Promise<Response> => {
+  const response = await fetch(`/api/auth/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body ?? {}),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || `Failed to ${path}`);
+  }
+
+  return response;
+};
+
+export const login = async (params: LoginRequest): Promise<AuthUser> =>
+  (await postAuth('login', params)).json();
+
+export const register = async (params: RegisterRequest): Promise<AuthUser> =>
+  (await postAuth('register', params)).json();
+
+export const logout = async (): Promise<void> => {
+  await postAuth('logout');
+};
+
+// Null when nobody is signed in or the session has expired
+export const fetchSession = async (): Promise<AuthUser | null> => {
+  const response = await fetch('/api/auth/session');
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error('Failed to fetch session');
+  }
+  return response.json();
+};
+
+// Workspace APIs
+export const fetchWorkspaces = async (): Promise<WorkspacesResponse> => {
+  const response = await fetch('/api/workspaces');
+  if (!response.ok) {
+    throw new Error('Failed to fetch workspaces');
+  }
+  return response.json();
+};
+
+export const createWorkspace = async (params: CreateWorkspaceRequest): Promise<WorkspaceSummary> => {
+  const response = await fetch('/api/workspaces', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to create workspace');
+  }
+
+  return response.json();
+};
+
+// null switches back to the personal space
+export const setActiveWorkspace = async (workspaceId: string | null): Promise<void> => {
+  const response = await fetch('/api/workspaces/active', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ workspaceId }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to switch workspace');
+  }
+};
+
+export const fetchWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMemberInfo[]> => {
+  const response = await fetch(`/api/workspaces/${workspaceId}/members`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch members');
+  }
+  return response.json();
+};
+
+const sendMemberChange = async (
+  workspaceId: string,
+  method: 'POST' | 'PATCH',
+  params: AddWorkspaceMemberRequest | UpdateWorkspaceMemberRequest
+): Promise<WorkspaceMemberInfo[]> => {
+  const response = await fetch(`/api/workspaces/${workspaceId}/members`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to update members');
+  }
+
+  return response.json();
+};
+
+export const addWorkspaceMember = (workspaceId: string, params: AddWorkspaceMemberRequest) =>
+  sendMemberChange(workspaceId, 'POST', params);
+
+export const updateWorkspaceMember = (workspaceId: string, params: UpdateWorkspaceMemberRequest) =>
+  sendMemberChange(workspaceId, 'PATCH', params);
+
+export const removeWorkspaceMember = async (workspaceId: string, userId: string): Promise<void> => {
+  const response = await fetch(`/api/workspaces/${workspaceId}/members?userId=${userId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to remove member');
+  }
+};
+
+// API Key APIs
+export const fetchApiKeys = async (): Promise<ApiKeyStatus[]> => {
+  const response = await fetch('/api/api-keys');
+  if (!response.ok) {
+    throw new Error('Failed to fetch API keys');
+  }
+  return response.json();
+};
+
+export const saveApiKey = async (params: SaveApiKeyRequest): Promise<ApiKeyStatus[]> => {
+  const response = await fetch('/api/api-keys', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save API key');
+  }
+
+  return response.json();
+};
+
+export const deleteApiKey = async (provider: KeyedProvider): Promise<ApiKeyStatus[]> => {
+  const response = await fetch(`/api/api-keys?provider=${provider}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to remove API key');
+  }
+
+  return response.json();
+};
+
+export const testApiKey = async (params: TestApiKeyRequest): Promise<TestApiKeyResponse> => {
+  const response = await fetch('/api/api-keys/test', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to test API key');
+  }
+
+  return response.json();
+};
 
 // Code Generation APIs
 export const generateCode = async (params: GenerateCodeRequest): Promise<ReadableStream<Uint8Array>> => {
@@ -69,32 +273,35 @@ export const refinePrompt = async (params: {
 };
 
 // Analytics APIs
-export const updateTokenAnalytics = async (params: TokenAnalyticsRequest): Promise<CumulativeTokenAnalytics> => {
-  const response = await fetch("/api/tokenAnalytics", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(params)
-  });
+export const fetchAnalyticsHistory = async (query: AnalyticsQuery): Promise<AnalyticsQueryResponse> => {
+  const params = new URLSearchParams(
+    Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])
+  );
 
+  const response = await fetch(`/api/tokenAnalytics?${params}`);
   if (!response.ok) {
-    throw new Error(`Analytics error: ${response.status}`);
+    throw new Error('Failed to fetch analytics history');
   }
+  return response.json();
+};
 
-  const data: TokenAnalyticsResponse = await response.json();
-  
-  // Convert to CumulativeTokenAnalytics format
-  return {
-    ...data,
-    utilizationPercentage: data.utilizationPercentage.toString(),
-    cumulativePromptTokens: data.promptTokens,
-    cumulativeResponseTokens: data.responseTokens,
-    cumulativeTotalTokens: data.totalTokens
-  };
+export const fetchBudgetStatus = async (): Promise<BudgetStatus> => {
+  const response = await fetch('/api/budget');
+  if (!response.ok) {
+    throw new Error('Failed to fetch budget status');
+  }
+  return response.json();
 };
 
 // Saved Generations APIs
-export const fetchSavedGenerations = async (): Promise<SavedGeneration[]> => {
-  const response = await fetch('/api/saved-generations');
+export const fetchSavedGenerations = async (query: SavedGenerationsQuery = {}): Promise<SavedGenerationsResponse> => {
+  const params = new URLSearchParams(
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => [key, String(value)])
+  );
+
+  const response = await fetch(`/api/saved-generations?${params}`);
   if (!response.ok) {
     throw new Error('Failed to fetch saved generations');
   }
@@ -109,7 +316,25 @@ export const saveGeneration = async (params: SaveGenerationRequest): Promise<Sav
   });
 
   if (!response.ok) {
-    throw new Error('Failed to save generation');
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to save generation');
+  }
+
+  return response.json();
+};
+
+export const updateSavedGeneration = async (
+  id: string,
+  params: UpdateSavedGenerationRequest
+): Promise<SavedGeneration> => {
+  const response = await fetch(`/api/saved-generations?id=${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update generation');
   }
 
   return response.json();
@@ -125,6 +350,84 @@ export const deleteGeneration = async (id: string): Promise<void> => {
   }
 };
 
+// Project APIs
+export const fetchProjects = async (): Promise<ProjectSummary[]> => {
+  const response = await fetch('/api/projects');
+  if (!response.ok) {
+    throw new Error('Failed to fetch projects');
+  }
+  return response.json();
+};
+
+export const createProject = async (params: CreateProjectRequest): Promise<ProjectSummary> => {
+  const response = await fetch('/api/projects', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to create project');
+  }
+
+  return response.json();
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const response = await fetch(`/api/projects?id=${id}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete project');
+  }
+};
+
+// Prompt Template APIs
+export const fetchPromptTemplates = async (): Promise<PromptTemplateSummary[]> => {
+  const response = await fetch('/api/prompt-templates');
+  if (!response.ok) {
+    throw new Error('Failed to fetch prompt templates');
+  }
+  return response.json();
+};
+
+const sendPromptTemplate = async (
+  url: string,
+  method: 'POST' | 'PATCH',
+  params: CreatePromptTemplateRequest | UpdatePromptTemplateRequest
+): Promise<PromptTemplateSummary> => {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to save prompt template');
+  }
+
+  return response.json();
+};
+
+export const createPromptTemplate = (params: CreatePromptTemplateRequest) =>
+  sendPromptTemplate('/api/prompt-templates', 'POST', params);
+
+export const updatePromptTemplate = (id: string, params: UpdatePromptTemplateRequest) =>
+  sendPromptTemplate(`/api/prompt-templates/${id}`, 'PATCH', params);
+
+export const deletePromptTemplate = async (id: string): Promise<void> => {
+  const response = await fetch(`/api/prompt-templates/${id}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete prompt template');
+  }
+};
+
 // Generated App APIs
 export const saveGeneratedApp = async (params: {
   model: string;
@@ -144,6 +447,160 @@ export const saveGeneratedApp = async (params: {
   return response.json();
 };
 
+// Revision APIs
+export const fetchRevisions = async (appId: string): Promise<Revision[]> => {
+  const response = await fetch(`/api/generated-apps/${appId}/revisions`);
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch revisions");
+  }
+
+  return response.json();
+};
+
+export const createRevision = async (
+  appId: string,
+  params: CreateRevisionRequest
+): Promise<Revision> => {
+  const response = await fetch(`/api/generated-apps/${appId}/revisions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to save revision");
+  }
+
+  return response.json();
+};
+
+export const restoreRevision = async (appId: string, revisionId: string): Promise<Revision> => {
+  const response = await fetch(`/api/generated-apps/${appId}/revisions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ restoreId: revisionId }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to restore revision");
+  }
+
+  return response.json();
+};
+
+// Comparison APIs
+export const createComparison = async (params: CreateComparisonRequest): Promise<{ id: string }> => {
+  const response = await fetch("/api/comparisons", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to create comparison");
+  }
+
+  return response.json();
+};
+
+export const fetchComparison = async (id: string): Promise<Comparison> => {
+  const response = await fetch(`/api/comparisons/${id}`);
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch comparison");
+  }
+
+  return response.json();
+};
+
+export const pickComparisonWinner = async (id: string, winnerAppId: string): Promise<void> => {
+  const response = await fetch(`/api/comparisons/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ winnerAppId }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to pick comparison winner");
+  }
+};
+
+// Share APIs
+export const createShare = async (params: CreateShareRequest): Promise<CreateShareResponse> => {
+  const response = await fetch("/api/share", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || "Failed to generate share link");
+  }
+
+  return response.json();
+};
+
+export const fetchShares = async (appId?: string): Promise<ShareSummary[]> => {
+  const response = await fetch(appId ? `/api/share?appId=${appId}` : "/api/share");
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch shares");
+  }
+
+  return response.json();
+};
+
+export const updateShare = async (id: string, params: UpdateShareRequest): Promise<ShareSummary> => {
+  const response = await fetch(`/api/share?id=${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || "Failed to update share");
+  }
+
+  return response.json();
+};
+
+export const fetchShareAccess = async (id: string): Promise<ShareAccessEntry[]> => {
+  const response = await fetch(`/api/share/${id}/access`);
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch access log");
+  }
+
+  return response.json();
+};
+
+export const revokeShare = async (id: string): Promise<void> => {
+  const response = await fetch(`/api/share?id=${id}`, { method: "DELETE" });
+
+  if (!response.ok) {
+    throw new Error("Failed to revoke share");
+  }
+};
+
+// Public; throws the reason a share can't be opened, e.g. a wrong password
+export const openShare = async (id: string, params: OpenShareRequest = {}): Promise<OpenShareResponse> => {
+  const response = await fetch(`/api/share/${id}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || "Failed to open share");
+  }
+
+  return response.json();
+};
+
 // Model Management APIs
 export const checkOllamaAvailability = async (): Promise<boolean> => {
   try {
@@ -185,29 +642,110 @@ export const generateErrorFix = async (params: ErrorFixContext): Promise<Readabl
 };
 
 // Stream Processing Utilities
-export const streamReader = async <T>(
+export interface StreamHandlers {
+  onDelta?: (text: string) => void;
+  onUsage?: (usage: ProviderUsage) => void;
+  onWarning?: (message: string) => void;
+}
+
+export interface StreamResult {
+  text: string;
+  usage: ProviderUsage | null;
+  warnings: string[];
+  // Set when generateCode saved the result as a new generated app
+  appId: string | null;
+  // Token usage recorded for the generated app, if any
+  analytics: TokenAnalyticsResponse | null;
+}
+
+// Parses one server-sent event block ("event: ...\ndata: {...}")
+export const parseStreamEvent = (block: string): StreamEvent | null => {
+  let type = '';
+  let data = '';
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data += line.slice(5).trim();
+    }
+  }
+
+  if (!type) return null;
+
+  try {
+    return { type, ...(data ? JSON.parse(data) : {}) } as StreamEvent;
+  } catch {
+    console.error('Malformed stream event:', block);
+    return null;
+  }
+};
+
+// Reads a streaming route's event stream, resolving with the full text once
+// it completes and rejecting when the server reports an error
+export const streamReader = async (
   stream: ReadableStream<Uint8Array>,
-  onChunk: (chunk: T) => void,
-  transform?: (chunk: string) => T
-): Promise<void> => {
+  handlers: StreamHandlers = {}
+): Promise<StreamResult> => {
   const reader = stream.getReader();
   const decoder = new TextDecoder();
+  const result: StreamResult = {
+    text: '',
+    usage: null,
+    warnings: [],
+    appId: null,
+    analytics: null
+  };
+  let pending = '';
+
+  const handleEvent = (event: StreamEvent) => {
+    switch (event.type) {
+      case 'delta':
+        result.text += event.text;
+        handlers.onDelta?.(event.text);
+        break;
+      case 'usage':
+        result.usage = event.usage;
+        handlers.onUsage?.(event.usage);
+        break;
+      case 'warning':
+        result.warnings.push(event.message);
+        handlers.onWarning?.(event.message);
+        break;
+      case 'saved':
+        result.appId = event.appId;
+        break;
+      case 'analytics':
+        result.analytics = event.analytics;
+        break;
+      case 'error':
+        throw new Error(event.message);
+    }
+  };
 
   try {
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
-      
-      const chunk = decoder.decode(value);
-      if (transform) {
-        onChunk(transform(chunk));
-      } else {
-        onChunk(chunk as T);
+
+      // Events can be split across chunks; keep the incomplete tail
+      pending += decoder.decode(value, { stream: true });
+      const blocks = pending.split('\n\n');
+      pending = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const event = parseStreamEvent(block);
+        if (event) handleEvent(event);
       }
     }
+
+    const event = parseStreamEvent(pending);
+    if (event) handleEvent(event);
   } finally {
     reader.releaseLock();
   }
+
+  return result;
 };
 
 // Chat Message Processing
@@ -229,6 +767,21 @@ export const processChatMessage = async (params: {
   return response.body;
 };
 
+// Server-side type check of generated project code
+export const checkCodeDiagnostics = async (code: string): Promise<CodeDiagnosticsResponse> => {
+  const response = await fetch("/api/diagnostics", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ code })
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to check code");
+  }
+
+  return response.json();
+};
+
 // Validation Helpers
 export const validateResponse = (response: Response, errorMessage: string): Promise<Response> => {
   if (!response.ok) {
@@ -253,7 +806,7 @@ export const analyzeError = async (params: ErrorFixContext): Promise<CodeError>
 };
 
 // Complete Fix Attempt with Analysis
-export const getCompleteErrorFix = async (params: ErrorFixContext): Promise<FixAttempt> => {
+export const getCompleteErrorFix = async (params: ErrorFixContext): Promise<VerifiedFix> => {
   const response = await fetch("/api/completeErrorFix", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -294,23 +847,19 @@ export const streamFixWithAnalysis = async (
   const analysis = await analyzeError(params);
   onAnalysis(analysis);
 
-  const fixStream = await generateErrorFix(params);
-  let fixedCode = '';
+  const fixStream = await generateErrorFix({ ...params, analysis });
+  const { text: fixedCode } = await streamReader(fixStream, {
+    onDelta: onFixChunk
+  });
 
-  await streamReader(
-    fixStream,
-    (chunk: string) => {
-      fixedCode += chunk;
-      onFixChunk(chunk);
-    }
-  );
+  const { valid, issues } = verifyCode(fixedCode);
 
   return {
     original_error: analysis,
-    fix_successful: true,
+    fix_successful: valid,
     fixed_code: fixedCode,
-    remaining_issues: [],
-    next_steps: []
+    remaining_issues: issues.map(formatCodeIssue),
+    next_steps: valid ? [] : ['Request a verified fix with getCompleteErrorFix']
   };
 };
 
@@ -370,88 +919,6 @@ export function estimateTokens(text: string, provider: string, ollamaResponse?:
   }
 }
 
-// Ollama Utilities
-export function createOllamaRequest(model: string, prompt: string, settings?: {
-  temperature?: number;
-  maxTokens?: number;
-  topP?: number;
-  streamOutput?: boolean;
-  frequencyPenalty?: number;
-  presencePenalty?: number;
-}) {
-  const requestBody = {
-    model,
-    prompt,
-    stream: true,
-    options: {
-      temperature: settings?.temperature ?? 0.7,
-      top_p: settings?.topP ?? 1,
-      num_predict: settings?.maxTokens,
-      frequency_penalty: settings?.frequencyPenalty,
-      presence_penalty: settings?.presencePenalty
-    }
-  };
-
-  return {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(requestBody)
-  };
-}
-
-export async function handleOllamaStream(
-  response: Response, 
-  controller: ReadableStreamDefaultController,
-  encoder: TextEncoder,
-  processResponse?: (text: string) => string
-) {
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error("Failed to get reader from Ollama response");
-  }
-
-  let buffer = "";
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const text = new TextDecoder().decode(value);
-      const lines = text.split("\n").filter(line => line.trim());
-
-      for (const line of lines) {
-        try {
-          const data = JSON.parse(line);
-          if (data.error) {
-            throw new Error(data.error);
-          }
-          if (data.response) {
-            if (processResponse) {
-              buffer += data.response;
-              if (buffer.length > 100) {
-                controller.enqueue(encoder.encode(processResponse(buffer)));
-                buffer = "";
-              }
-            } else {
-              controller.enqueue(encoder.encode(data.response));
-            }
-          }
-        } catch (e) {
-          if (e instanceof Error && e.message !== "Unexpected end of JSON input") {
-            console.error("Error parsing Ollama response:", e);
-          }
-        }
-      }
-    }
-
-    if (buffer && processResponse) {
-      controller.enqueue(encoder.encode(processResponse(buffer)));
-    }
-  } finally {
-    reader.releaseLock();
-  }
-}
-
 // Error Fix Utils
 export function formatErrorContext(
   code: string,
@@ -1,21 +1,143 @@
-import { AISettings } from "../models/ai";
+import { AISettings, KeyedProvider } from "../models/ai";
+import { AnalyticsGroupBy } from "../models/analytics";
+import { SavedGenerationSort } from "../models/generation";
+import { WorkspaceRole } from "../models/workspace";
 
 export interface GenerateCodeRequest {
     model: string;
     messages: { role: string; content: string; }[];
     settings: AISettings;
-  }
-  
-  export interface TokenAnalyticsRequest {
-    model: string;
-    prompt: string;
-    generatedCode: string;
-    generatedAppId: string;
-    ollamaResponse?: string;
+    // Records token usage against an existing generated app
+    generatedAppId?: string;
+    // Saves the result as a new generated app and records its token usage
+    saveApp?: boolean;
+    // Adds the saved app to a model comparison run
+    comparisonId?: string;
   }
   
   export interface SaveGenerationRequest {
     title: string;
     description: string;
     generatedAppId: string;
-  }
\ No newline at end of file
+    projectId?: string | null;
+    tags?: string[];
+  }
+
+  export interface UpdateSavedGenerationRequest {
+    title?: string;
+    description?: string | null;
+    // null moves the app out of its project
+    projectId?: string | null;
+    // Replaces all of the app's tags
+    tags?: string[];
+  }
+
+  export interface SavedGenerationsQuery {
+    // Matched against the title, description, prompt and code
+    search?: string;
+    // "none" lists the apps outside any project
+    projectId?: string;
+    tag?: string;
+    sort?: SavedGenerationSort;
+    order?: "asc" | "desc";
+    // 1-based
+    page?: number;
+    pageSize?: number;
+  }
+
+  export interface CreateProjectRequest {
+    name: string;
+  }
+
+  export interface CreatePromptTemplateRequest {
+    name: string;
+    description?: string;
+    body: string;
+  }
+
+  export type UpdatePromptTemplateRequest = Partial<CreatePromptTemplateRequest>;
+
+  export interface AnalyticsQuery {
+    // Inclusive YYYY-MM-DD bounds in server time
+    from?: string;
+    to?: string;
+    groupBy?: AnalyticsGroupBy;
+    provider?: string;
+    modelName?: string;
+  }
+
+  export interface CodeDiagnosticsRequest {
+    code: string;
+  }
+
+  export interface CreateRevisionRequest {
+    code: string;
+    prompt: string;
+    model: string;
+  }
+
+  export interface CreateComparisonRequest {
+    prompt: string;
+  }
+
+  export interface LoginRequest {
+    email: string;
+    password: string;
+  }
+
+  export interface RegisterRequest extends LoginRequest {
+    name?: string;
+  }
+
+  export interface CreateWorkspaceRequest {
+    name: string;
+  }
+
+  export interface AddWorkspaceMemberRequest {
+    // Must belong to an existing account
+    email: string;
+    role: WorkspaceRole;
+  }
+
+  export interface UpdateWorkspaceMemberRequest {
+    userId: string;
+    role: WorkspaceRole;
+  }
+
+  export interface SetActiveWorkspaceRequest {
+    // null switches back to the personal space
+    workspaceId: string | null;
+  }
+
+  export interface SaveApiKeyRequest {
+    provider: KeyedProvider;
+    apiKey: string;
+  }
+
+  export interface TestApiKeyRequest {
+    provider: KeyedProvider;
+    // Tests the key the user would get when left out
+    apiKey?: string;
+  }
+
+  export interface CreateShareRequest {
+    appId: string;
+    settings?: AISettings;
+    password?: string;
+    // Hours until the link stops working
+    expiresIn?: number;
+    allowedViews?: number;
+    generateQR?: boolean;
+  }
+
+  export interface OpenShareRequest {
+    // Required for password protected shares
+    password?: string;
+  }
+
+  export interface UpdateShareRequest {
+    // Hours from now until the link stops working; null removes the expiry
+    expiresIn?: number | null;
+    // Added to the remaining views of a link with a view limit
+    addViews?: number;
+  }
@@ -1,3 +1,8 @@
+import { AnalyticsGroup, AnalyticsGroupBy, AnalyticsSummary } from "../models/analytics";
+import { SavedGeneration } from "../models/generation";
+import { SharedContent } from "../models/share";
+import { WorkspaceSummary } from "../models/workspace";
+
 export interface TokenAnalyticsResponse {
     modelName: string;
     provider: string;
@@ -6,6 +11,10 @@ export interface TokenAnalyticsResponse {
     totalTokens: number;
     maxTokens: number;
     utilizationPercentage: number;
+    isEstimated: boolean;
+    cost: number;
+    // Milliseconds from the request to the end of the stream
+    latencyMs: number | null;
   }
   
   export interface GeneratedAppResponse {
@@ -13,4 +22,66 @@ export interface TokenAnalyticsResponse {
     code: string;
     model: string;
     prompt: string;
-  }
\ No newline at end of file
+  }
+
+  export interface AnalyticsQueryResponse {
+    from: string | null;
+    to: string | null;
+    groupBy: AnalyticsGroupBy;
+    totals: AnalyticsSummary;
+    groups: AnalyticsGroup[];
+    // One entry per day with usage, oldest first, for the time series charts
+    daily: AnalyticsGroup[];
+  }
+
+  // Same shape parseErrorDetails produces, with 1-based positions
+  export interface CodeDiagnostic {
+    // Only set for multi-file projects
+    file?: string;
+    line?: number;
+    column?: number;
+    message: string;
+  }
+
+  export interface CodeDiagnosticsResponse {
+    valid: boolean;
+    diagnostics: CodeDiagnostic[];
+  }
+
+  export interface SavedGenerationsResponse {
+    items: SavedGeneration[];
+    // Matches across all pages
+    total: number;
+    page: number;
+    pageSize: number;
+    // Every tag in use, for the filter list
+    tags: string[];
+  }
+
+  export interface WorkspacesResponse {
+    workspaces: WorkspaceSummary[];
+    // null while the personal space is active
+    activeWorkspaceId: string | null;
+  }
+
+  export interface TestApiKeyResponse {
+    valid: boolean;
+    // The provider's reason for rejecting the key
+    error?: string;
+  }
+
+  export interface CreateShareResponse {
+    id: string;
+    url: string;
+    expiresAt: string | null;
+    // PNG data URL, when requested
+    qrCode: string | null;
+    isProtected: boolean;
+  }
+
+  export interface OpenShareResponse {
+    content: SharedContent;
+    expiresAt: string | null;
+    // Views left after this one; null when unlimited
+    remainingViews: number | null;
+  }
@@ -1,5 +1,18 @@
+import { ProviderUsage } from "../services/providers";
+import { TokenAnalyticsResponse } from "./responses";
+
 export interface APIError {
     error: string;
     message: string;
     status: number;
-  }
\ No newline at end of file
+  }
+
+  // Events sent by the streaming routes as server-sent events
+  export type StreamEvent =
+    | { type: "delta"; text: string }
+    | { type: "usage"; usage: ProviderUsage }
+    | { type: "warning"; message: string }
+    | { type: "saved"; appId: string }
+    | { type: "analytics"; analytics: TokenAnalyticsResponse }
+    | { type: "error"; message: string }
+    | { type: "done" };
@@ -4,7 +4,14 @@ export * from './api/shared';
 export * from './models/ai';
 export * from './models/analytics';
 export * from './models/chat';
+export * from './models/comparison';
 export * from './models/generation';
+export * from './models/share';
+export * from './models/template';
+export * from './models/workspace';
 export * from './services/ollama';
 export * from './services/error-fix';
-export * from './services/database';
\ No newline at end of file
+export * from './services/database';
+export * from './services/auth';
+export * from './services/providers';
+export * from './services/rate-limit';
@@ -3,6 +3,7 @@ export interface AIModel {
     name: string;
     provider: string;
     maxTokens: number;
+    maxOutputTokens?: number;
     fullModelName?: string;
   }
   
@@ -22,4 +23,15 @@ export interface AIModel {
     deepseek: boolean;
     ollama: boolean;
     grok: boolean;
-  }
\ No newline at end of file
+  }
+
+  // Providers that need an API key; Ollama runs locally without one
+  export type KeyedProvider = Exclude<keyof EnabledProviders, "ollama">;
+
+  export interface ApiKeyStatus {
+    provider: KeyedProvider;
+    // Where requests get the key from; null when the provider is unavailable
+    source: "user" | "server" | null;
+    // Last characters of the user's own key
+    hint: string | null;
+  }
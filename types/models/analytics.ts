@@ -6,10 +6,46 @@ export interface TokenAnalytics {
     totalTokens: number;
     maxTokens: number;
     utilizationPercentage: string;
+    // Absent on analytics saved before exact usage was recorded
+    isEstimated?: boolean;
+    // USD cost of the generation
+    cost?: number;
   }
   
   export interface CumulativeTokenAnalytics extends TokenAnalytics {
     cumulativePromptTokens: number;
     cumulativeResponseTokens: number;
     cumulativeTotalTokens: number;
-  }
\ No newline at end of file
+    cumulativeCost: number;
+  }
+
+  export interface BudgetUsage {
+    spent: number;
+    // null when no limit is configured
+    limit: number | null;
+  }
+
+  export interface BudgetStatus {
+    daily: BudgetUsage;
+    monthly: BudgetUsage;
+  }
+
+
+  export type AnalyticsGroupBy = "model" | "provider" | "day";
+
+  export interface AnalyticsSummary {
+    generations: number;
+    promptTokens: number;
+    responseTokens: number;
+    totalTokens: number;
+    avgPromptTokens: number;
+    avgResponseTokens: number;
+    cost: number;
+    // Generations whose token counts were estimated rather than reported
+    estimatedGenerations: number;
+  }
+
+  export interface AnalyticsGroup extends AnalyticsSummary {
+    // Model name, provider or YYYY-MM-DD day, depending on the grouping
+    key: string;
+  }
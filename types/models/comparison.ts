@@ -0,0 +1,24 @@
+export interface ComparisonResult {
+    appId: string;
+    model: string;
+    code: string;
+    createdAt: string;
+    // Usage of the comparison generation itself, not later refinements
+    analytics: {
+      promptTokens: number;
+      responseTokens: number;
+      totalTokens: number;
+      cost: number;
+      latencyMs: number | null;
+      isEstimated: boolean;
+    } | null;
+  }
+
+  export interface Comparison {
+    id: string;
+    prompt: string;
+    // null until a result is picked to continue refining
+    winnerAppId: string | null;
+    createdAt: string;
+    results: ComparisonResult[];
+  }
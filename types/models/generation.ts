@@ -1,10 +1,23 @@
 import { TokenAnalytics } from "./analytics";
 
+// Generated project files keyed by absolute sandbox path, e.g. "/App.tsx"
+export type ProjectFiles = Record<string, string>;
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    createdAt: string;
+    // Number of saved apps filed under the project
+    appCount: number;
+  }
+
 export interface SavedGeneration {
     id: string;
     title: string;
     description: string | null;
     createdAt: string;
+    project: { id: string; name: string } | null;
+    tags: string[];
     generatedApp: {
       id: string;
       code: string;
@@ -12,4 +25,18 @@ export interface SavedGeneration {
       prompt: string;
       analytics: TokenAnalytics | null;
     };
-  }
\ No newline at end of file
+  }
+
+  export type SavedGenerationSort = "createdAt" | "title" | "cost";
+
+  export interface Revision {
+    id: string;
+    appId: string;
+    // Revision this one was derived from; null for the first generation
+    parentId: string | null;
+    // Prompt or chat message that produced this revision
+    prompt: string;
+    model: string;
+    code: string;
+    createdAt: string;
+  }
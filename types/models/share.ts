@@ -0,0 +1,58 @@
+import { AISettings } from "./ai";
+
+// What a share link shows, as the app was when it was shared
+export interface SharedContent {
+    code: string;
+    prompt: string;
+    model: string;
+    settings: AISettings | null;
+  }
+
+  export type ShareStatus = "active" | "expired" | "exhausted" | "revoked";
+
+  export interface ShareSummary {
+    id: string;
+    appId: string;
+    prompt: string;
+    isProtected: boolean;
+    expiresAt: string | null;
+    allowedViews: number | null;
+    remainingViews: number | null;
+    // Set once the share was revoked; it no longer opens
+    revokedAt: string | null;
+    status: ShareStatus;
+    // Set while wrong passwords keep the share from taking more
+    lockedUntil: string | null;
+    // Successful opens, from the access log
+    views: number;
+    createdAt: string;
+  }
+
+  export type ShareAccessOutcome =
+    | "viewed"
+    | "invalid_password"
+    // Rejected without checking the password after too many wrong ones
+    | "locked"
+    | "revoked"
+    | "expired"
+    | "exhausted";
+
+  export interface ShareAccessEntry {
+    id: string;
+    outcome: ShareAccessOutcome;
+    // e.g. "Firefox on Windows"
+    client: string | null;
+    ipPrefix: string | null;
+    createdAt: string;
+  }
+
+  export type EmbedTheme = "dark" | "light";
+
+  // Query parameters of the embed page
+  export interface EmbedOptions {
+    // Pixels
+    height: number;
+    theme: EmbedTheme;
+    // Shows the code editor next to the preview
+    showCode: boolean;
+  }
@@ -0,0 +1,11 @@
+export interface PromptTemplateSummary {
+    id: string;
+    name: string;
+    description: string | null;
+    // Prompt text with {{variable}} placeholders
+    body: string;
+    // Placeholder names in the order they first appear
+    variables: string[];
+    createdAt: string;
+    updatedAt: string;
+  }
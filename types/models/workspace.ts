@@ -0,0 +1,18 @@
+// Ordered from least to most access
+export type WorkspaceRole = "viewer" | "editor" | "owner";
+
+export interface WorkspaceSummary {
+    id: string;
+    name: string;
+    // The signed-in user's role
+    role: WorkspaceRole;
+    memberCount: number;
+  }
+
+  export interface WorkspaceMemberInfo {
+    userId: string;
+    email: string;
+    name: string | null;
+    role: WorkspaceRole;
+    createdAt: string;
+  }
@@ -0,0 +1,23 @@
+export interface AuthUser {
+    id: string;
+    email: string;
+    name: string | null;
+  }
+
+  export interface Credentials {
+    email: string;
+    password: string;
+  }
+
+  export interface Registration extends Credentials {
+    name?: string;
+  }
+
+  // Verifies who is signing in; sessions are issued the same way for every
+  // adapter once it returns a user
+  export interface AuthAdapter {
+    id: string;
+    authenticate(credentials: Credentials): Promise<AuthUser | null>;
+    // Absent when accounts are provisioned outside the app
+    register?(registration: Registration): Promise<AuthUser>;
+  }
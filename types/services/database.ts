@@ -1,12 +1,44 @@
-export interface GeneratedApp {
+export interface User {
     id: string;
+    email: string;
+    name?: string | null;
+    passwordHash?: string | null;
+    createdAt: Date;
+    sessions?: Session[];
+  }
+
+  export interface Session {
+    id: string;
+    tokenHash: string;
+    user: User;
+    userId: string;
+    expiresAt: Date;
+    createdAt: Date;
+  }
+
+  export interface ApiKey {
+    id: string;
+    user: User;
+    userId: string;
+    provider: string;
+    encryptedKey: string;
+    hint: string;
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  export interface GeneratedApp {
+    id: string;
+    userId?: string | null;
     model: string;
     prompt: string;
     code: string;
     createdAt: Date;
-    analytics?: Analytics;
+    cost: number;
+    comparisonId?: string | null;
+    analytics?: Analytics[];
     savedApp?: SavedApp;
-    sharedCode?: SharedCode;
+    sharedCodes?: SharedCode[];
   }
   
   export interface SavedApp {
@@ -15,13 +47,52 @@ export interface GeneratedApp {
     description?: string | null;
     generatedApp: GeneratedApp;
     appId: string;
+    userId?: string | null;
+    workspaceId?: string | null;
+    project?: Project | null;
+    projectId?: string | null;
+    tags?: Tag[];
     createdAt: Date;
   }
+
+  export interface Workspace {
+    id: string;
+    name: string;
+    createdAt: Date;
+    members?: WorkspaceMember[];
+  }
+
+  export interface WorkspaceMember {
+    id: string;
+    workspace: Workspace;
+    workspaceId: string;
+    user: User;
+    userId: string;
+    role: string;
+    createdAt: Date;
+  }
+
+  export interface Project {
+    id: string;
+    userId?: string | null;
+    workspaceId?: string | null;
+    name: string;
+    createdAt: Date;
+    savedApps?: SavedApp[];
+  }
+
+  export interface Tag {
+    id: string;
+    name: string;
+    savedApps?: SavedApp[];
+  }
   
   export interface Analytics {
     id: string;
     generatedApp: GeneratedApp;
     appId: string;
+    userId?: string | null;
+    workspaceId?: string | null;
     modelName: string;
     provider: string;
     promptTokens: number;
@@ -29,6 +100,9 @@ export interface GeneratedApp {
     totalTokens: number;
     maxTokens: number;
     utilizationPercentage: number;
+    isEstimated: boolean;
+    cost: number;
+    latencyMs: number | null;
     createdAt: Date;
   }
 
@@ -36,10 +110,38 @@ export interface GeneratedApp {
     id: string;
     appId: string;
     generatedApp: GeneratedApp;
+    userId?: string | null;
+    workspaceId?: string | null;
     content?: string | null;
     isEncrypted: boolean;
     expiresAt?: Date | null;
     allowedViews?: number | null;
     remainingViews?: number | null;
+    revokedAt?: Date | null;
+    failedAttempts: number;
+    lockedUntil?: Date | null;
+    accesses?: ShareAccess[];
+    createdAt: Date;
+  }
+
+  export interface ShareAccess {
+    id: string;
+    shareId: string;
+    share?: SharedCode;
+    outcome: string;
+    client?: string | null;
+    ipPrefix?: string | null;
+    createdAt: Date;
+  }
+
+  export interface PromptTemplate {
+    id: string;
+    user?: User | null;
+    userId?: string | null;
+    workspaceId?: string | null;
+    name: string;
+    description?: string | null;
+    body: string;
     createdAt: Date;
+    updatedAt: Date;
   }
\ No newline at end of file
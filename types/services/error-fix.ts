@@ -1,6 +1,8 @@
 export interface ErrorFixContext {
     provider: string;
     model: string;
+    // App the fix is for; its budget pays for the fix
+    generatedAppId: string;
     code: string;
     error: string;
     errorDetails?: {
@@ -8,6 +10,10 @@ export interface ErrorFixContext {
       column?: number;
       message: string;
     };
+    // Upper bound on verified fix attempts (1-5)
+    maxAttempts?: number;
+    // Analysis from analyzeError; /api/fixError then skips analyzing again
+    analysis?: CodeError;
   }
   
   export interface CodeError {
@@ -26,4 +32,9 @@ export interface ErrorFixContext {
     fixed_code?: string;
     remaining_issues?: string[];
     next_steps?: string[];
-  }
\ No newline at end of file
+  }
+
+  // The final attempt of a verified fix loop, with every attempt in order
+  export interface VerifiedFix extends FixAttempt {
+    attempts: FixAttempt[];
+  }
@@ -0,0 +1,41 @@
+export interface ProviderMessage {
+    role: "user" | "assistant";
+    content: string;
+  }
+  
+  export interface GenerationOptions {
+    temperature?: number;
+    maxTokens?: number;
+    topP?: number;
+    frequencyPenalty?: number;
+    presencePenalty?: number;
+  }
+  
+  export interface ProviderRequest {
+    model: string;
+    system?: string;
+    messages: ProviderMessage[];
+    options?: GenerationOptions;
+  }
+  
+  export interface ProviderUsage {
+    promptTokens: number;
+    responseTokens: number;
+    totalTokens: number;
+  }
+  
+  export type ProviderStreamEvent =
+    | { type: "text"; text: string }
+    | { type: "usage"; usage: ProviderUsage };
+  
+  export interface ProviderCompletion {
+    text: string;
+    usage: ProviderUsage | null;
+  }
+  
+  export interface ProviderAdapter {
+    id: string;
+    streamText(request: ProviderRequest): AsyncGenerator<ProviderStreamEvent>;
+    completeText(request: ProviderRequest): Promise<ProviderCompletion>;
+    countTokens(text: string): number;
+  }
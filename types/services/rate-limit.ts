@@ -0,0 +1,12 @@
+export interface RateLimitResult {
+    allowed: boolean;
+    // Milliseconds until the oldest hit in the window expires; 0 when allowed
+    retryAfterMs: number;
+  }
+
+  // Keeps the hits of a sliding window; selected with RATE_LIMIT_STORE
+  export interface RateLimitStore {
+    id: string;
+    // Counts a hit for the key unless it already has limit hits in the window
+    hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+  }
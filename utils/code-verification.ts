@@ -0,0 +1,105 @@
+import { parse } from "@babel/parser";
+import { ENTRY_FILE, isSourceFile, parseProjectFiles } from "./project-files";
+
+// Same shape parseErrorDetails produces, so issues can feed the fixer directly
+export interface CodeIssue {
+  // Only set for multi-file projects
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface CodeVerification {
+  valid: boolean;
+  issues: CodeIssue[];
+}
+
+interface BabelSyntaxError extends Error {
+  loc?: { line: number; column: number };
+}
+
+function toIssue(error: BabelSyntaxError): CodeIssue {
+  return {
+    line: error.loc?.line,
+    // Babel columns are 0-based, editors and error messages are 1-based
+    column: error.loc ? error.loc.column + 1 : undefined,
+    message: error.message.replace(/\s*\(\d+:\d+\)$/, ""),
+  };
+}
+
+function verifyFile(code: string, requireDefaultExport: boolean): CodeIssue[] {
+  const issues: CodeIssue[] = [];
+
+  try {
+    const ast = parse(code, {
+      sourceType: "module",
+      plugins: ["typescript", "jsx"],
+      errorRecovery: true,
+    });
+
+    issues.push(
+      ...ast.errors.map((error) => toIssue(error as unknown as BabelSyntaxError)),
+    );
+
+    const hasDefaultExport = ast.program.body.some(
+      (node) =>
+        node.type === "ExportDefaultDeclaration" ||
+        (node.type === "ExportNamedDeclaration" &&
+          node.specifiers.some(
+            (specifier) =>
+              specifier.exported.type === "Identifier" &&
+              specifier.exported.name === "default",
+          )),
+    );
+    if (requireDefaultExport && !hasDefaultExport) {
+      issues.push({ message: "Missing export default statement" });
+    }
+  } catch (error) {
+    // Errors the parser cannot recover from abort the parse
+    issues.push(toIssue(error as BabelSyntaxError));
+  }
+
+  return issues;
+}
+
+/**
+ * Parses generated TSX with @babel/parser and reports every syntax error it
+ * can recover from, plus a missing default export, which Sandpack needs to
+ * mount the component. Multi-file projects are checked file by file and only
+ * the entry file needs a default export.
+ */
+export function verifyCode(code: string): CodeVerification {
+  if (!code.trim()) {
+    return { valid: false, issues: [{ message: "Empty code response" }] };
+  }
+
+  const files = parseProjectFiles(code);
+  const multiFile = Object.keys(files).length > 1;
+  const issues: CodeIssue[] = [];
+
+  if (!(ENTRY_FILE in files)) {
+    issues.push({ message: `Missing ${ENTRY_FILE} entry file` });
+  }
+
+  for (const [path, content] of Object.entries(files)) {
+    if (!isSourceFile(path)) continue;
+
+    const fileIssues = verifyFile(content, path === ENTRY_FILE);
+    issues.push(
+      ...(multiFile
+        ? fileIssues.map((issue) => ({ file: path, ...issue }))
+        : fileIssues),
+    );
+  }
+
+  return { valid: issues.length === 0, issues };
+}
+
+export function formatCodeIssue({ file, line, column, message }: CodeIssue): string {
+  const text = file ? `${message} in ${file}` : message;
+  if (line === undefined) return text;
+  return column === undefined
+    ? `${text} (line ${line})`
+    : `${text} (line ${line}, column ${column})`;
+}
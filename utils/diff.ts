@@ -0,0 +1,117 @@
+export interface DiffLine {
+  // 1-based line number in its own version
+  number: number;
+  text: string;
+}
+
+// One row of a side-by-side diff; "changed" pairs a removed line with the
+// line that replaced it
+export interface DiffRow {
+  type: "equal" | "removed" | "added" | "changed";
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Line diff of two texts for side-by-side display, based on the longest
+ * common subsequence of their lines. The shared prefix and suffix are
+ * skipped before building the table, which keeps small edits to large files
+ * cheap.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // lcs[i][j] is the LCS length of midA from i and midB from j
+  const lcs = Array.from(
+    { length: midA.length + 1 },
+    () => new Uint32Array(midB.length + 1),
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  const pushEqual = (i: number, j: number) =>
+    rows.push({
+      type: "equal",
+      left: { number: i + 1, text: a[i] },
+      right: { number: j + 1, text: b[j] },
+    });
+
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  // Pairs up a run of removals with the additions that followed it
+  const flushChanges = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({
+        type: left && right ? "changed" : left ? "removed" : "added",
+        left,
+        right,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (let k = 0; k < start; k++) pushEqual(k, k);
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      flushChanges();
+      pushEqual(start + i, start + j);
+      i++;
+      j++;
+    } else if (
+      j >= midB.length ||
+      (i < midA.length && lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      removed.push({ number: start + i + 1, text: midA[i] });
+      i++;
+    } else {
+      added.push({ number: start + j + 1, text: midB[j] });
+      j++;
+    }
+  }
+  flushChanges();
+
+  for (let k = 0; k < a.length - endA; k++) pushEqual(endA + k, endB + k);
+
+  return rows;
+}
+
+export function countChanges(rows: DiffRow[]): {
+  added: number;
+  removed: number;
+} {
+  return rows.reduce(
+    (counts, row) => ({
+      added: counts.added + (row.right && row.type !== "equal" ? 1 : 0),
+      removed: counts.removed + (row.left && row.type !== "equal" ? 1 : 0),
+    }),
+    { added: 0, removed: 0 },
+  );
+}
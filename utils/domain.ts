@@ -1,10 +1,15 @@
+// This deployment's public address: NEXT_PUBLIC_BASE_URL when set, otherwise
+// what Vercel reports, otherwise the local dev server
 export const domain =
-  process.env.NEXT_PUBLIC_VERCEL_ENV === "production"
-    ? "https://llamacoder.together.ai"
-    : process.env.VERCEL_BRANCH_URL
-      ? `https://${process.env.VERCEL_BRANCH_URL}`
-      : process.env.NEXT_PUBLIC_VERCEL_URL
-        ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
-        : process.env.NEXT_PUBLIC_DEVELOPMENT_URL
-          ? process.env.NEXT_PUBLIC_DEVELOPMENT_URL
-          : "http://localhost:3000";
+  process.env.NEXT_PUBLIC_BASE_URL
+    ? process.env.NEXT_PUBLIC_BASE_URL
+    : process.env.NEXT_PUBLIC_VERCEL_ENV === "production" &&
+        process.env.NEXT_PUBLIC_VERCEL_PROJECT_PRODUCTION_URL
+      ? `https://${process.env.NEXT_PUBLIC_VERCEL_PROJECT_PRODUCTION_URL}`
+      : process.env.VERCEL_BRANCH_URL
+        ? `https://${process.env.VERCEL_BRANCH_URL}`
+        : process.env.NEXT_PUBLIC_VERCEL_URL
+          ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
+          : process.env.NEXT_PUBLIC_DEVELOPMENT_URL
+            ? process.env.NEXT_PUBLIC_DEVELOPMENT_URL
+            : "http://localhost:3000";
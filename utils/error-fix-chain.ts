@@ -1,22 +1,24 @@
-import { ChatGroq } from '@langchain/groq';
-import { ChatAnthropic } from "@langchain/anthropic";
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatOllama } from "@langchain/ollama";
 import { PromptTemplate } from "@langchain/core/prompts";
-import { RunnableSequence } from "@langchain/core/runnables";
-import { StringOutputParser } from "@langchain/core/output_parsers";
 
+import { getProviderAdapter, stripCodeFences, toUsage } from "@/lib/providers";
+import type {
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderUsage,
+} from "@/types/services/providers";
 import { 
   errorFixingParser, 
   formatErrorContext, 
   type CodeError,
-  type FixAttempt 
+  type FixAttempt,
+  type VerifiedFix
 } from "./error-fix-schema";
+import { formatCodeIssue, verifyCode } from "./code-verification";
 
 interface ErrorFixOptions {
   provider: string;
   model: string;
+  // The user's own key or the server's, resolved by the route
   apiKey: string;
   code: string;
   error: string;
@@ -24,8 +26,21 @@ interface ErrorFixOptions {
     line?: number;
     column?: number;
   };
+  // Upper bound on fix attempts when fixes are verified
+  maxAttempts?: number;
+  // Analysis from an earlier analyzeError call, so streaming a fix skips it
+  analysis?: CodeError;
 }
 
+// Tokens summed over every provider call of one chain
+interface ErrorFixUsage {
+  usage: ProviderUsage;
+  // True when any call's counts came from a tokenizer estimate
+  isEstimated: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
 // Initial system prompt for error analysis
 const errorAnalysisPrompt = new PromptTemplate({
   template: `You are an expert TypeScript and React developer analyzing code errors.
@@ -53,122 +68,92 @@ Do not include any explanatory text, only return the structured data as specifie
 // Prompt for the actual fix attempt
 const fixingPrompt = new PromptTemplate({
   template: `You are an expert at fixing TypeScript and React code errors.
-Previous fix attempts and their results are in the conversation history.
+Previous fix attempts that failed verification are listed below with the errors they still had.
 
 Current Error Analysis:
 {error_analysis}
 
+Previous Attempts:
+{previous_attempts}
+
 Task: Fix the code based on this analysis.
 - Return ONLY the complete fixed code
 - Include ALL necessary imports
 - Follow TypeScript and React best practices
 - Do not include explanations or markdown formatting
 - Ensure the fix addresses the root cause while maintaining existing functionality
+- If the code is split into files with "// FILE: /path" lines, return every file, each starting with its "// FILE:" line
 
-Original Code:
+Code to Fix (the latest attempt when earlier attempts failed):
 {code}`,
-  inputVariables: ["error_analysis", "code"],
+  inputVariables: ["error_analysis", "code", "previous_attempts"],
 });
 
+// Low temperature keeps fixes close to the original code
+const FIX_TEMPERATURE = 0.2;
+
 class ErrorFixingChain {
-  private llmChain: RunnableSequence;
-  private provider: string;
-  private streamEnabled: boolean;
+  private adapter: ProviderAdapter;
+  private spent: ErrorFixUsage = { usage: toUsage(0, 0), isEstimated: false };
 
   constructor(private options: ErrorFixOptions) {
-    this.provider = options.provider;
-    this.streamEnabled = true;
-    const llm = this.initializeLLM();
-    this.llmChain = RunnableSequence.from([
-      errorAnalysisPrompt,
-      llm,
-      errorFixingParser
-    ]);
+    const adapter = getProviderAdapter(options.provider, options.apiKey);
+    if (!adapter) throw new Error(`Unsupported provider: ${options.provider}`);
+    this.adapter = adapter;
   }
 
-  private initializeLLM() {
-    const { provider, model } = this.options;
-    const commonConfig = {
-      modelName: model,
-      streaming: this.streamEnabled,
-      temperature: 0.2,
-      maxTokens: undefined,
+  private toRequest(prompt: string): ProviderRequest {
+    return {
+      model: this.options.model,
+      messages: [{ role: "user", content: prompt }],
+      options: { temperature: FIX_TEMPERATURE },
     };
+  }
 
-    switch (provider) {
-      case "openai": {
-        const apiKey = process.env.OPENAI_API_KEY;
-        if (!apiKey) throw new Error("OpenAI API key not configured");
-        return new ChatOpenAI({
-          ...commonConfig,
-          openAIApiKey: apiKey,
-          modelName: model,
-        });
-      }
-
-      case "anthropic": {
-        const apiKey = process.env.ANTHROPIC_API_KEY;
-        if (!apiKey) throw new Error("Anthropic API key not configured");
-        return new ChatAnthropic({
-          ...commonConfig,
-          anthropicApiKey: apiKey,
-        });
-      }
-
-      case "google": {
-        const apiKey = process.env.GOOGLE_API_KEY;
-        if (!apiKey) throw new Error("Google API key not configured");
-        return new ChatGoogleGenerativeAI({
-          ...commonConfig,
-          apiKey: apiKey,
-        });
-      }
-
-      case "grok": {
-        const apiKey = process.env.XAI_API_KEY;
-        if (!apiKey) throw new Error("xAI API key not configured");
-        return new ChatGroq({
-          ...commonConfig,
-          apiKey: apiKey,
-          modelName: model,
-          temperature: 0.2,
-        });
-      }
+  private addUsage(prompt: string, text: string, usage: ProviderUsage | null) {
+    const counted =
+      usage ??
+      toUsage(this.adapter.countTokens(prompt), this.adapter.countTokens(text));
+
+    this.spent = {
+      usage: toUsage(
+        this.spent.usage.promptTokens + counted.promptTokens,
+        this.spent.usage.responseTokens + counted.responseTokens,
+      ),
+      isEstimated: this.spent.isEstimated || !usage,
+    };
+  }
 
-      case "ollama": {
-        return new ChatOllama({
-          baseUrl: "http://localhost:11434",
-          model: model,
-          temperature: 0.2,
-          maxRetries: 2,
-          streaming: true
-        });
-      }
+  private async complete(prompt: string): Promise<string> {
+    const { text, usage } = await this.adapter.completeText(this.toRequest(prompt));
+    this.addUsage(prompt, text, usage);
+    return text;
+  }
 
-      case "deepseek": {
-        const apiKey = process.env.DEEPSEEK_API_KEY;
-        if (!apiKey) throw new Error("DeepSeek API key not configured");
-        return new ChatOpenAI({
-          ...commonConfig,
-          openAIApiKey: apiKey,
-          modelName: model,
-          configuration: {
-            baseURL: "https://api.deepseek.com/v1"
-          }
-        });
-      }
+  // What the calls so far cost, for recording once the chain is done
+  public getUsage(): ErrorFixUsage {
+    return this.spent;
+  }
 
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
+  private async formatFixPrompt(
+    analysis: CodeError,
+    code: string,
+    attempts: FixAttempt[],
+  ): Promise<string> {
+    return fixingPrompt.format({
+      error_analysis: JSON.stringify(analysis, null, 2),
+      code,
+      previous_attempts: this.describeAttempts(attempts),
+    });
   }
 
-  private async analyzeError(): Promise<CodeError> {
+  public async analyzeError(): Promise<CodeError> {
     const { code, error, errorDetails } = this.options;
     const context = formatErrorContext(code, error, errorDetails);
 
     try {
-      const analysis = await this.llmChain.invoke({ context });
+      const prompt = await errorAnalysisPrompt.format({ context });
+      const analysis = await errorFixingParser.parse(await this.complete(prompt));
       return analysis.original_error;
     } catch (error) {
       console.error("Error in analysis chain:", error);
@@ -176,53 +161,89 @@ class ErrorFixingChain {
     }
   }
 
-  public async *streamFix(): AsyncGenerator<string> {
+  private describeAttempts(attempts: FixAttempt[]): string {
+    if (attempts.length === 0) return "None";
+
+    return attempts
+      .map((attempt, index) => [
+        `Attempt ${index + 1} still failed to parse:`,
+        ...(attempt.remaining_issues ?? []).map(issue => `- ${issue}`)
+      ].join('\n'))
+      .join('\n\n');
+  }
+
+  // Streams a single, unverified fix, analyzing the error first unless an
+  // analysis from a previous analyzeError() call is passed in
+  public async *streamFix(existingAnalysis?: CodeError): AsyncGenerator<string> {
     try {
-      // First analyze the error
-      const analysis = await this.analyzeError();
-      
-      // Create fixing chain with the analysis results
-      const fixChain = RunnableSequence.from([
-        fixingPrompt,
-        this.initializeLLM(),
-        new StringOutputParser()
-      ]);
-
-      // Stream the fix
-      const stream = await fixChain.stream({
-        error_analysis: JSON.stringify(analysis, null, 2),
-        code: this.options.code
-      });
+      const analysis = existingAnalysis ?? await this.analyzeError();
+
+      const prompt = await this.formatFixPrompt(analysis, this.options.code, []);
 
-      for await (const chunk of stream) {
-        yield chunk;
+      let text = "";
+      let usage: ProviderUsage | null = null;
+
+      for await (const event of this.adapter.streamText(this.toRequest(prompt))) {
+        if (event.type === "usage") {
+          usage = event.usage;
+          continue;
+        }
+        text += event.text;
+        yield event.text;
       }
 
+      this.addUsage(prompt, text, usage);
+
     } catch (error) {
       console.error("Error in fix chain:", error);
       throw error;
     }
   }
 
+  /**
+   * Fixes the code, parses the result and, while it still has errors, asks
+   * for another fix of the latest attempt with those errors and the earlier
+   * attempts in the prompt. Stops at the first attempt that parses or after
+   * maxAttempts, and returns the last attempt with the full history.
+   */
+  public async fixWithVerification(): Promise<VerifiedFix> {
+    const analysis = await this.analyzeError();
+    const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const attempts: FixAttempt[] = [];
+    let code = this.options.code;
+
+    for (let attemptNumber = 1; attemptNumber <= maxAttempts; attemptNumber++) {
+      const prompt = await this.formatFixPrompt(analysis, code, attempts);
+      const fixedCode = stripCodeFences(await this.complete(prompt)).trim();
+      const { valid, issues } = verifyCode(fixedCode);
+
+      attempts.push({
+        original_error: analysis,
+        fix_successful: valid,
+        fixed_code: fixedCode,
+        remaining_issues: issues.map(formatCodeIssue),
+        next_steps: valid
+          ? []
+          : attemptNumber < maxAttempts
+            ? ["Retrying with the remaining parser errors"]
+            : ["Describe the remaining issues in chat or fix them manually"]
+      });
+
+      if (valid) break;
+      if (fixedCode) code = fixedCode;
+    }
+
+    return { ...attempts[attempts.length - 1], attempts };
+  }
+
   // Method for non-streaming response if needed
   public async getFix(): Promise<string> {
-    const chunks: string[] = [];
-    for await (const chunk of this.streamFix()) {
-      chunks.push(chunk);
-    }
-    return chunks.join('');
+    const result = await this.fixWithVerification();
+    return result.fixed_code ?? '';
   }
 }
 
-export const createErrorFixer = async (options: ErrorFixOptions) => {
-  const chain = new ErrorFixingChain(options);
-  return chain.streamFix();
-};
-
-export const getFixWithoutStreaming = async (options: ErrorFixOptions) => {
-  const chain = new ErrorFixingChain(options);
-  return chain.getFix();
-};
+export { ErrorFixingChain };
 
 // Export types for use in other components
-export type { ErrorFixOptions, CodeError, FixAttempt };
+export type { ErrorFixOptions, ErrorFixUsage, CodeError, FixAttempt, VerifiedFix };
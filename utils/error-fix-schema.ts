@@ -2,7 +2,7 @@ import { z } from "zod";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 
 // Schema for code validation error details
-const codeErrorSchema = z.object({
+export const codeErrorSchema = z.object({
   error_type: z.string().describe("Type of the error encountered"),
   line_number: z.number().optional().describe("Line number where error occurred"),
   column: z.number().optional().describe("Column where error occurred"),
@@ -78,4 +78,7 @@ export function parseErrorDetails(error: string): {
 
 // Type exports for use in other files
 export type CodeError = z.infer<typeof codeErrorSchema>;
-export type FixAttempt = z.infer<typeof fixAttemptSchema>;
\ No newline at end of file
+export type FixAttempt = z.infer<typeof fixAttemptSchema>;
+
+// The final attempt of a verified fix loop, with every attempt in order
+export type VerifiedFix = FixAttempt & { attempts: FixAttempt[] };
\ No newline at end of file
@@ -78,10 +78,14 @@ export async function fetchOllamaModels(): Promise<OllamaModel[]> {
   }
 }
 
-export function createOllamaRequest(model: string, prompt: string, settings?: OllamaSettings) {
+export function createOllamaChatRequest(
+  model: string,
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>,
+  settings?: OllamaSettings
+) {
   const requestBody = {
     model,
-    prompt,
+    messages,
     stream: true,
     options: {
       temperature: settings?.temperature ?? 0.7,
@@ -99,59 +103,6 @@ export function createOllamaRequest(model: string, prompt: string, settings?: Ol
   };
 }
 
-export async function handleOllamaStream(
-  response: Response, 
-  controller: ReadableStreamDefaultController,
-  encoder: TextEncoder,
-  processResponse?: (text: string) => string
-) {
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error("Failed to get reader from Ollama response");
-  }
-
-  let buffer = "";
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const text = new TextDecoder().decode(value);
-      const lines = text.split("\n").filter(line => line.trim());
-
-      for (const line of lines) {
-        try {
-          const data = JSON.parse(line);
-          if (data.error) {
-            throw new Error(data.error);
-          }
-          if (data.response) {
-            if (processResponse) {
-              buffer += data.response;
-              if (buffer.length > 100) {
-                controller.enqueue(encoder.encode(processResponse(buffer)));
-                buffer = "";
-              }
-            } else {
-              controller.enqueue(encoder.encode(data.response));
-            }
-          }
-        } catch (e) {
-          if (e instanceof Error && e.message !== "Unexpected end of JSON input") {
-            console.error("Error parsing Ollama response:", e);
-          }
-        }
-      }
-    }
-
-    if (buffer && processResponse) {
-      controller.enqueue(encoder.encode(processResponse(buffer)));
-    }
-  } finally {
-    reader.releaseLock();
-  }
-}
-
 // Helper function to check if Ollama is available
 export async function isOllamaAvailable(): Promise<boolean> {
   try {
@@ -0,0 +1,47 @@
+import type { ProjectFiles } from "@/types/models/generation";
+
+// Sandpack mounts this file as the app root, so every project needs one
+export const ENTRY_FILE = "/App.tsx";
+
+// Marker line that starts each file of a multi-file project
+const FILE_MARKER = /^\/\/ FILE: *(\S+) *$/gm;
+
+const SOURCE_FILE = /\.(t|j)sx?$/;
+
+export const isSourceFile = (path: string) => SOURCE_FILE.test(path);
+
+function normalizePath(path: string): string {
+  return `/${path.replace(/^\.?\/+/, "")}`;
+}
+
+/**
+ * Splits a generated project into its files. Each file starts with a
+ * `// FILE: /path` line; code without any marker is a single-file project
+ * and becomes the entry file, which keeps older generations loading. Text
+ * before the first marker is dropped.
+ */
+export function parseProjectFiles(code: string): ProjectFiles {
+  const markers = Array.from(code.matchAll(FILE_MARKER));
+  if (markers.length === 0) {
+    return { [ENTRY_FILE]: code };
+  }
+
+  const files: ProjectFiles = {};
+  markers.forEach((marker, index) => {
+    const start = marker.index! + marker[0].length;
+    const end = markers[index + 1]?.index ?? code.length;
+    files[normalizePath(marker[1])] = code.slice(start, end).trim();
+  });
+
+  return files;
+}
+
+// Inverse of parseProjectFiles; single-file projects stay unmarked
+export function serializeProjectFiles(files: ProjectFiles): string {
+  const paths = Object.keys(files);
+  if (paths.length === 1 && paths[0] === ENTRY_FILE) {
+    return files[ENTRY_FILE];
+  }
+
+  return paths.map((path) => `// FILE: ${path}\n${files[path]}`).join("\n\n");
+}
@@ -0,0 +1,14 @@
+// {{name}} placeholders; spaces inside the braces are ignored
+const VARIABLE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Each placeholder once, in the order it first appears
+export function extractVariables(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(VARIABLE), (match) => match[1])));
+}
+
+// Placeholders without a value are left in place so they stay visible
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE, (placeholder, name: string) =>
+    values[name]?.trim() ? values[name].trim() : placeholder,
+  );
+}